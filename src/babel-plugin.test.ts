@@ -0,0 +1,543 @@
+import { describe, expect, it } from 'vitest'
+import { instrument } from './test/helpers'
+import { RenderRisk } from './types'
+
+const MEMO_WITH_COMPARATOR = `
+  import { memo } from 'react'
+  const Row = memo(function Row({ item }) {
+    return <li>{item.done ? 'done' : item.label}</li>
+  }, (a, b) => a.item.id === b.item.id && a.item.label === b.item.label)
+`
+
+describe('component classification', () => {
+  it('treats the first argument of memo() as the component', () => {
+    const { manifest } = instrument(MEMO_WITH_COMPARATOR)
+    const ternary = manifest.find(entry => entry.type === 'jsx-ternary' && !entry.arm)
+    expect(ternary?.owner).toMatchObject({ functionName: 'Row', kind: 'component', component: 'Row' })
+  })
+
+  it('does not treat the props comparator of memo(Row, (a, b) => …) as a component', () => {
+    const { manifest } = instrument(MEMO_WITH_COMPARATOR)
+    const comparison = manifest.find(entry => entry.type === 'logical')
+    expect(comparison?.owner).toEqual({ functionName: 'anonymous', kind: 'function' })
+  })
+
+  it('records the nearest component, hook and handler around a branch', () => {
+    const { manifest } = instrument(`
+      function useCart(items) {
+        return items.length > 0 ? items : null
+      }
+      export function Cart({ items }) {
+        const handleRemove = id => { if (id) items.remove(id) }
+        return <button onClick={() => items.length && handleRemove(items[0])}>Remove</button>
+      }
+    `)
+    const owners = Object.fromEntries(manifest.filter(entry => !entry.arm).map(entry => [entry.condition, entry.owner]))
+
+    expect(owners['items.length > 0']).toEqual({ functionName: 'useCart', kind: 'hook', hook: 'useCart' })
+    expect(owners['(id)']).toEqual({ functionName: 'handleRemove', kind: 'handler', component: 'Cart', handler: 'handleRemove' })
+    expect(owners['items.length && handleRemove(items[0])']).toEqual({
+      functionName: 'onClick',
+      kind: 'handler',
+      component: 'Cart',
+      handler: 'onClick'
+    })
+  })
+
+  it('unwraps nested wrappers through their first argument', () => {
+    const { manifest } = instrument(`
+      const Input = React.memo(React.forwardRef((props, ref) => props.value ? <input ref={ref} /> : null))
+    `)
+    expect(manifest[0].owner).toMatchObject({ functionName: 'Input', kind: 'component' })
+  })
+})
+
+// The instrumented source of MEMO_WITH_COMPARATOR's second argument
+function comparatorOf(code: string): string {
+  return code.slice(code.indexOf('(a, b) =>'))
+}
+
+function count(code: string, pattern: string): number {
+  return code.split(pattern).length - 1
+}
+
+describe('memo comparators', () => {
+  it('records renders only for the component under trackRenders', () => {
+    const { code } = instrument(MEMO_WITH_COMPARATOR, { trackRenders: true })
+    expect(comparatorOf(code)).not.toMatch(/_useRef|recordRender/)
+    expect(count(code, '_useRef(null)')).toBe(1)
+    expect(count(code, '.recordRender(')).toBe(1)
+  })
+
+  it('tracks mounts only for the component under trackAsync', () => {
+    const { code } = instrument(MEMO_WITH_COMPARATOR, { trackAsync: true })
+    expect(comparatorOf(code)).not.toMatch(/_useRef|_useEffect|trackMount/)
+    expect(count(code, '.trackMount(')).toBe(1)
+  })
+
+  it('enters a scope only for the component under trackScopes', () => {
+    const { code } = instrument(MEMO_WITH_COMPARATOR, { trackScopes: true })
+    expect(comparatorOf(code)).not.toMatch(/enterScope|_useContext/)
+    expect(count(code, '.enterScope(')).toBe(1)
+  })
+
+  it('gives only the component an instance under recordStateHistory', () => {
+    const { code } = instrument(MEMO_WITH_COMPARATOR, { recordStateHistory: true })
+    expect(comparatorOf(code)).not.toMatch(/_useRef|_instance/)
+    expect(count(code, '_useRef(null)')).toBe(1)
+  })
+})
+
+// Runs instrumented plain JS against a runtime that records default-param outcomes by condition
+function evaluateDefaults(code: string, name: string) {
+  const pending = new Set<string>()
+  const outcomes: Record<string, boolean[]> = {}
+  const runtime = {
+    markDefaultParam: (branchId: string) => pending.add(branchId),
+    settleDefaultParam: (branchId: string, condition: string) => {
+      (outcomes[condition] = outcomes[condition] || []).push(pending.delete(branchId))
+    }
+  }
+  const fn = new Function('window', `${code}\nreturn ${name}`)({ __RUNTIME_COVERAGE__: runtime })
+  return { fn, outcomes }
+}
+
+describe('default parameters', () => {
+  const SAVE = `
+    function save({ onSave = null, tags: [first = 'none'] = [] }, mode = 'draft') {
+      return [onSave, first, mode]
+    }
+  `
+
+  it('registers destructured defaults as default-param branches', () => {
+    const { manifest } = instrument(SAVE)
+    expect(manifest.filter(entry => entry.type === 'default-param').map(entry => entry.condition).sort()).toEqual([
+      "[first = 'none'] = []",
+      "first = 'none'",
+      "mode = 'draft'",
+      'onSave = null'
+    ])
+  })
+
+  it('settles whether each destructured default was used', () => {
+    const { code } = instrument(SAVE)
+    const { fn, outcomes } = evaluateDefaults(code, 'save')
+
+    expect(fn({ onSave: 'cb', tags: ['a'] })).toEqual(['cb', 'a', 'draft'])
+    expect(fn({})).toEqual([null, 'none', 'draft'])
+    expect(outcomes).toEqual({
+      'onSave = null': [false, true],
+      "first = 'none'": [false, true],
+      "[first = 'none'] = []": [false, true],
+      "mode = 'draft'": [true, true]
+    })
+  })
+
+  it('settles destructured props after trackRenders unpacks them in the body', () => {
+    const { code } = instrument(`function Editor({ onSave = noop }) { return <form /> }`, { trackRenders: true })
+    expect(code.indexOf('} = _props')).toBeGreaterThan(-1)
+    expect(code.indexOf('settleDefaultParam')).toBeGreaterThan(code.indexOf('} = _props'))
+  })
+
+  it('leaves defaults of variable destructuring alone', () => {
+    const { manifest } = instrument(`function read(options) { const { retries = 3 } = options; return retries }`)
+    expect(manifest.filter(entry => entry.type === 'default-param')).toEqual([])
+  })
+})
+
+describe('pragmas', () => {
+  it('skips a file with frontsense-ignore-file and says why', () => {
+    const skipped: unknown[] = []
+    const { code, manifest } = instrument(`
+      // frontsense-ignore-file
+      export const pick = a => a ? 1 : 2
+    `, { onSkip: (file: unknown) => skipped.push(file) })
+
+    expect(manifest).toEqual([])
+    expect(code).not.toContain('__RUNTIME_COVERAGE__')
+    expect(skipped).toEqual([{ file: 'src/App.jsx', reason: 'ignore-file' }])
+  })
+
+  it('skips the next statement and everything in it with frontsense-ignore-next', () => {
+    const { manifest } = instrument(`
+      function run(debug, user) {
+        /* frontsense-ignore-next */
+        if (debug) { console.log(user ? user.name : 'none') }
+        return user ? 1 : 0
+      }
+    `)
+    expect(manifest.filter(entry => !entry.arm).map(entry => entry.condition)).toEqual(['user'])
+  })
+
+  it('keeps frontsense-ignore-next elements and components out of tagging, renders and render risks', () => {
+    const risks: RenderRisk[] = []
+    const { code } = instrument(`
+      /* frontsense-ignore-next */
+      export function Debug({ rows }) { return <ul>{rows.map((row, index) => <li key={index} />)}</ul> }
+      export function Panel({ rows }) {
+        return (
+          <section>
+            {/* frontsense-ignore-next */}
+            {rows.map((row, index) => <li key={index} style={{ color: 'red' }} />)}
+          </section>
+        )
+      }
+    `, {
+      trackVitals: true,
+      trackRenders: true,
+      analyzeRenderRisks: true,
+      onRenderRisks: (_file: string, found: RenderRisk[]) => risks.push(...found)
+    })
+
+    expect(count(code, 'data-frontsense=')).toBe(1)
+    expect(code).toMatch(/<section data-frontsense="Panel@/)
+    expect(count(code, '.recordRender(')).toBe(1)
+    expect(code).toContain('"Panel"')
+    expect(risks).toEqual([])
+  })
+
+  it('labels a branch and the branches nested in it', () => {
+    const { manifest } = instrument(`
+      function checkout(cart) {
+        /* frontsense-label: checkout-guard */
+        if (!cart.items.length) { return cart.draft ? 'draft' : 'empty' }
+        return cart.total > 0 ? 'pay' : 'free'
+      }
+    `)
+    const labels = Object.fromEntries(manifest.filter(entry => !entry.arm).map(entry => [entry.condition, entry.label]))
+    expect(labels).toEqual({ '(!cart.items.length)': 'checkout-guard', 'cart.draft': 'checkout-guard', 'cart.total > 0': undefined })
+  })
+
+  it('marks expected-dead arms', () => {
+    const { manifest } = instrument(`
+      function call(legacyApi) {
+        if (legacyApi) {
+          return 1
+        } else /* frontsense-expect: dead */ {
+          return 2
+        }
+      }
+    `)
+    const alternate = manifest.find(entry => entry.arm?.kind === 'alternate')
+    expect(alternate?.expectedDead).toBe(true)
+    expect(manifest.filter(entry => entry.expectedDead)).toHaveLength(1)
+  })
+})
+
+
+describe('branch ids', () => {
+  const SOURCE = `
+    function price(item) {
+      if (item.sale) return item.price / 2
+      return item.free ? 0 : item.price
+    }
+  `
+
+  function idsByCondition(code: string, options: Record<string, unknown> = {}) {
+    const { manifest } = instrument(code, options)
+    return Object.fromEntries(manifest.filter(entry => !entry.arm).map(entry => [entry.condition, entry.branchId]))
+  }
+
+  it('keeps ids when branches are added above or the code is reformatted', () => {
+    const ids = idsByCondition(SOURCE)
+    const edited = idsByCondition(`
+      function discount(user) { return user.vip ? 0.2 : 0 }
+      function price(item) {
+        if (item.sale)   return item.price / 2
+        return item.free
+          ? 0
+          : item.price
+      }
+    `)
+
+    expect(edited['item.sale']).toBe(ids['item.sale'])
+    expect(edited['item.free']).toBe(ids['item.free'])
+  })
+
+  it('tells repeated conditions in one function apart', () => {
+    const { manifest } = instrument('function f(a) { if (a) return 1; if (a) return 2 }')
+    const ids = manifest.filter(entry => !entry.arm).map(entry => entry.branchId)
+    expect(new Set(ids).size).toBe(2)
+  })
+
+  it('records each JSX conditional once', () => {
+    const { code, manifest } = instrument('const List = ({ a, b }) => <ul>{a && <li />}{b ? <li /> : null}</ul>')
+
+    expect(manifest.map(entry => [entry.type, entry.arm?.kind])).toEqual([
+      ['jsx-conditional', undefined],
+      ['jsx-ternary', undefined],
+      ['jsx-ternary', 'consequent'],
+      ['jsx-ternary', 'alternate']
+    ])
+    expect(count(code, '.recordBranchHit(')).toBe(2)
+  })
+
+  it('keeps the whole test of a ternary as its condition', () => {
+    const { manifest } = instrument(`
+      const pick = (o, a, b) => (a ? o?.a : b) ? 1 : 2
+      const Tag = ({ o }) => <b>{o?.label ? o.label : 'none'}</b>
+    `)
+    const conditions = manifest.filter(entry => !entry.arm && entry.type.endsWith('ternary')).map(entry => entry.condition)
+    expect(conditions).toEqual(['a ? o?.a : b', 'a', 'o?.label'])
+  })
+
+  it('reports positions in the original source through an input source map', () => {
+    // Generated line 2 comes from original line 10
+    const inputSourceMap = { version: 3, sources: ['App.tsx'], names: [], mappings: ';AASA' }
+    const { manifest } = instrument('\nfunction pick(a) { return a ? 1 : 2 }', { inputSourceMap })
+    expect(manifest.find(entry => entry.type === 'ternary' && !entry.arm)).toMatchObject({ line: 10, column: 0 })
+  })
+})
+
+describe('render tracking', () => {
+  const SOURCE = `
+    import { useState } from 'react'
+    function useToggle() { return useState(false) }
+    export function Menu({ items }) {
+      const [open, setOpen] = useState(false)
+      const format = item => item.label
+      return <ul>{open ? items.map(format) : null}</ul>
+    }
+  `
+
+  it('records each render of a component with its props and state values', () => {
+    const { code } = instrument(SOURCE, { trackRenders: true })
+
+    expect(count(code, '.recordRender(')).toBe(1)
+    expect(code).toMatch(/recordRender\("[^"]*App\.jsx:render:\w+", "Menu", 4, _instance, _props, \[open\]\)/)
+    expect(code).toContain('const _instance = _useRef(null)')
+  })
+
+  it('leaves components alone unless trackRenders is set', () => {
+    expect(instrument(SOURCE).code).not.toContain('recordRender')
+  })
+})
+
+describe('hook audit', () => {
+  it('passes the deps of effect, memo and callback hooks through recordHookDeps', () => {
+    const { code } = instrument(`
+      import { useCallback, useEffect } from 'react'
+      export function Search({ query, onSearch }) {
+        const submit = useCallback(() => onSearch(query), [query, onSearch])
+        useEffect(() => { submit() })
+        return <button onClick={submit} />
+      }
+    `, { auditHooks: true })
+
+    expect(code).toContain('recordHookDeps(_sites[0], _useRef(null), [query, onSearch])')
+    expect(code).toContain('recordHookDeps(_sites[1], _useRef(null), void 0)')
+    expect(code).toMatch(/"hook": "useCallback",[\s\S]*"dependencies": \["query", "onSearch"\]/)
+  })
+})
+
+describe('state update tracing', () => {
+  it('passes the arguments of setters and dispatches through recordStateUpdate', () => {
+    const { code } = instrument(`
+      import { useReducer, useState } from 'react'
+      export function Cart({ reducer }) {
+        const [count, setCount] = useState(0)
+        const [, dispatch] = useReducer(reducer, {})
+        return <button onClick={() => { setCount(count + 1); dispatch({ type: 'add' }) }} />
+      }
+    `, { traceStateUpdates: true })
+
+    expect(code).toContain('setCount(...window.__RUNTIME_COVERAGE__.recordStateUpdate(_sites[0], [count + 1]))')
+    expect(code).toContain('dispatch(...window.__RUNTIME_COVERAGE__.recordStateUpdate(_sites[1], [{')
+    expect(code).toMatch(/"kind": "useState",\s*"setter": "setCount",\s*"state": "count"/)
+  })
+})
+
+describe('async tracking', () => {
+  it('wraps awaited values and promise chains and tracks the mount', () => {
+    const { code } = instrument(`
+      import { useEffect, useState } from 'react'
+      export function Profile({ id }) {
+        const [user, setUser] = useState(null)
+        useEffect(() => {
+          async function load() { setUser(await fetchUser(id)) }
+          load()
+          logVisit(id).then(() => {})
+        }, [id])
+        return <p>{user}</p>
+      }
+    `, { trackAsync: true })
+
+    expect(code).toContain('window.__RUNTIME_COVERAGE__.trackMount(_instance)')
+    expect(code).toContain('await window.__RUNTIME_COVERAGE__.trackAsync(_sites[0], _instance, fetchUser(id))')
+    expect(code).toContain('window.__RUNTIME_COVERAGE__.trackAsync(_sites[1], _instance, logVisit(id).then(() => {}))')
+    expect(code).toMatch(/"kind": "promise-chain",\s*"code": "logVisit\(id\)\.then\(…\)"[\s\S]*"detached": true/)
+  })
+
+  it('leaves async code outside components and hooks alone', () => {
+    const { code } = instrument('async function load(id) { return await fetchUser(id) }', { trackAsync: true })
+    expect(code).not.toContain('trackAsync')
+  })
+})
+
+describe('event tracing', () => {
+  it('wraps on* props of DOM elements only', () => {
+    const { code } = instrument(`
+      export function Row({ onOpen }) {
+        const handleClick = event => { event.stopPropagation(); onOpen() }
+        return <li onClick={handleClick}><a onClickCapture={event => event.preventDefault()} /><Child onClick={handleClick} /></li>
+      }
+    `, { traceEvents: true })
+
+    expect(code).toContain('<li onClick={window.__RUNTIME_COVERAGE__.traceHandler(_sites[0], handleClick)}>')
+    expect(code).toContain('onClickCapture={window.__RUNTIME_COVERAGE__.traceHandler(_sites[1], event => event.preventDefault())}')
+    expect(code).toContain('<Child onClick={handleClick} />')
+    expect(code).toMatch(/"prop": "onClickCapture",\s*"element": "a",\s*"handler": "\(inline\)",\s*"phase": "capture"/)
+  })
+})
+
+describe('suspense tracking', () => {
+  it('notes suspending promises and wraps boundary fallbacks', () => {
+    const { code } = instrument(`
+      import { Suspense, lazy, use } from 'react'
+      const Chart = lazy(() => import('./Chart'))
+      export function Page({ dataPromise }) {
+        const data = use(dataPromise)
+        return <Suspense fallback={<Spinner />}><Chart data={data} /></Suspense>
+      }
+    `, { trackSuspense: true })
+
+    expect(code).toContain("lazy(() => window.__RUNTIME_COVERAGE__.trackSuspender(_sites[0], (() => import('./Chart'))()))")
+    expect(code).toContain('use(window.__RUNTIME_COVERAGE__.trackSuspender(_sites[1], dataPromise))')
+    expect(code).toContain('fallback={<_SuspenseFallback site={_sites[2]}>{<Spinner />}</_SuspenseFallback>}')
+    expect(code).toContain('window.__RUNTIME_COVERAGE__.recordSuspense(site, instance)')
+  })
+
+  it('follows use and lazy through aliases and the React namespace', () => {
+    const { code } = instrument(`
+      import React, { use as read } from 'react'
+      const Chart = React.lazy(() => import('./Chart'))
+      export function Page({ dataPromise }) { return <Chart data={read(dataPromise)} /> }
+    `, { trackSuspense: true })
+
+    expect(count(code, '.trackSuspender(')).toBe(2)
+  })
+
+  it('leaves use and lazy that do not come from react alone', () => {
+    const { code } = instrument(`
+      import _ from 'lodash'
+      import { lazy } from './lazy'
+      const use = value => value
+      app.use(middleware)
+      const later = _.lazy(() => compute())
+      const Chart = lazy(() => import('./Chart'))
+      export function Page({ value }) { return <p>{use(value)}</p> }
+    `, { trackSuspense: true })
+
+    expect(code).not.toContain('trackSuspender')
+  })
+})
+
+describe('vitals attribution', () => {
+  it('marks DOM elements with the component and line that rendered them', () => {
+    const { code } = instrument('export function Hero({ img }) { return <section><img src={img} /><Child /></section> }', { trackVitals: true })
+
+    expect(code).toMatch(/<section data-frontsense="Hero@[^"]*App\.jsx:1">/)
+    expect(code).toMatch(/<img src={img} data-frontsense="Hero@[^"]*App\.jsx:1" \/>/)
+    expect(code).toContain('<Child />')
+  })
+})
+
+describe('scope tracking', () => {
+  it('enters the scopes from context first thing in each component render', () => {
+    const { code } = instrument(`
+      export function Checkout({ total }) {
+        const format = value => value > 0 ? value : 0
+        return <p>{format(total)}</p>
+      }
+    `, { trackScopes: true })
+
+    expect(code).toContain('window.__RUNTIME_COVERAGE_SCOPE_CONTEXT__ = window.__RUNTIME_COVERAGE_SCOPE_CONTEXT__ || _createContext(null)')
+    expect(code).toMatch(/\) {\n\s*window\.__RUNTIME_COVERAGE__\.enterScope\(_useContext\(_scopeContext\), "Checkout"\);/)
+    expect(count(code, '.enterScope(')).toBe(1)
+  })
+})
+
+describe('state history recording', () => {
+  it('records each useState and useReducer value after its hook call', () => {
+    const { code } = instrument(`
+      import { useReducer, useState } from 'react'
+      export function Wizard({ reducer }) {
+        const [step, setStep] = useState(1)
+        const [form] = useReducer(reducer, {})
+        return <p>{step}{form.name}</p>
+      }
+    `, { recordStateHistory: true })
+
+    expect(code).toMatch(/useState\(1\);\n\s*window\.__RUNTIME_COVERAGE__\.recordState\(_sites\[0\], _instance, step\);/)
+    expect(code).toMatch(/useReducer\(reducer, {}\);\n\s*window\.__RUNTIME_COVERAGE__\.recordState\(_sites\[1\], _instance, form\);/)
+    expect(code).toMatch(/"hook": "useReducer",\s*"state": "form"/)
+  })
+})
+
+describe('render risks', () => {
+  function risksOf(code: string) {
+    const risks: RenderRisk[] = []
+    instrument(code, { analyzeRenderRisks: true, onRenderRisks: (_file: string, found: RenderRisk[]) => risks.push(...found) })
+    return risks
+  }
+
+  it('reports new objects, arrays and functions passed to memoized components', () => {
+    const risks = risksOf(`
+      import { memo } from 'react'
+      const Row = memo(function Row({ item, style, onSelect }) { return <li style={style}>{item.name}</li> })
+      export function List({ items, select }) {
+        const handleSelect = id => select(id)
+        return <ul>{items.map(item => <Row key={item.id} item={item} style={{ color: 'red' }} onSelect={handleSelect} />)}</ul>
+      }
+    `)
+
+    expect(risks.map(risk => [risk.kind, risk.prop, risk.value])).toEqual([
+      ['inline-prop', 'style', 'object'],
+      ['inline-prop', 'onSelect', 'function']
+    ])
+    expect(risks[0]).toMatchObject({
+      element: 'Row',
+      line: 6,
+      owner: { component: 'List' },
+      message: "style={{ color: 'red' }} on <Row> is a new object every render, so the memoized component re-renders whenever <List> does"
+    })
+  })
+
+  it('reports provider values created during render and unstable keys', () => {
+    const risks = risksOf(`
+      import { createContext } from 'react'
+      const Theme = createContext(null)
+      export function App({ mode, items }) {
+        return (
+          <Theme.Provider value={{ mode }}>
+            {items.map((item, index) => <p key={index}>{item}</p>)}
+            {items.map(item => <p key={Math.random()}>{item}</p>)}
+          </Theme.Provider>
+        )
+      }
+    `)
+
+    expect(risks.map(risk => [risk.kind, risk.element, risk.value])).toEqual([
+      ['provider-value', 'Theme.Provider', 'object'],
+      ['unstable-key', 'p', 'index'],
+      ['unstable-key', 'p', 'random']
+    ])
+  })
+
+  it('leaves plain elements, stable keys and module-level JSX alone', () => {
+    expect(risksOf(`
+      const header = <Header style={{ margin: 0 }} />
+      export function List({ items }) {
+        return items.map(item => <li key={item.id} style={{ color: 'red' }} onClick={() => item.open()}>{item.name}</li>)
+      }
+    `)).toEqual([])
+  })
+
+  it('adds the risks to the module manifest without changing the code', () => {
+    const source = 'export function App({ items }) { return items.map((item, i) => <p key={i}>{item}</p>) }'
+    const { code } = instrument(source, { analyzeRenderRisks: true, onRenderRisks: () => {} })
+
+    expect(code).toContain('"renderRisks": [{')
+    expect(code).toContain('<p key={i}>{item}</p>')
+  })
+})
@@ -1,11 +1,38 @@
-import { PluginObj, NodePath, types as t } from '@babel/core'
-import { InstrumentationContext } from './types/index.js'
+import { PluginObj, NodePath, template, types as t } from '@babel/core'
+import {
+  AsyncKind,
+  AsyncSite,
+  AuditedHook,
+  BranchArm,
+  BranchArmKind,
+  BranchManifestEntry,
+  BranchOwner,
+  BranchOwnerKind,
+  HandlerSite,
+  HookSite,
+  InstrumentationContext,
+  LoopKind,
+  RenderRiskKind,
+  RenderRiskValue,
+  StateUpdateKind,
+  StateHookSite,
+  StateUpdateSite,
+  SuspenderKind,
+  SuspenderSite,
+  StyleSite,
+  SuspenseBoundarySite
+} from './types/index.js'
+import { hashString, normalizeCondition } from './utils/branch-id.js'
+import { createFileMatcher, toRootRelative } from './utils/glob.js'
+import { RawSourceMap, createPositionResolver } from './utils/source-map.js'
 
 interface BabelPluginState {
   file: {
     opts: {
       filename: string
     }
+    // Incoming source map (from `inputSourceMap` or a sourceMappingURL comment)
+    inputMap?: { toObject(): RawSourceMap } | null
   }
 }
 
@@ -17,15 +44,558 @@ const DEFAULT_CONFIG = {
     maxSamplesPerSecond: 1000,
     collectExecutionTime: false
   },
-  excludePatterns: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
+  excludePatterns: ['**/node_modules/**', '**/*.test.*', '**/*.spec.*'],
   includePatterns: ['**/*.{js,jsx,ts,tsx}'],
   sendToAnalytics: false,
-  visualizationEnabled: true
+  visualizationEnabled: true,
+  mcdc: false,
+  captureOperands: false,
+  trackRenders: false,
+  auditHooks: false,
+  traceStateUpdates: false,
+  trackAsync: false,
+  traceEvents: false,
+  trackSuspense: false,
+  trackVitals: false,
+  traceStyles: false,
+  trackScopes: false,
+  recordStateHistory: false,
+  analyzeRenderRisks: false
 }
 
-function createBranchId(fileName: string, line: number, column: number, type: string, counter: number): string {
-  const cleanFileName = fileName.replace(process.cwd(), '').replace(/^\//, '')
-  return `${cleanFileName}:${line}:${column}:${type}#${counter}`
+// Nodes already instrumented; replacing an ancestor requeues its subtree for another visit
+const instrumentedNodes = new WeakSet<t.Node>()
+
+function claimNode(node: t.Node): boolean {
+  if (instrumentedNodes.has(node)) return false
+  instrumentedNodes.add(node)
+  return true
+}
+
+// `/* frontsense-ignore-next */`, `// frontsense-ignore-file`, `/* frontsense-label: name */`, `/* frontsense-expect: dead */`
+const PRAGMA_PATTERN = /^\s*frontsense-(ignore-next|ignore-file|label|expect)\b\s*:?\s*(.*?)\s*$/
+
+function findPragma(comments: readonly t.Comment[] | null | undefined, name: string): string | undefined {
+  for (const comment of comments || []) {
+    const match = comment.value.match(PRAGMA_PATTERN)
+    if (match && match[1] === name) return match[2]
+  }
+  return undefined
+}
+
+type BranchAnnotations = Pick<BranchManifestEntry, 'label' | 'expectedDead'>
+
+function readAnnotations(comments: readonly t.Comment[] | null | undefined, annotations: BranchAnnotations) {
+  const label = findPragma(comments, 'label')
+  if (label && annotations.label === undefined) annotations.label = label
+  if (findPragma(comments, 'expect') === 'dead') annotations.expectedDead = true
+}
+
+/**
+ * Labels and expectations apply to the annotated node and everything nested
+ * in it. The closest label wins; an expect-dead anywhere above sticks.
+ */
+function getBranchAnnotations(path: NodePath): BranchAnnotations {
+  const annotations: BranchAnnotations = {}
+  let current: NodePath | null = path
+  while (current && !current.isProgram()) {
+    readAnnotations(current.node.leadingComments, annotations)
+    current = current.parentPath
+  }
+  return annotations
+}
+
+// Nodes under a `frontsense-ignore-next` comment, for visitors that tag or analyze nodes without claiming them
+const ignoredNodes = new WeakSet<t.Node>()
+
+function ignoreSubtree(path: NodePath) {
+  instrumentedNodes.add(path.node)
+  ignoredNodes.add(path.node)
+  path.traverse({
+    enter(inner) {
+      instrumentedNodes.add(inner.node)
+      ignoredNodes.add(inner.node)
+    }
+  })
+}
+
+// Claims every node under a `frontsense-ignore-next` comment so no visitor instruments it
+function claimIgnoredNodes(program: NodePath<t.Program>) {
+  program.traverse({
+    enter(path) {
+      if (findPragma(path.node.leadingComments, 'ignore-next') === undefined) return
+      ignoreSubtree(path)
+      path.skip()
+    },
+
+    // In JSX children the comment sits in an empty container, `{/* frontsense-ignore-next */}`, before the child
+    JSXExpressionContainer(path) {
+      const { expression } = path.node
+      if (!t.isJSXEmptyExpression(expression) || findPragma(expression.innerComments, 'ignore-next') === undefined) return
+      let next: NodePath = path.getSibling((path.key as number) + 1)
+      while (next.isJSXText() && !next.node.value.trim()) next = next.getSibling((next.key as number) + 1)
+      if (next.node) ignoreSubtree(next)
+    }
+  })
+}
+
+// The file's path relative to the working directory, as it appears in ids
+function getCleanFileName(context: InstrumentationContext): string {
+  return context.fileName.replace(process.cwd(), '').replace(/^\//, '')
+}
+
+/**
+ * Content-addressed branch id: a hash of the branch type and a key (the
+ * enclosing function path plus normalized condition, or the parent id for
+ * arms). Edits elsewhere in the file leave it unchanged; a repeat of the same
+ * key in a file gets an occurrence suffix.
+ */
+function createBranchId(context: InstrumentationContext, type: string, key: string): string {
+  const cleanFileName = getCleanFileName(context)
+  const hash = hashString(`${type}\0${key}`)
+  const occurrence = context.idOccurrences[hash] = (context.idOccurrences[hash] || 0) + 1
+  return `${cleanFileName}:${type}:${hash}${occurrence > 1 ? `.${occurrence}` : ''}`
+}
+
+// Position in the original source when an incoming source map covers it
+function getLocation(
+  context: InstrumentationContext,
+  node: t.Node,
+  position: 'start' | 'end' = 'start'
+): { line: number; column: number } {
+  const location = node.loc?.[position]
+  if (!location) return { line: 0, column: 0 }
+  return context.resolvePosition?.(location) || { line: location.line, column: location.column }
+}
+
+const COMPONENT_WRAPPERS = ['memo', 'forwardRef']
+
+// Owner lookups walk every enclosing function, so cache them per function node
+const functionOwnerCache = new WeakMap<t.Node, { name?: string; kind: BranchOwnerKind }>()
+
+function isComponentWrapper(callee: t.Node): boolean {
+  if (t.isIdentifier(callee)) return COMPONENT_WRAPPERS.includes(callee.name)
+  return t.isMemberExpression(callee) && t.isIdentifier(callee.property) && COMPONENT_WRAPPERS.includes(callee.property.name)
+}
+
+function getKeyName(key: t.Node): string | undefined {
+  if (t.isIdentifier(key)) return key.name
+  if (t.isStringLiteral(key)) return key.value
+  return undefined
+}
+
+function containsJsx(fnPath: NodePath<t.Function>): boolean {
+  const body = fnPath.node.body
+  if (t.isJSXElement(body) || t.isJSXFragment(body)) return true
+
+  let found = false
+  fnPath.get('body').traverse({
+    Function(innerPath) {
+      innerPath.skip()
+    },
+    'JSXElement|JSXFragment'(jsxPath) {
+      found = true
+      jsxPath.stop()
+    }
+  })
+  return found
+}
+
+function classifyFunction(fnPath: NodePath<t.Function>): { name?: string; kind: BranchOwnerKind } {
+  const cached = functionOwnerCache.get(fnPath.node)
+  if (cached) return cached
+
+  const node = fnPath.node
+  let name: string | undefined
+  let wrapped = false
+  let jsxHandler = false
+
+  if ((t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) && node.id) {
+    name = node.id.name
+  } else if (t.isObjectMethod(node) || t.isClassMethod(node)) {
+    name = getKeyName(node.key)
+  }
+
+  // Unwrap memo(...) / React.forwardRef(...) to find the binding name. Only the
+  // first argument is the component; memo's second is its props comparator.
+  let wrappee: NodePath = fnPath
+  let parent = fnPath.parentPath
+  while (
+    parent &&
+    parent.isCallExpression() &&
+    isComponentWrapper(parent.node.callee) &&
+    wrappee.listKey === 'arguments' &&
+    wrappee.key === 0
+  ) {
+    wrapped = true
+    wrappee = parent
+    parent = parent.parentPath
+  }
+
+  if (!name && parent) {
+    if (parent.isVariableDeclarator() && t.isIdentifier(parent.node.id)) {
+      name = parent.node.id.name
+    } else if ((parent.isObjectProperty() || parent.isClassProperty()) && !parent.node.computed) {
+      name = getKeyName(parent.node.key)
+    } else if (parent.isAssignmentExpression()) {
+      const left = parent.node.left
+      name = t.isIdentifier(left) ? left.name : t.isMemberExpression(left) ? getKeyName(left.property) : undefined
+    } else if (parent.isJSXExpressionContainer() && parent.parentPath?.isJSXAttribute()) {
+      const attributeName = parent.parentPath.node.name
+      name = t.isJSXIdentifier(attributeName) ? attributeName.name : undefined
+      jsxHandler = !!name && /^on[A-Z]/.test(name)
+    }
+  }
+
+  let kind: BranchOwnerKind = 'function'
+  if (name && /^use[A-Z0-9]/.test(name)) {
+    kind = 'hook'
+  } else if (wrapped || (name && /^[A-Z]/.test(name) && containsJsx(fnPath))) {
+    kind = 'component'
+  } else if (jsxHandler || (name && /^(handle|on)[A-Z]/.test(name))) {
+    kind = 'handler'
+  }
+
+  const result = { name, kind }
+  functionOwnerCache.set(node, result)
+  return result
+}
+
+/**
+ * Walks the enclosing functions of a branch, innermost first, and records the
+ * nearest component, custom hook and event handler around it.
+ */
+function getBranchOwner(path: NodePath): BranchOwner | undefined {
+  let fnPath = path.getFunctionParent()
+  if (!fnPath) return undefined
+
+  const innermost = classifyFunction(fnPath)
+  const owner: BranchOwner = {
+    functionName: innermost.name || 'anonymous',
+    kind: innermost.kind
+  }
+
+  while (fnPath) {
+    const { name, kind } = classifyFunction(fnPath)
+    if (name) {
+      if (kind === 'component' && !owner.component) owner.component = name
+      if (kind === 'hook' && !owner.hook) owner.hook = name
+      if (kind === 'handler' && !owner.handler) owner.handler = name
+    }
+    fnPath = fnPath.parentPath?.getFunctionParent() || null
+  }
+
+  return owner
+}
+
+// Enclosing function names, outermost first (`App/handleSubmit/anonymous`)
+function getFunctionPath(path: NodePath): string {
+  const names: string[] = []
+  let fnPath = path.getFunctionParent()
+  while (fnPath) {
+    names.unshift(classifyFunction(fnPath).name || 'anonymous')
+    fnPath = fnPath.parentPath?.getFunctionParent() || null
+  }
+  return names.join('/')
+}
+
+/**
+ * Creates the id of a branch and adds it to the file's manifest at its
+ * original-source position. `node` defaults to the branch node itself.
+ */
+function registerBranch(
+  context: InstrumentationContext,
+  path: NodePath,
+  type: string,
+  condition: string,
+  node: t.Node = path.node
+): BranchManifestEntry {
+  const { line, column } = getLocation(context, node)
+  const branchId = createBranchId(context, type, `${getFunctionPath(path)}\0${normalizeCondition(condition)}`)
+  return addManifestEntry(context, path, branchId, line, column, type, condition)
+}
+
+function addManifestEntry(
+  context: InstrumentationContext,
+  path: NodePath,
+  branchId: string,
+  line: number,
+  column: number,
+  type: string,
+  condition: string,
+  arm?: BranchArm
+): BranchManifestEntry {
+  const [file] = branchId.split(':')
+  const owner = getBranchOwner(path)
+  const entry: BranchManifestEntry = {
+    branchId,
+    file,
+    line,
+    column,
+    type: type as BranchManifestEntry['type'],
+    condition,
+    ...(arm && { arm }),
+    ...(owner && { owner }),
+    ...getBranchAnnotations(path)
+  }
+  context.manifest.push(entry)
+  return entry
+}
+
+function createRuntimeCall(method: string, args: t.Expression[]): t.CallExpression {
+  return t.callExpression(
+    t.memberExpression(
+      t.memberExpression(t.identifier('window'), t.identifier('__RUNTIME_COVERAGE__')),
+      t.identifier(method)
+    ),
+    args
+  )
+}
+
+/**
+ * Registers one arm of a branch (if/else, ternary side, switch case) under its own
+ * id and position, and returns the call that counts entries into that arm.
+ */
+function createArmCall(
+  context: InstrumentationContext,
+  path: NodePath,
+  node: t.Node,
+  parentBranchId: string,
+  type: string,
+  kind: BranchArmKind,
+  index: number,
+  condition: string,
+  position: 'start' | 'end' = 'start'
+): { armId: string; call: t.CallExpression } {
+  const { line, column } = getLocation(context, node, position)
+  const armId = createBranchId(context, type, `${parentBranchId}\0${kind}\0${index}`)
+  const entry = addManifestEntry(context, path, armId, line, column, type, condition, { kind, index, parentBranchId })
+
+  // A pragma on the arm itself (`else /* frontsense-expect: dead */ { ... }`) only applies to that arm
+  const armAnnotations: BranchAnnotations = {}
+  readAnnotations(node.leadingComments, armAnnotations)
+  Object.assign(entry, armAnnotations)
+
+  return {
+    armId,
+    call: createRuntimeCall('recordArmHit', [
+      t.stringLiteral(armId),
+      t.stringLiteral(type),
+      t.stringLiteral(condition),
+      t.stringLiteral(parentBranchId),
+      t.stringLiteral(kind),
+      t.numericLiteral(index)
+    ])
+  }
+}
+
+function prependToStatement(statement: t.Statement, call: t.CallExpression): t.BlockStatement {
+  const instrumentation = t.expressionStatement(call)
+  if (t.isBlockStatement(statement)) {
+    statement.body.unshift(instrumentation)
+    return statement
+  }
+  return t.blockStatement([instrumentation, statement])
+}
+
+function createNullishCheckCall(
+  branchId: string,
+  conditionCode: string,
+  value: t.Expression,
+  type: string
+): t.CallExpression {
+  return createRuntimeCall('recordNullishCheck', [
+    t.stringLiteral(branchId),
+    t.stringLiteral(type),
+    t.stringLiteral(conditionCode),
+    value
+  ])
+}
+
+// References that can be read a second time without side effects (x, this.x, a.b.c)
+function isSimpleReference(node: t.Node): boolean {
+  if (t.isIdentifier(node) || t.isThisExpression(node)) return true
+  return t.isMemberExpression(node) && !node.computed && isSimpleReference(node.object)
+}
+
+function instrumentOptionalChain(
+  path: NodePath<t.OptionalMemberExpression | t.OptionalCallExpression>,
+  context: InstrumentationContext
+) {
+  // Only the link that carries the `?.` can short-circuit
+  if (!path.node.optional || !claimNode(path.node)) return
+
+  const conditionCode = path.getSource()
+
+  if (t.isOptionalMemberExpression(path.node)) {
+    const { branchId } = registerBranch(context, path, 'optional-chain', conditionCode)
+    path.node.object = createNullishCheckCall(branchId, conditionCode, path.node.object, 'optional-chain')
+    return
+  }
+
+  const callee = path.node.callee
+  if (t.isMemberExpression(callee) || t.isOptionalMemberExpression(callee)) {
+    // Wrapping a method callee would lose its `this`, so re-read it beside the call instead
+    if (!isSimpleReference(callee)) return
+
+    const { branchId } = registerBranch(context, path, 'optional-chain', conditionCode)
+    path.replaceWith(t.sequenceExpression([
+      createNullishCheckCall(branchId, conditionCode, t.cloneNode(callee), 'optional-chain'),
+      path.node
+    ]))
+    return
+  }
+
+  const { branchId } = registerBranch(context, path, 'optional-chain', conditionCode)
+  path.node.callee = createNullishCheckCall(branchId, conditionCode, callee as t.Expression, 'optional-chain')
+}
+
+function collectConditionPaths(testPath: NodePath<t.Expression>): NodePath<t.Expression>[] {
+  if (testPath.isLogicalExpression() && testPath.node.operator !== '??') {
+    // These operators are accounted for by the decision, not as separate logical branches
+    instrumentedNodes.add(testPath.node)
+    return [
+      ...collectConditionPaths(testPath.get('left')),
+      ...collectConditionPaths(testPath.get('right') as NodePath<t.Expression>)
+    ]
+  }
+  return [testPath]
+}
+
+/**
+ * MC/DC mode: records every atomic operand of a compound `&&`/`||` decision and
+ * the decision outcome, evaluating the test only once. Returns null for tests
+ * with a single condition, which plain branch coverage already covers.
+ */
+function instrumentDecision(
+  testPath: NodePath<t.Expression>,
+  decisionId: string,
+  entry: BranchManifestEntry
+): t.CallExpression | null {
+  if (!testPath.isLogicalExpression() || testPath.node.operator === '??') return null
+
+  const conditionPaths = collectConditionPaths(testPath)
+  entry.conditions = conditionPaths.map(conditionPath => conditionPath.getSource())
+
+  conditionPaths.forEach((conditionPath, index) => {
+    conditionPath.replaceWith(createRuntimeCall('recordCondition', [
+      t.stringLiteral(decisionId),
+      t.numericLiteral(index),
+      conditionPath.node
+    ]))
+  })
+
+  return createRuntimeCall('recordDecision', [t.stringLiteral(decisionId), testPath.node])
+}
+
+const ARRAY_LOOP_METHODS = ['map', 'filter', 'forEach', 'flatMap', 'reduce']
+
+function getLoopKind(node: t.Loop): LoopKind {
+  if (t.isForInStatement(node)) return 'for-in'
+  if (t.isForOfStatement(node)) return 'for-of'
+  if (t.isWhileStatement(node)) return 'while'
+  if (t.isDoWhileStatement(node)) return 'do-while'
+  return 'for'
+}
+
+/**
+ * Wraps an arm body so the time spent in it is recorded however it exits
+ * (fall-off, return, break or throw).
+ */
+function createTimedBlock(path: NodePath, body: t.Statement[], armId: string): t.BlockStatement {
+  const start = path.scope.generateUidIdentifier('armStart')
+  return t.blockStatement([
+    t.variableDeclaration('const', [t.variableDeclarator(start, createRuntimeCall('startTiming', []))]),
+    t.tryStatement(
+      t.blockStatement(body),
+      null,
+      t.blockStatement([
+        t.expressionStatement(createRuntimeCall('recordTiming', [t.stringLiteral(armId), t.cloneNode(start)]))
+      ])
+    )
+  ])
+}
+
+// Expression arms can't hold a try/finally, so time them through function-scoped temporaries
+function createTimedExpression(path: NodePath, expression: t.Expression, armId: string): t.Expression {
+  const start = path.scope.generateUidIdentifier('armStart')
+  const value = path.scope.generateUidIdentifier('armValue')
+  path.scope.push({ id: start })
+  path.scope.push({ id: value })
+
+  return t.sequenceExpression([
+    t.assignmentExpression('=', t.cloneNode(start), createRuntimeCall('startTiming', [])),
+    t.assignmentExpression('=', t.cloneNode(value), expression),
+    createRuntimeCall('recordTiming', [t.stringLiteral(armId), t.cloneNode(start)]),
+    t.cloneNode(value)
+  ])
+}
+
+// Wrapping a case body in a block would hide its let/const/class/function bindings from other cases
+function hasLexicalDeclarations(statements: t.Statement[]): boolean {
+  return statements.some(statement =>
+    t.isFunctionDeclaration(statement) ||
+    t.isClassDeclaration(statement) ||
+    (t.isVariableDeclaration(statement) && statement.kind !== 'var')
+  )
+}
+
+function canFallThrough(consequent: t.Statement[]): boolean {
+  const last = consequent[consequent.length - 1]
+  if (!last) return true
+  return !(
+    t.isBreakStatement(last) ||
+    t.isReturnStatement(last) ||
+    t.isThrowStatement(last) ||
+    t.isContinueStatement(last)
+  )
+}
+
+const MAX_CAPTURED_OPERANDS = 4
+
+function getReferenceName(node: t.Node): string {
+  if (t.isIdentifier(node)) return node.name
+  if (t.isThisExpression(node)) return 'this'
+  if (t.isMemberExpression(node)) {
+    const property = t.isPrivateName(node.property) ? `#${node.property.id.name}` : getKeyName(node.property)
+    return `${getReferenceName(node.object)}.${property}`
+  }
+  return '?'
+}
+
+// Operands of a condition that can be read again without side effects (x, this.x, a.b.c)
+function collectOperands(node: t.Node): t.Expression[] {
+  if (t.isLogicalExpression(node) || t.isBinaryExpression(node)) {
+    return [...collectOperands(node.left), ...collectOperands(node.right)]
+  }
+  if (t.isUnaryExpression(node)) return collectOperands(node.argument)
+  if (t.isIdentifier(node) && node.name === 'undefined') return []
+  return isSimpleReference(node) ? [node as t.Expression] : []
+}
+
+/**
+ * captureOperands mode: lists the condition's operands in the manifest and
+ * returns getters for them. The collector only calls the getters when it keeps
+ * a sample, and each read is guarded (`items.length` throws when `items` is null).
+ */
+function captureOperands(
+  context: InstrumentationContext,
+  entry: BranchManifestEntry,
+  test: t.Expression
+): t.ArrayExpression | undefined {
+  if (!context.config.captureOperands) return undefined
+
+  const operands = new Map<string, t.Expression>()
+  collectOperands(test).forEach(operand => {
+    const name = getReferenceName(operand)
+    if (operands.size < MAX_CAPTURED_OPERANDS && !operands.has(name)) operands.set(name, operand)
+  })
+  if (operands.size === 0) return undefined
+
+  entry.operands = Array.from(operands.keys())
+  return t.arrayExpression(
+    Array.from(operands.values()).map(operand => t.arrowFunctionExpression([], t.cloneNode(operand)))
+  )
 }
 
 function createInstrumentationCall(
@@ -33,35 +603,864 @@ function createInstrumentationCall(
   conditionCode: string,
   conditionResult: t.Expression,
   type: string,
-  collectExecutionTime: boolean = false
+  operandGetters?: t.ArrayExpression
 ): t.CallExpression {
   const args: t.Expression[] = [
     t.stringLiteral(branchId),
     t.stringLiteral(type),
     t.stringLiteral(conditionCode),
-    conditionResult
+    conditionResult,
+    ...(operandGetters ? [operandGetters] : [])
   ]
 
-  if (collectExecutionTime) {
-    args.push(t.booleanLiteral(true))
+  return createRuntimeCall('recordBranchHit', args)
+}
+
+// Hooks whose result never makes a render necessary: stable (useRef, useId) or derived from props and state
+const DERIVED_HOOKS = ['useRef', 'useId', 'useMemo', 'useCallback']
+
+// `useState` and `React.useState` alike
+function getCalleeName(callee: t.Node): string | undefined {
+  if (t.isIdentifier(callee)) return callee.name
+  if (t.isMemberExpression(callee) && !callee.computed && t.isIdentifier(callee.property)) return callee.property.name
+  return undefined
+}
+
+function isStateHookCall(node: t.Node | null | undefined): boolean {
+  if (!t.isCallExpression(node)) return false
+  const name = getCalleeName(node.callee)
+  return !!name && /^use[A-Z0-9]/.test(name) && !DERIVED_HOOKS.includes(name)
+}
+
+// Added hooks are imported from react, which needs an ES module
+function isModule(path: NodePath): boolean {
+  return (path.scope.getProgramParent().block as t.Program).sourceType === 'module'
+}
+
+// `const [count, setCount] = useState(0)` reads `count`; other patterns read every binding
+function getStateBindings(id: t.Node): t.Identifier[] {
+  const target = t.isArrayPattern(id) ? id.elements[0] : id
+  return target ? Object.values(t.getBindingIdentifiers(target, false)) : []
+}
+
+// Destructured props parameters that getPropsReference moved into the body
+const movedPropsPatterns = new WeakSet<t.Node>()
+
+function isPatternPart(path: NodePath): boolean {
+  const parent = path.parentPath
+  if (!parent) return false
+  if (parent.isObjectProperty()) return path.key === 'value' && !!parent.parentPath?.isObjectPattern()
+  if (parent.isAssignmentPattern()) return path.key === 'left'
+  return parent.isObjectPattern() || parent.isArrayPattern() || parent.isRestElement()
+}
+
+/**
+ * The function whose parameter list a default belongs to, directly or nested
+ * in destructuring, and the props declaration it was moved into if any.
+ * Defaults of ordinary variable destructuring are not parameters.
+ */
+function findDefaultParamOwner(path: NodePath<t.AssignmentPattern>): {
+  functionPath: NodePath<t.Function>
+  declaration?: NodePath
+} | null {
+  let root: NodePath = path
+  while (isPatternPart(root)) {
+    root = root.parentPath!
   }
 
-  return t.callExpression(
-    t.memberExpression(
-      t.memberExpression(t.identifier('window'), t.identifier('__RUNTIME_COVERAGE__')),
-      t.identifier('recordBranchHit')
-    ),
-    args
-  )
+  const parent = root.parentPath
+  if (parent?.isFunction() && root.listKey === 'params') {
+    return { functionPath: parent }
+  }
+  if (parent?.isVariableDeclarator() && root.key === 'id' && movedPropsPatterns.has(root.node)) {
+    const functionPath = parent.getFunctionParent()
+    return functionPath ? { functionPath, declaration: parent.parentPath } : null
+  }
+  return null
+}
+
+/**
+ * The expression a tracked component's props are compared through. A
+ * destructured props parameter moves into the body, so the props object
+ * itself stays reachable.
+ */
+function getPropsReference(fnPath: NodePath<t.Function>, body: t.BlockStatement): t.Expression {
+  const param = fnPath.node.params[0]
+  const pattern = t.isAssignmentPattern(param) ? param.left : param
+  if (t.isIdentifier(pattern)) return t.cloneNode(pattern)
+  if (!t.isObjectPattern(pattern)) return t.nullLiteral()
+
+  movedPropsPatterns.add(pattern)
+  const props = fnPath.scope.generateUidIdentifier('props')
+  body.body.unshift(t.variableDeclaration('let', [t.variableDeclarator(pattern, t.cloneNode(props))]))
+  if (t.isAssignmentPattern(param)) {
+    param.left = props
+  } else {
+    fnPath.node.params[0] = props
+  }
+  return t.cloneNode(props)
+}
+
+// Call sites are described once per module (`const _sites = [...]`) and passed by reference
+function addModuleSite(
+  context: InstrumentationContext,
+  path: NodePath,
+  site: InstrumentationContext['moduleSites'][number]
+): t.Expression {
+  context.moduleSitesName = context.moduleSitesName || path.scope.getProgramParent().generateUid('sites')
+  const index = context.moduleSites.push(site) - 1
+  return t.memberExpression(t.identifier(context.moduleSitesName), t.numericLiteral(index), true)
+}
+
+// Local name of a hook (or createContext) the plugin imports from react for its own bookkeeping
+function importReactHook(context: InstrumentationContext, path: NodePath, hook: string): string {
+  if (!context.reactImports[hook]) {
+    context.reactImports[hook] = path.scope.getProgramParent().generateUid(hook)
+  }
+  return context.reactImports[hook]
 }
 
-export default function runtimeCoverageBabelPlugin(options: any = {}): PluginObj<BabelPluginState> {
+const AUDITED_HOOKS: AuditedHook[] = ['useEffect', 'useLayoutEffect', 'useMemo', 'useCallback']
+
+/**
+ * auditHooks mode: passes the deps of a useEffect/useLayoutEffect/useMemo/
+ * useCallback call through recordHookDeps, with a ref that identifies the hook
+ * instance. A missing deps argument is passed as undefined, which React treats
+ * the same way. Returns false when the call isn't an audited hook.
+ */
+function auditHookCall(context: InstrumentationContext, path: NodePath<t.CallExpression>): boolean {
+  const name = getCalleeName(path.node.callee) as AuditedHook | undefined
+  const args = path.node.arguments
+  if (!name || !AUDITED_HOOKS.includes(name)) return false
+  if (args.length === 0 || args.length > 2 || args.some(arg => !t.isExpression(arg))) return false
+  if (!path.getFunctionParent() || !isModule(path)) return false
+  if (!claimNode(path.node)) return true
+
+  const deps = args[1] as t.Expression | undefined
+  const depsPath = path.get('arguments')[1]
+  const hookId = createBranchId(context, 'hook', `${getFunctionPath(path)}\0${name}\0${normalizeCondition(depsPath ? depsPath.getSource() : '')}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const site: HookSite = {
+    hookId,
+    hook: name,
+    file: hookId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner }),
+    ...(depsPath?.isArrayExpression() && {
+      dependencies: depsPath.get('elements').map(element => element.getSource())
+    })
+  }
+
+  args[1] = createRuntimeCall('recordHookDeps', [
+    addModuleSite(context, path, site),
+    t.callExpression(t.identifier(importReactHook(context, path, 'useRef')), [t.nullLiteral()]),
+    deps || path.scope.buildUndefinedNode()
+  ])
+  return true
+}
+
+const STATE_HOOKS = ['useState', 'useReducer']
+
+// `setCount(...)` from `const [count, setCount] = useState()`, a useReducer dispatch, or `this.setState(...)`
+function getStateUpdateTarget(path: NodePath<t.CallExpression>): Pick<StateUpdateSite, 'kind' | 'setter' | 'state'> | undefined {
+  const callee = path.node.callee
+  if (t.isMemberExpression(callee) && t.isThisExpression(callee.object) && t.isIdentifier(callee.property, { name: 'setState' })) {
+    return callee.computed ? undefined : { kind: 'setState', setter: 'this.setState' }
+  }
+  if (!t.isIdentifier(callee)) return undefined
+
+  const binding = path.scope.getBinding(callee.name)
+  if (!binding || !binding.path.isVariableDeclarator()) return undefined
+  const { id, init } = binding.path.node
+  const hook = t.isCallExpression(init) ? getCalleeName(init.callee) : undefined
+  if (!hook || !STATE_HOOKS.includes(hook) || !t.isArrayPattern(id) || id.elements[1] !== binding.identifier) return undefined
+
+  const state = id.elements[0]
+  return {
+    kind: hook as StateUpdateKind,
+    setter: callee.name,
+    ...(t.isIdentifier(state) && { state: state.name })
+  }
+}
+
+/**
+ * traceStateUpdates mode: passes a state update's arguments through
+ * recordStateUpdate (`setCount(...recordStateUpdate(site, [count + 1]))`),
+ * so the collector can link it to the event that caused it. Returns false
+ * when the call isn't a state update.
+ */
+function traceStateUpdate(context: InstrumentationContext, path: NodePath<t.CallExpression>): boolean {
+  const target = getStateUpdateTarget(path)
+  if (!target) return false
+  if (!claimNode(path.node)) return true
+
+  const siteId = createBranchId(context, 'state', `${getFunctionPath(path)}\0${normalizeCondition(path.getSource())}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const site: StateUpdateSite = {
+    siteId,
+    ...target,
+    file: siteId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner })
+  }
+
+  path.node.arguments = [t.spreadElement(createRuntimeCall('recordStateUpdate', [
+    addModuleSite(context, path, site),
+    t.arrayExpression(path.node.arguments as Array<t.Expression | t.SpreadElement>)
+  ]))]
+  return true
+}
+
+/**
+ * recordStateHistory mode: follows `const [count, setCount] = useState(0)`
+ * (or useReducer) with `recordState(site, instance, count)`, so each value
+ * the instance renders with is added to the history. Returns false when the
+ * call isn't a destructured state hook of a tracked component or hook.
+ */
+function recordStateHook(context: InstrumentationContext, path: NodePath<t.CallExpression>): boolean {
+  const hook = getCalleeName(path.node.callee) as StateHookSite['hook'] | undefined
+  if (!hook || !STATE_HOOKS.includes(hook)) return false
+
+  const declarator = path.parentPath
+  if (!declarator.isVariableDeclarator() || declarator.node.init !== path.node) return false
+  const id = declarator.node.id
+  const state = t.isArrayPattern(id) ? id.elements[0] : undefined
+  const declaration = declarator.parentPath
+  if (!t.isIdentifier(state) || !declaration.isVariableDeclaration() || !declaration.parentPath.isBlockStatement()) return false
+
+  const instance = getOwningInstance(path)
+  if (!instance) return false
+  if (!claimNode(path.node)) return true
+
+  const siteId = createBranchId(context, 'state-hook', `${getFunctionPath(path)}\0${hook}\0${state.name}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const site: StateHookSite = {
+    siteId,
+    hook,
+    state: state.name,
+    file: siteId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner })
+  }
+
+  declaration.insertAfter(t.expressionStatement(createRuntimeCall('recordState', [
+    addModuleSite(context, path, site),
+    t.identifier(instance),
+    t.identifier(state.name)
+  ])))
+  return true
+}
+
+/**
+ * Adds the returns of a tracked component (trackRenders): each reports the
+ * render with the props and the state hook values declared before it.
+ */
+function instrumentRenderReturns(
+  context: InstrumentationContext,
+  fnPath: NodePath<t.Function>,
+  name: string,
+  instance: t.Identifier,
+  props: t.Expression
+) {
+  const body = fnPath.node.body as t.BlockStatement
+  const componentId = createBranchId(context, 'render', [getFunctionPath(fnPath), name].filter(Boolean).join('/'))
+  const { line } = getLocation(context, fnPath.node)
+
+  // State hook values declared before each top-level statement
+  const stateBefore: t.Identifier[][] = []
+  let declared: t.Identifier[] = []
+  body.body.forEach(statement => {
+    stateBefore.push(declared)
+    if (!t.isVariableDeclaration(statement)) return
+    statement.declarations.forEach(declarator => {
+      if (isStateHookCall(declarator.init)) declared = [...declared, ...getStateBindings(declarator.id)]
+    })
+  })
+
+  fnPath.get('body').traverse({
+    Function(innerPath) {
+      innerPath.skip()
+    },
+    ReturnStatement(returnPath) {
+      const statement = returnPath.find(ancestor => ancestor.parent === body)
+      const stateValues = stateBefore[statement?.key as number] || []
+      returnPath.node.argument = t.sequenceExpression([
+        createRuntimeCall('recordRender', [
+          t.stringLiteral(componentId),
+          t.stringLiteral(name),
+          t.numericLiteral(line),
+          t.cloneNode(instance),
+          t.cloneNode(props),
+          t.arrayExpression(stateValues.map(id => t.cloneNode(id)))
+        ]),
+        returnPath.node.argument || fnPath.scope.buildUndefinedNode()
+      ])
+    }
+  })
+}
+
+// Set on window by whichever loads first: an instrumented module or the CoverageScope component
+const SCOPE_CONTEXT_GLOBAL = '__RUNTIME_COVERAGE_SCOPE_CONTEXT__'
+
+/**
+ * trackScopes mode: starts a component's body with
+ * `enterScope(useContext(scopeContext), name)`, so the collector knows which
+ * <CoverageScope>s the branches that follow run under. The context is shared
+ * through window, since the plugin can't import the one CoverageScope creates.
+ */
+function enterComponentScope(context: InstrumentationContext, fnPath: NodePath<t.Function>, name: string) {
+  context.scopeContextName = context.scopeContextName || fnPath.scope.getProgramParent().generateUid('scopeContext')
+  const body = fnPath.node.body as t.BlockStatement
+  body.body.unshift(t.expressionStatement(createRuntimeCall('enterScope', [
+    t.callExpression(t.identifier(importReactHook(context, fnPath, 'useContext')), [t.identifier(context.scopeContextName)]),
+    t.stringLiteral(name)
+  ])))
+  importReactHook(context, fnPath, 'createContext')
+}
+
+// Component and hook functions -> local name of their instance ref
+const functionInstances = new WeakMap<t.Node, string>()
+
+// The instance ref of the nearest enclosing tracked component or hook
+function getOwningInstance(path: NodePath): string | undefined {
+  let fnPath = path.getFunctionParent()
+  while (fnPath) {
+    const instance = functionInstances.get(fnPath.node)
+    if (instance) return instance
+    fnPath = fnPath.parentPath?.getFunctionParent() || null
+  }
+  return undefined
+}
+
+function createAsyncSite(context: InstrumentationContext, path: NodePath, kind: AsyncKind, code: string): AsyncSite {
+  const siteId = createBranchId(context, 'async', `${getFunctionPath(path)}\0${normalizeCondition(code)}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  return {
+    siteId,
+    kind,
+    code,
+    file: siteId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner })
+  }
+}
+
+const PROMISE_METHODS = ['then', 'catch', 'finally']
+
+function isPromiseChainCall(node: t.Node): node is t.CallExpression & { callee: t.MemberExpression } {
+  return t.isCallExpression(node) &&
+    t.isMemberExpression(node.callee) &&
+    !node.callee.computed &&
+    t.isIdentifier(node.callee.property) &&
+    PROMISE_METHODS.includes(node.callee.property.name)
+}
+
+/**
+ * trackAsync mode: observes a whole `.then/.catch/.finally` chain, from its
+ * outermost call, until the last continuation settles. Returns false when the
+ * call isn't the end of a promise chain.
+ */
+function trackPromiseChain(context: InstrumentationContext, path: NodePath<t.CallExpression>): boolean {
+  if (!isPromiseChainCall(path.node)) return false
+  const parent = path.parentPath
+  if (parent.isMemberExpression({ object: path.node }) && isPromiseChainCall(parent.parent)) return false
+
+  const instance = getOwningInstance(path)
+  if (!instance || !claimNode(path.node)) return !!instance
+
+  let head: t.Expression = path.node
+  while (isPromiseChainCall(head)) head = head.callee.object
+  const code = `${path.getSource().slice(0, (head.end ?? 0) - (path.node.start ?? 0))}.${(path.node.callee.property as t.Identifier).name}(…)`
+
+  const site = createAsyncSite(context, path, 'promise-chain', code)
+  if (path.parentPath.isExpressionStatement()) {
+    site.detached = true
+  }
+
+  path.replaceWith(createRuntimeCall('trackAsync', [
+    addModuleSite(context, path, site),
+    t.identifier(instance),
+    path.node
+  ]))
+  return true
+}
+
+/**
+ * traceEvents mode: wraps an `on*` handler prop on a DOM element so each call
+ * is logged under the event that reached it. Component props are left alone,
+ * since a new function identity there would defeat memoized children.
+ */
+function traceEventHandler(context: InstrumentationContext, path: NodePath<t.JSXAttribute>) {
+  const { name, value } = path.node
+  if (!t.isJSXIdentifier(name) || !/^on[A-Z]/.test(name.name)) return
+  if (!t.isJSXExpressionContainer(value) || t.isJSXEmptyExpression(value.expression)) return
+
+  const element = (path.parent as t.JSXOpeningElement).name
+  if (!t.isJSXIdentifier(element) || !/^[a-z]/.test(element.name)) return
+
+  // The attribute is claimed rather than the expression, which branch instrumentation may have replaced
+  if (!claimNode(path.node)) return
+  const handler = value.expression
+
+  const source = path.get('value.expression').getSource()
+  const siteId = createBranchId(context, 'handler', `${getFunctionPath(path)}\0${element.name}\0${name.name}\0${normalizeCondition(source)}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const site: HandlerSite = {
+    siteId,
+    prop: name.name,
+    element: element.name,
+    handler: t.isFunction(handler) ? '(inline)' : source,
+    phase: name.name.endsWith('Capture') ? 'capture' : 'bubble',
+    file: siteId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner })
+  }
+
+  value.expression = createRuntimeCall('traceHandler', [addModuleSite(context, path, site), handler])
+}
+
+// `<Suspense>` and `<React.Suspense>`
+function isSuspenseElement(name: t.JSXOpeningElement['name']): boolean {
+  if (t.isJSXIdentifier(name)) return name.name === 'Suspense'
+  return t.isJSXMemberExpression(name) && name.property.name === 'Suspense'
+}
+
+/**
+ * trackSuspense mode: wraps a boundary's fallback in the module's fallback
+ * component, whose layout effect reports the fallback showing and, in its
+ * cleanup, hiding again. Boundaries without a fallback prop are left alone.
+ */
+function trackSuspenseBoundary(context: InstrumentationContext, path: NodePath<t.JSXOpeningElement>) {
+  if (!isSuspenseElement(path.node.name) || !isModule(path)) return
+
+  const fallbackPath = path.get('attributes').find(attribute =>
+    attribute.isJSXAttribute() && t.isJSXIdentifier(attribute.node.name, { name: 'fallback' })
+  ) as NodePath<t.JSXAttribute> | undefined
+  const value = fallbackPath?.node.value
+  if (!fallbackPath || !value || !claimNode(fallbackPath.node)) return
+  if (t.isJSXExpressionContainer(value) && t.isJSXEmptyExpression(value.expression)) return
+
+  const code = (t.isJSXExpressionContainer(value) ? fallbackPath.get('value.expression') as NodePath : fallbackPath.get('value') as NodePath).getSource()
+  const siteId = createBranchId(context, 'suspense', `${getFunctionPath(path)}\0${normalizeCondition(code)}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const site: SuspenseBoundarySite = {
+    siteId,
+    fallback: code,
+    file: siteId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner })
+  }
+
+  context.suspenseFallbackName = context.suspenseFallbackName || path.scope.getProgramParent().generateUid('SuspenseFallback')
+  importReactHook(context, path, 'useRef')
+  importReactHook(context, path, 'useLayoutEffect')
+
+  fallbackPath.node.value = t.jsxExpressionContainer(t.jsxElement(
+    t.jsxOpeningElement(t.jsxIdentifier(context.suspenseFallbackName), [
+      t.jsxAttribute(t.jsxIdentifier('site'), t.jsxExpressionContainer(addModuleSite(context, path, site)))
+    ]),
+    t.jsxClosingElement(t.jsxIdentifier(context.suspenseFallbackName)),
+    // The original node keeps its position, which branch instrumentation inside it reads
+    [value as t.JSXExpressionContainer | t.JSXElement | t.JSXFragment]
+  ))
+}
+
+/**
+ * trackVitals mode: marks a DOM element with its component and position as
+ * `data-frontsense="Component@file:line"`, so the collector can map a
+ * performance entry's element (the LCP image, a shifted node, an
+ * interaction's target) back to the code that rendered it.
+ */
+function tagHostElement(context: InstrumentationContext, path: NodePath<t.JSXOpeningElement>) {
+  const { name, attributes } = path.node
+  if (!t.isJSXIdentifier(name) || !/^[a-z]/.test(name.name)) return
+  if (attributes.some(attribute => t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name, { name: 'data-frontsense' }))) return
+
+  const file = getCleanFileName(context)
+  const { line } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const component = owner?.component || owner?.hook || ''
+
+  // Last, so a spread of incoming props can't replace it
+  attributes.push(t.jsxAttribute(t.jsxIdentifier('data-frontsense'), t.stringLiteral(`${component}@${file}:${line}`)))
+}
+
+// A JSX element's name as written (`Row`, `ThemeContext.Provider`)
+function getElementName(name: t.JSXOpeningElement['name']): string {
+  if (t.isJSXIdentifier(name)) return name.name
+  if (t.isJSXMemberExpression(name)) return `${getElementName(name.object)}.${name.property.name}`
+  return `${name.namespace.name}:${name.name.name}`
+}
+
+// `const Row = memo(...)` and `class Row extends PureComponent`, declared in this file
+function isMemoComponent(path: NodePath, name: t.JSXOpeningElement['name']): boolean {
+  if (!t.isJSXIdentifier(name) || !/^[A-Z]/.test(name.name)) return false
+  const declaration = path.scope.getBinding(name.name)?.path
+  if (declaration?.isVariableDeclarator()) {
+    const init = declaration.node.init
+    return t.isCallExpression(init) && getCalleeName(init.callee) === 'memo'
+  }
+  if (declaration?.isClassDeclaration()) {
+    const superClass = declaration.node.superClass
+    return !!superClass && getCalleeName(superClass) === 'PureComponent'
+  }
+  return false
+}
+
+// `<ThemeContext.Provider>`, or the context itself as React 19 renders it
+function isContextProvider(path: NodePath, name: t.JSXOpeningElement['name']): boolean {
+  if (t.isJSXMemberExpression(name)) return name.property.name === 'Provider'
+  if (!t.isJSXIdentifier(name)) return false
+  const declaration = path.scope.getBinding(name.name)?.path
+  const init = declaration?.isVariableDeclarator() ? declaration.node.init : undefined
+  return t.isCallExpression(init) && getCalleeName(init.callee) === 'createContext'
+}
+
+// A literal that evaluates to a new object, array or function each time
+function getLiteralKind(node: t.Node | null | undefined): RenderRiskValue | undefined {
+  if (t.isTSAsExpression(node) || t.isTSSatisfiesExpression(node) || t.isTSNonNullExpression(node) || t.isParenthesizedExpression(node)) {
+    return getLiteralKind(node.expression)
+  }
+  if (t.isObjectExpression(node)) return 'object'
+  if (t.isArrayExpression(node)) return 'array'
+  if (t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)) return 'function'
+  if (t.isCallExpression(node) && t.isMemberExpression(node.callee) && t.isIdentifier(node.callee.property, { name: 'bind' })) return 'function'
+  if (t.isConditionalExpression(node)) return getLiteralKind(node.consequent) || getLiteralKind(node.alternate)
+  if (t.isLogicalExpression(node)) return getLiteralKind(node.right)
+  return undefined
+}
+
+// What a prop value is created anew as on every render: a literal, or a local of the rendering function declared as one
+function getRenderValueKind(path: NodePath, node: t.Node): RenderRiskValue | undefined {
+  const literal = getLiteralKind(node)
+  if (literal || !t.isIdentifier(node)) return literal
+
+  const binding = path.scope.getBinding(node.name)
+  if (!binding?.scope.getFunctionParent()) return undefined
+  if (binding.path.isFunctionDeclaration()) return 'function'
+  return binding.path.isVariableDeclarator() && t.isIdentifier(binding.path.node.id) ? getLiteralKind(binding.path.node.init) : undefined
+}
+
+const UNSTABLE_KEY_CALLS = ['Math.random', 'Date.now', 'performance.now', 'crypto.randomUUID']
+
+// Whether a reference is to the position parameter of an array callback (`items.map((item, index) => ...)`) or a for loop's counter
+function isIndexReference(reference: NodePath<t.Identifier>): boolean {
+  const binding = reference.scope.getBinding(reference.node.name)
+  if (!binding) return false
+  const declaration = binding.path
+  if (binding.kind === 'param') {
+    const fn = declaration.parentPath
+    const call = fn?.parentPath
+    if (!fn?.isFunction() || fn.node.params[1] !== declaration.node || !call?.isCallExpression()) return false
+    const callee = call.get('callee')
+    if (callee.matchesPattern('Array.from')) return call.node.arguments[1] === fn.node
+    return ['map', 'flatMap'].includes(getCalleeName(callee.node) || '') && call.node.arguments[0] === fn.node
+  }
+  return declaration.isVariableDeclarator() && declaration.parentPath.key === 'init' && !!declaration.parentPath.parentPath?.isForStatement()
+}
+
+// Why a key differs between renders of the same item: it is only the list position, or a call that differs each time
+function getKeyRisk(path: NodePath): RenderRiskValue | undefined {
+  let random = false
+  const references: NodePath<t.Identifier>[] = []
+  const visit = (current: NodePath) => {
+    if (current.isCallExpression()) {
+      const callee = current.get('callee')
+      if (UNSTABLE_KEY_CALLS.some(pattern => callee.matchesPattern(pattern))) random = true
+    } else if (current.isIdentifier() && current.isReferencedIdentifier()) {
+      references.push(current)
+    }
+  }
+  visit(path)
+  path.traverse({ enter: visit })
+  if (random) return 'random'
+  return references.length > 0 && references.every(isIndexReference) ? 'index' : undefined
+}
+
+// Characters of an expression kept in a risk's code and message
+const MAX_RISK_CODE_LENGTH = 80
+
+// Elements already analyzed; an element is visited again when an ancestor is replaced
+const analyzedElements = new WeakSet<t.Node>()
+
+/**
+ * analyzeRenderRisks mode: reports, without changing the code, props that
+ * are new on every render: object, array and function literals given to a
+ * memoized component of this file, provider values created during render,
+ * and keys taken from the list index or a call like Math.random(). JSX
+ * outside any function renders once and is left alone.
+ */
+function analyzeRenderRisks(context: InstrumentationContext, path: NodePath<t.JSXOpeningElement>) {
+  if (analyzedElements.has(path.node)) return
+  analyzedElements.add(path.node)
+  if (!path.getFunctionParent()) return
+
+  const element = getElementName(path.node.name)
+  const memoized = isMemoComponent(path, path.node.name)
+  const provider = isContextProvider(path, path.node.name)
+  const owner = getBranchOwner(path)
+  const parent = owner?.component ? `<${owner.component}>` : 'its parent'
+
+  path.get('attributes').forEach(attribute => {
+    if (!attribute.isJSXAttribute() || !t.isJSXIdentifier(attribute.node.name)) return
+    const valuePath = attribute.get('value')
+    if (!valuePath.isJSXExpressionContainer() || t.isJSXEmptyExpression(valuePath.node.expression)) return
+
+    const prop = attribute.node.name.name
+    const expression = valuePath.get('expression') as NodePath<t.Expression>
+    let kind: RenderRiskKind
+    let value: RenderRiskValue | undefined
+    if (prop === 'key') {
+      kind = 'unstable-key'
+      value = getKeyRisk(expression)
+    } else if (provider && prop === 'value') {
+      kind = 'provider-value'
+      value = getRenderValueKind(path, expression.node)
+    } else if (memoized && prop !== 'ref') {
+      kind = 'inline-prop'
+      value = getRenderValueKind(path, expression.node)
+    } else {
+      return
+    }
+    if (!value) return
+
+    const source = expression.getSource().replace(/\s+/g, ' ')
+    const code = source.length > MAX_RISK_CODE_LENGTH ? `${source.slice(0, MAX_RISK_CODE_LENGTH - 1)}…` : source
+    const written = `${prop}={${code}} on <${element}>`
+    const message = kind === 'inline-prop'
+      ? `${written} is a new ${value} every render, so the memoized component re-renders whenever ${parent} does`
+      : kind === 'provider-value'
+        ? `${written} is a new ${value} every render, so every consumer re-renders whenever ${parent} does`
+        : value === 'index'
+          ? `${written} is the list index, so items swap state and remount when the list is reordered`
+          : `${written} changes every render, so the element remounts each time`
+
+    const riskId = createBranchId(context, 'risk', `${getFunctionPath(path)}\0${kind}\0${element}\0${prop}\0${normalizeCondition(source)}`)
+    const { line, column } = getLocation(context, attribute.node)
+    context.renderRisks.push({
+      riskId,
+      kind,
+      element,
+      prop,
+      value,
+      code,
+      file: riskId.split(':')[0],
+      line,
+      column,
+      ...(owner && { owner }),
+      message
+    })
+  })
+}
+
+/**
+ * trackSuspense mode: reports what may suspend a boundary, with its call
+ * site: the promise passed to `use()` and the import a `lazy()` factory
+ * starts. Returns false for other calls.
+ */
+// The react export a callee refers to (`lazy` for `lazy`, `l` or `React.lazy` imported from react); undefined otherwise
+function getReactExport(path: NodePath, callee: t.Node): string | undefined {
+  const local = t.isMemberExpression(callee) ? callee.object : callee
+  if (!t.isIdentifier(local)) return undefined
+
+  const binding = path.scope.getBinding(local.name)
+  const declaration = binding?.path.parentPath
+  if (binding?.kind !== 'module' || !declaration?.isImportDeclaration() || declaration.node.source.value !== 'react') return undefined
+
+  const specifier = binding.path.node
+  if (t.isMemberExpression(callee)) {
+    return t.isImportSpecifier(specifier) ? undefined : getCalleeName(callee)
+  }
+  if (!t.isImportSpecifier(specifier)) return undefined
+  return t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value
+}
+
+function trackSuspendingCall(context: InstrumentationContext, path: NodePath<t.CallExpression>): boolean {
+  const name = getReactExport(path, path.node.callee)
+  const kind: SuspenderKind | undefined = name === 'use' ? 'use' : name === 'lazy' ? 'lazy' : undefined
+  const [argument] = path.node.arguments
+  if (!kind || path.node.arguments.length !== 1 || !t.isExpression(argument)) return false
+  if (!claimNode(path.node)) return true
+
+  const code = path.get('arguments.0').getSource()
+  const siteId = createBranchId(context, 'suspender', `${getFunctionPath(path)}\0${kind}\0${normalizeCondition(code)}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const site: SuspenderSite = {
+    siteId,
+    kind,
+    code: kind === 'lazy' ? `lazy(${code})` : `use(${code})`,
+    file: siteId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner })
+  }
+
+  const siteReference = addModuleSite(context, path, site)
+  path.node.arguments[0] = kind === 'use'
+    ? createRuntimeCall('trackSuspender', [siteReference, argument])
+    : t.arrowFunctionExpression([], createRuntimeCall('trackSuspender', [siteReference, t.callExpression(argument, [])]))
+  return true
+}
+
+// Libraries whose `styled` and `css` calls traceStyles instruments
+const STYLE_LIBRARIES = ['styled-components', 'styled-components/macro', '@emotion/styled', '@emotion/react', '@emotion/css']
+
+const STYLED_MODIFIERS = ['attrs', 'withConfig']
+
+function isStyleImport(path: NodePath, name: string): boolean {
+  const binding = path.scope.getBinding(name)
+  const declaration = binding?.path.parentPath
+  return binding?.kind === 'module' && !!declaration?.isImportDeclaration() && STYLE_LIBRARIES.includes(declaration.node.source.value)
+}
+
+// What a styled factory (`styled.div`, `styled(Button)`, `styled.a.attrs(...)`) styles; undefined for other expressions
+function getStyledTarget(path: NodePath, node: t.Node): string | undefined {
+  if (t.isMemberExpression(node) && !node.computed && t.isIdentifier(node.property)) {
+    return t.isIdentifier(node.object, { name: 'styled' }) && isStyleImport(path, 'styled') ? node.property.name : undefined
+  }
+  if (!t.isCallExpression(node)) return undefined
+
+  const { callee, arguments: [target] } = node
+  if (t.isIdentifier(callee, { name: 'styled' }) && isStyleImport(path, 'styled')) {
+    return t.isStringLiteral(target) ? target.value : (target && getCalleeName(target)) || 'component'
+  }
+  if (t.isMemberExpression(callee) && t.isIdentifier(callee.property) && STYLED_MODIFIERS.includes(callee.property.name)) {
+    return getStyledTarget(path, callee.object)
+  }
+  return undefined
+}
+
+function isStyleFunction(node: t.Node): node is t.ArrowFunctionExpression | t.FunctionExpression {
+  return t.isArrowFunctionExpression(node) || t.isFunctionExpression(node)
+}
+
+/**
+ * Rebuilds a styled or css template so its rules name the call site and the
+ * outcome of each style function. The site's marker leads the template. A
+ * function's marker, an interpolation reporting its latest call, follows the
+ * declaration the function is part of, or the function itself when it stands
+ * alone; a function in a declaration the template doesn't end with a `;` is
+ * left unmarked.
+ */
+function markStyleTemplate(site: StyleSite, siteReference: t.Expression, quasi: t.TemplateLiteral, sources: string[]) {
+  const quasis = [...quasi.quasis]
+  const expressions = [...quasi.expressions] as t.Expression[]
+  const siteMarker = `--frontsense-${site.marker}:1;`
+  quasis[0] = t.templateElement({ raw: siteMarker + quasis[0].value.raw, cooked: siteMarker + (quasis[0].value.cooked ?? '') })
+
+  const markedQuasis: t.TemplateElement[] = [quasis[0]]
+  const markedExpressions: t.Expression[] = []
+  expressions.forEach((expression, position) => {
+    let next = quasis[position + 1]
+    if (!isStyleFunction(expression)) {
+      markedExpressions.push(expression)
+      markedQuasis.push(next)
+      return
+    }
+
+    const index = site.functions.length
+    const marker = createRuntimeCall('styleMarker', [t.cloneNode(siteReference), t.numericLiteral(index)])
+    const before = quasis[position].value.raw
+    const after = next.value.raw
+    const end = after.search(/[;{}]/)
+    const standalone = /(^|[;{}])\s*$/.test(before) && /^[ \t]*(\r?\n|;|}|$)/.test(after)
+    const marked = standalone || (end !== -1 && after[end] === ';' && !after.includes('\\'))
+
+    site.functions.push({ code: normalizeCondition(sources[position]), marked })
+    markedExpressions.push(createRuntimeCall('traceStyleFunction', [t.cloneNode(siteReference), t.numericLiteral(index), expression]))
+    if (marked && standalone) {
+      markedQuasis.push(t.templateElement({ raw: '', cooked: '' }))
+      markedExpressions.push(marker)
+    } else if (marked) {
+      const head = after.slice(0, end + 1)
+      markedQuasis.push(t.templateElement({ raw: head, cooked: head }))
+      markedExpressions.push(marker)
+      next = t.templateElement({ raw: after.slice(end + 1), cooked: after.slice(end + 1) })
+    }
+    markedQuasis.push(next)
+  })
+
+  quasi.quasis = markedQuasis
+  quasi.expressions = markedExpressions
+}
+
+/**
+ * traceStyles mode: registers a styled-components or Emotion `styled`/`css`
+ * call with its site, and marks the CSS it produces so the collector can map
+ * rules in the page back to it. Templates are marked in place; object styles
+ * get the site's marker as a custom property, and style functions passed as
+ * arguments mark what they return. Returns false for other calls.
+ */
+function traceStyleCall(context: InstrumentationContext, path: NodePath<t.TaggedTemplateExpression | t.CallExpression>): boolean {
+  const factory = path.isTaggedTemplateExpression() ? path.node.tag : (path.node as t.CallExpression).callee
+  const css = t.isIdentifier(factory, { name: 'css' }) && isStyleImport(path, 'css')
+  const target = css ? undefined : getStyledTarget(path, factory)
+  if (!css && !target) return false
+  if (!isModule(path)) return false
+  if (!claimNode(path.node)) return true
+
+  const name = path.parentPath.isVariableDeclarator() && t.isIdentifier(path.parentPath.node.id) ? path.parentPath.node.id.name : undefined
+  const factoryCode = path.isTaggedTemplateExpression() ? path.get('tag').getSource() : path.get('callee').getSource()
+  const siteId = createBranchId(context, 'style', `${getFunctionPath(path)}\0${name || ''}\0${normalizeCondition(factoryCode)}`)
+  const { line, column } = getLocation(context, path.node)
+  const owner = getBranchOwner(path)
+  const site: StyleSite = {
+    siteId,
+    marker: hashString(siteId),
+    kind: css ? 'css' : 'styled',
+    ...(target && { target }),
+    ...(name && { name }),
+    functions: [],
+    file: siteId.split(':')[0],
+    line,
+    column,
+    ...(owner && { owner })
+  }
+
+  const siteReference = addModuleSite(context, path, site)
+  if (path.isTaggedTemplateExpression()) {
+    markStyleTemplate(site, siteReference, path.node.quasi, (path.get('quasi.expressions') as NodePath[]).map(expression => expression.getSource()))
+  } else {
+    const call = path.node as t.CallExpression
+    const sources = (path.get('arguments') as NodePath[]).map(argument => argument.getSource())
+    call.arguments = call.arguments.map((argument, position) => {
+      if (t.isObjectExpression(argument)) {
+        argument.properties.push(t.objectProperty(t.stringLiteral(`--frontsense-${site.marker}`), t.stringLiteral('1')))
+      } else if (isStyleFunction(argument)) {
+        const index = site.functions.push({ code: normalizeCondition(sources[position]), marked: true }) - 1
+        return createRuntimeCall('traceStyleFunction', [t.cloneNode(siteReference), t.numericLiteral(index), argument, t.booleanLiteral(true)])
+      }
+      return argument
+    })
+  }
+
+  path.replaceWith(createRuntimeCall('registerStyle', [t.cloneNode(siteReference), path.node]))
+  return true
+}
+
+export default function runtimeCoverageBabelPlugin(_api: unknown, options: any = {}): PluginObj<BabelPluginState> {
   const config = { ...DEFAULT_CONFIG, ...options }
   
   if (!config.enabled) {
     return { visitor: {} }
   }
 
+  const root = config.root || process.cwd()
+  const getSkipReason = createFileMatcher(config, root)
+
   return {
     name: 'runtime-coverage-instrumentation',
     visitor: {
@@ -69,140 +1468,545 @@ export default function runtimeCoverageBabelPlugin(options: any = {}): PluginObj
         enter(path, state) {
           const fileName = state.file.opts.filename || 'unknown'
           
-          // Skip if file matches exclude patterns
-          if (config.excludePatterns.some((pattern: string) => 
-            fileName.includes(pattern.replace('**/', '').replace('*', ''))
-          )) {
+          // Skip files outside includePatterns or matching excludePatterns, and say why.
+          // Code transformed without a filename can't be matched, so it is always instrumented.
+          const skipped = state.file.opts.filename ? getSkipReason(fileName) : undefined
+          if (skipped) {
+            config.onSkip?.(skipped)
             return
           }
 
+          if (findPragma((path.parent as t.File).comments, 'ignore-file') !== undefined) {
+            config.onSkip?.({ file: toRootRelative(fileName, root), reason: 'ignore-file' })
+            return
+          }
+
+          claimIgnoredNodes(path)
+
           // Initialize instrumentation context
+          const inputMap: RawSourceMap | undefined = config.inputSourceMap || state.file.inputMap?.toObject()
           ;(state as any).instrumentationContext = {
             fileName,
-            branchCounter: 0,
-            config
+            idOccurrences: {},
+            config,
+            manifest: [],
+            moduleSites: [],
+            reactImports: {},
+            renderRisks: [],
+            resolvePosition: inputMap ? createPositionResolver(inputMap, fileName) : undefined
           } as InstrumentationContext
+        },
+
+        exit(path, state) {
+          const context = (state as any).instrumentationContext as InstrumentationContext
+          if (!context) return
+
+          // Register this module's branches (with their owners) as soon as it loads. Pushed onto
+          // a queue because modules usually evaluate before the collector is initialized.
+          if (context.manifest.length > 0 || context.renderRisks.length > 0) {
+            const moduleManifest = context.renderRisks.length > 0
+              ? { branches: context.manifest, renderRisks: context.renderRisks }
+              : context.manifest
+            path.node.body.unshift(template.statement.ast(
+              `typeof window !== 'undefined' && (window.__RUNTIME_COVERAGE_MANIFEST_QUEUE__ = window.__RUNTIME_COVERAGE_MANIFEST_QUEUE__ || []).push(${JSON.stringify(moduleManifest)})`
+            ))
+          }
+
+          // trackSuspense: hoisted, so the wrapped fallbacks above can use it
+          if (context.suspenseFallbackName) {
+            path.node.body.push(template.statement.ast(`
+              function ${context.suspenseFallbackName}({ site, children }) {
+                const instance = ${context.reactImports.useRef}(null)
+                ${context.reactImports.useLayoutEffect}(() => window.__RUNTIME_COVERAGE__.recordSuspense(site, instance), [])
+                return children
+              }
+            `))
+          }
+
+          if (context.moduleSitesName) {
+            path.node.body.unshift(template.statement.ast(
+              `const ${context.moduleSitesName} = ${JSON.stringify(context.moduleSites)}`
+            ))
+          }
+
+          // trackScopes: after the react import below, which provides createContext
+          if (context.scopeContextName) {
+            const create = `${context.reactImports.createContext}(null)`
+            path.node.body.unshift(template.statement.ast(`
+              const ${context.scopeContextName} = typeof window === 'undefined'
+                ? ${create}
+                : (window.${SCOPE_CONTEXT_GLOBAL} = window.${SCOPE_CONTEXT_GLOBAL} || ${create})
+            `))
+          }
+
+          // Tracked components and hooks keep their bookkeeping in React's own hooks
+          const reactImports = Object.entries(context.reactImports)
+          if (reactImports.length > 0) {
+            path.node.body.unshift(t.importDeclaration(
+              reactImports.map(([hook, local]) => t.importSpecifier(t.identifier(local), t.identifier(hook))),
+              t.stringLiteral('react')
+            ))
+          }
+
+          // Hand every instrumented branch to the host so never-reached branches can be reported
+          if (typeof config.onManifest === 'function') {
+            config.onManifest(context.fileName, context.manifest)
+          }
+
+          // analyzeRenderRisks: as build warnings, through the host when it collects them
+          if (config.analyzeRenderRisks) {
+            if (typeof config.onRenderRisks === 'function') {
+              config.onRenderRisks(context.fileName, context.renderRisks)
+            } else {
+              context.renderRisks.forEach(risk => console.warn(`Runtime coverage: ${risk.file}:${risk.line}:${risk.column} ${risk.message}`))
+            }
+          }
         }
       },
 
-      IfStatement(path, state) {
+      // trackRenders / trackAsync / recordStateHistory: components (and, except for trackRenders, custom
+      // hooks) get an instance ref. trackScopes: components read the <CoverageScope>s they render under.
+      Function(path, state) {
         const context = (state as any).instrumentationContext as InstrumentationContext
         if (!context) return
+        const { trackRenders, trackAsync, trackScopes, recordStateHistory } = context.config
+        if (!(trackRenders || trackAsync || trackScopes || recordStateHistory)) return
+
+        // The added hooks can't run in generator or async bodies
+        if (path.node.generator || path.node.async || !isModule(path)) return
+        const { name = 'anonymous', kind } = classifyFunction(path)
+        const tracksRenders = !!context.config.trackRenders && kind === 'component'
+        const tracksAsync = !!context.config.trackAsync && (kind === 'component' || kind === 'hook')
+        const tracksScopes = !!context.config.trackScopes && kind === 'component'
+        const recordsState = !!context.config.recordStateHistory && (kind === 'component' || kind === 'hook')
+        if (!(tracksRenders || tracksAsync || tracksScopes || recordsState) || !claimNode(path.node)) return
+
+        const functionPath: NodePath<t.Function> = path
+        functionPath.ensureBlock()
+        const body = path.node.body as t.BlockStatement
+
+        if (tracksScopes) {
+          enterComponentScope(context, path, name)
+          if (!(tracksRenders || tracksAsync || recordsState)) return
+        }
+
+        const props = tracksRenders ? getPropsReference(path, body) : undefined
+        const instance = path.scope.generateUidIdentifier('instance')
+
+        // Marks the instance mounted, and unmounted again in the effect's cleanup
+        if (tracksAsync) {
+          body.body.unshift(t.expressionStatement(t.callExpression(t.identifier(importReactHook(context, path, 'useEffect')), [
+            t.arrowFunctionExpression([], createRuntimeCall('trackMount', [t.cloneNode(instance)])),
+            t.arrayExpression([])
+          ])))
+        }
+        body.body.unshift(t.variableDeclaration('const', [
+          t.variableDeclarator(instance, t.callExpression(t.identifier(importReactHook(context, path, 'useRef')), [t.nullLiteral()]))
+        ]))
+        functionInstances.set(path.node, instance.name)
+
+        if (props) {
+          instrumentRenderReturns(context, path, name, instance, props)
+        }
+      },
+
+      // trackAsync: an awaited promise is observed until it settles
+      AwaitExpression(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || !context.config.trackAsync || !claimNode(path.node)) return
+
+        const instance = getOwningInstance(path)
+        if (!instance) return
+
+        path.node.argument = createRuntimeCall('trackAsync', [
+          addModuleSite(context, path, createAsyncSite(context, path, 'await', path.get('argument').getSource())),
+          t.identifier(instance),
+          path.node.argument
+        ])
+      },
+
+      IfStatement(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || !claimNode(path.node)) return
 
-        const { line, column } = path.node.loc?.start || { line: 0, column: 0 }
-        const branchId = createBranchId(context.fileName, line, column, 'if', context.branchCounter++)
-        
         const test = path.node.test
         const conditionCode = path.getSource().slice(3, path.getSource().indexOf(')') + 1) // Extract condition
+        const entry = registerBranch(context, path, 'if', conditionCode)
+        const branchId = entry.branchId
+        // Before MC/DC rewrites the operands into recordCondition calls
+        const operandGetters = captureOperands(context, entry, test)
+        const decision = context.config.mcdc ? instrumentDecision(path.get('test'), branchId, entry) : null
         
         // Create instrumented condition
-        const instrumentedTest = t.sequenceExpression([
-          createInstrumentationCall(branchId, conditionCode, test, 'if', context.config.sampling.collectExecutionTime),
-          test
-        ])
+        const instrumentedTest = decision
+          ? createInstrumentationCall(branchId, conditionCode, decision, 'if', operandGetters)
+          : createInstrumentationCall(branchId, conditionCode, test, 'if', operandGetters)
 
         path.node.test = instrumentedTest
+
+        // Count each arm separately so "else never ran" is distinguishable from "never evaluated"
+        const collectExecutionTime = context.config.sampling.collectExecutionTime
+        const consequentArm = createArmCall(context, path, path.node.consequent, branchId, 'if', 'consequent', 0, conditionCode)
+        path.node.consequent = prependToStatement(path.node.consequent, consequentArm.call)
+        if (collectExecutionTime) {
+          path.node.consequent = createTimedBlock(path, path.node.consequent.body, consequentArm.armId)
+        }
+
+        if (path.node.alternate) {
+          const alternateArm = createArmCall(context, path, path.node.alternate, branchId, 'if', 'alternate', 1, `!${conditionCode}`)
+          path.node.alternate = prependToStatement(path.node.alternate, alternateArm.call)
+          if (collectExecutionTime) {
+            path.node.alternate = createTimedBlock(path, path.node.alternate.body, alternateArm.armId)
+          }
+        } else {
+          const implicitElseArm = createArmCall(context, path, path.node, branchId, 'if', 'implicit-else', 1, `!${conditionCode}`, 'end')
+          path.node.alternate = t.blockStatement([t.expressionStatement(implicitElseArm.call)])
+        }
       },
 
       ConditionalExpression(path, state) {
         const context = (state as any).instrumentationContext as InstrumentationContext
-        if (!context) return
+        if (!context || !claimNode(path.node)) return
 
-        const { line, column } = path.node.loc?.start || { line: 0, column: 0 }
-        const branchId = createBranchId(context.fileName, line, column, 'ternary', context.branchCounter++)
-        
         const test = path.node.test
-        const conditionCode = path.getSource().split('?')[0].trim()
+        const conditionCode = path.get('test').getSource()
+        const entry = registerBranch(context, path, 'ternary', conditionCode)
+        const branchId = entry.branchId
+        // Before MC/DC rewrites the operands into recordCondition calls
+        const operandGetters = captureOperands(context, entry, test)
+        const decision = context.config.mcdc ? instrumentDecision(path.get('test'), branchId, entry) : null
         
-        const instrumentedTest = t.sequenceExpression([
-          createInstrumentationCall(branchId, conditionCode, test, 'ternary', context.config.sampling.collectExecutionTime),
-          test
-        ])
+        const instrumentedTest = decision
+          ? createInstrumentationCall(branchId, conditionCode, decision, 'ternary', operandGetters)
+          : createInstrumentationCall(branchId, conditionCode, test, 'ternary', operandGetters)
 
         path.node.test = instrumentedTest
+
+        const consequentArm = createArmCall(context, path, path.node.consequent, branchId, 'ternary', 'consequent', 0, conditionCode)
+        const alternateArm = createArmCall(context, path, path.node.alternate, branchId, 'ternary', 'alternate', 1, `!(${conditionCode})`)
+        const collectExecutionTime = context.config.sampling.collectExecutionTime
+        const consequent = collectExecutionTime
+          ? createTimedExpression(path, path.node.consequent, consequentArm.armId)
+          : path.node.consequent
+        const alternate = collectExecutionTime
+          ? createTimedExpression(path, path.node.alternate, alternateArm.armId)
+          : path.node.alternate
+        path.node.consequent = t.sequenceExpression([consequentArm.call, consequent])
+        path.node.alternate = t.sequenceExpression([alternateArm.call, alternate])
       },
 
       SwitchStatement(path, state) {
         const context = (state as any).instrumentationContext as InstrumentationContext
-        if (!context) return
+        if (!context || !claimNode(path.node)) return
 
-        const { line, column } = path.node.loc?.start || { line: 0, column: 0 }
         const discriminant = path.node.discriminant
-        
-        // Instrument each case
+        const discriminantCode = path.get('discriminant').getSource()
+        const { branchId: switchId } = registerBranch(context, path, 'switch', `switch (${discriminantCode})`)
+
+        // Count every evaluation of the switch itself
+        path.node.discriminant = t.sequenceExpression([
+          createInstrumentationCall(switchId, `switch (${discriminantCode})`, t.booleanLiteral(true), 'switch'),
+          discriminant
+        ])
+
+        // Instrument each case, including default, as its own arm
+        const casePaths = path.get('cases')
+        const arms = path.node.cases.map((caseNode, index) => {
+          const conditionCode = caseNode.test ? `case ${casePaths[index].get('test').getSource()}` : 'default'
+          return createArmCall(
+            context,
+            casePaths[index],
+            caseNode,
+            switchId,
+            'switch-case',
+            caseNode.test ? 'case' : 'default',
+            index,
+            conditionCode
+          )
+        })
+
         path.node.cases.forEach((caseNode, index) => {
-          if (caseNode.test) {
-            const caseId = createBranchId(context.fileName, line, column, 'switch-case', context.branchCounter++)
-            const conditionCode = `case ${path.getSource().match(/case\s+([^:]+):/)?.[1] || 'unknown'}`
-            
-            // Add instrumentation at the beginning of each case
-            const instrumentation = t.expressionStatement(
-              createInstrumentationCall(caseId, conditionCode, caseNode.test, 'switch-case', context.config.sampling.collectExecutionTime)
+          const next = arms[index + 1]
+
+          // Mark entries into the next case that arrive by falling through this one
+          if (next && canFallThrough(caseNode.consequent)) {
+            caseNode.consequent.push(
+              t.expressionStatement(createRuntimeCall('recordFallThrough', [t.stringLiteral(next.armId)]))
             )
-            
-            caseNode.consequent.unshift(instrumentation)
+          }
+
+          caseNode.consequent.unshift(t.expressionStatement(arms[index].call))
+
+          if (context.config.sampling.collectExecutionTime && !hasLexicalDeclarations(caseNode.consequent)) {
+            caseNode.consequent = [createTimedBlock(path, caseNode.consequent, arms[index].armId)]
           }
         })
       },
 
       LogicalExpression(path, state) {
         const context = (state as any).instrumentationContext as InstrumentationContext
-        if (!context) return
+        if (!context || !claimNode(path.node)) return
 
-        // Only instrument && and || operators
-        if (path.node.operator !== '&&' && path.node.operator !== '||') return
+        // a ?? b: pass the left value through so it is only evaluated once
+        if (path.node.operator === '??') {
+          const conditionCode = path.getSource()
+          const { branchId } = registerBranch(context, path, 'nullish', conditionCode)
+
+          path.node.left = createNullishCheckCall(branchId, conditionCode, path.node.left, 'nullish')
+          return
+        }
 
-        const { line, column } = path.node.loc?.start || { line: 0, column: 0 }
-        const branchId = createBranchId(context.fileName, line, column, 'logical', context.branchCounter++)
-        
         const left = path.node.left
         const conditionCode = path.getSource()
+        const entry = registerBranch(context, path, 'logical', conditionCode)
         
-        const instrumentedLeft = t.sequenceExpression([
-          createInstrumentationCall(branchId, conditionCode, left, 'logical', context.config.sampling.collectExecutionTime),
-          left
+        // recordBranchHit returns the left value, so it is only evaluated once
+        path.node.left = createInstrumentationCall(entry.branchId, conditionCode, left, 'logical', captureOperands(context, entry, left))
+      },
+
+      OptionalMemberExpression(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context) return
+
+        instrumentOptionalChain(path, context)
+      },
+
+      OptionalCallExpression(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context) return
+
+        instrumentOptionalChain(path, context)
+      },
+
+      AssignmentExpression(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context) return
+
+        const { operator, left } = path.node
+        if (operator !== '??=' && operator !== '||=' && operator !== '&&=') return
+        if (!isSimpleReference(left) || !claimNode(path.node)) return
+
+        const conditionCode = path.getSource()
+        const { branchId } = registerBranch(context, path, 'logical-assignment', conditionCode)
+
+        // Hit means the assignment happened
+        const current = t.cloneNode(left) as t.Expression
+        const willAssign =
+          operator === '??=' ? t.binaryExpression('==', current, t.nullLiteral()) :
+          operator === '||=' ? t.unaryExpression('!', current) :
+          t.unaryExpression('!', t.unaryExpression('!', current))
+
+        path.replaceWith(t.sequenceExpression([
+          createInstrumentationCall(branchId, conditionCode, willAssign, 'logical-assignment'),
+          path.node
+        ]))
+      },
+
+      AssignmentPattern(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || !claimNode(path.node)) return
+
+        // Only defaults of function parameters, including destructured ones; generator bodies start lazily
+        const owner = findDefaultParamOwner(path)
+        if (!owner || owner.functionPath.node.generator) return
+        const functionPath: NodePath<t.Function> = owner.functionPath
+        const declaration = owner.declaration
+
+        const conditionCode = path.getSource()
+        const { branchId } = registerBranch(context, path, 'default-param', conditionCode)
+
+        // The default expression only runs when the value is undefined; the body settles the outcome
+        path.node.right = t.sequenceExpression([
+          createRuntimeCall('markDefaultParam', [t.stringLiteral(branchId)]),
+          path.node.right
+        ])
+
+        const settle = t.expressionStatement(
+          createRuntimeCall('settleDefaultParam', [t.stringLiteral(branchId), t.stringLiteral(conditionCode)])
+        )
+        if (declaration) {
+          // Destructured props that trackRenders moved into the body settle once they are unpacked
+          declaration.insertAfter(settle)
+          return
+        }
+        functionPath.ensureBlock()
+        const body = functionPath.node.body as t.BlockStatement
+        body.body.unshift(settle)
+      },
+
+      Loop(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || !claimNode(path.node)) return
+
+        const kind = getLoopKind(path.node)
+        const source = path.getSource()
+        const bodyOffset = (path.node.body.start ?? 0) - (path.node.start ?? 0)
+        const conditionCode = kind === 'do-while'
+          ? `do … ${source.slice(source.lastIndexOf('while')).replace(/;$/, '')}`
+          : source.slice(0, bodyOffset).trim()
+        const { branchId } = registerBranch(context, path, 'loop', conditionCode)
+
+        path.node.body = prependToStatement(
+          path.node.body,
+          createRuntimeCall('recordLoopIteration', [t.stringLiteral(branchId)])
+        )
+
+        // Labeled loops keep their label so `continue label` still targets an iteration statement
+        const target = path.parentPath.isLabeledStatement() ? path.parentPath : path
+        target.replaceWith(t.blockStatement([
+          t.expressionStatement(createRuntimeCall('beginLoop', [t.stringLiteral(branchId)])),
+          t.tryStatement(
+            t.blockStatement([target.node as t.Statement]),
+            null,
+            t.blockStatement([
+              t.expressionStatement(createRuntimeCall('endLoop', [
+                t.stringLiteral(branchId),
+                t.stringLiteral(kind),
+                t.stringLiteral(conditionCode)
+              ]))
+            ])
+          )
+        ]))
+      },
+
+      TryStatement(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || !path.node.handler || !claimNode(path.node)) return
+
+        const handler = path.node.handler
+        const conditionCode = handler.param ? `catch (${path.get('handler.param').getSource()})` : 'catch'
+        const { branchId } = registerBranch(context, path, 'catch', conditionCode, handler)
+
+        // The error itself is needed to classify it: give `catch {}` a binding and
+        // move `catch ({ message })` destructuring into the handler body
+        const error = path.scope.generateUidIdentifier('error')
+        if (!handler.param) {
+          handler.param = error
+        } else if (!t.isIdentifier(handler.param)) {
+          handler.body.body.unshift(t.variableDeclaration('let', [
+            t.variableDeclarator(handler.param, t.cloneNode(error))
+          ]))
+          handler.param = error
+        }
+
+        path.node.block.body.unshift(t.expressionStatement(
+          createRuntimeCall('recordTryEnter', [t.stringLiteral(branchId), t.stringLiteral(conditionCode)])
+        ))
+
+        handler.body.body.unshift(t.expressionStatement(
+          createRuntimeCall('recordCatch', [
+            t.stringLiteral(branchId),
+            t.stringLiteral(conditionCode),
+            t.cloneNode(handler.param as t.Identifier)
+          ])
+        ))
+      },
+
+      ThrowStatement(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || !claimNode(path.node)) return
+
+        const conditionCode = path.getSource().replace(/;$/, '')
+        const { branchId } = registerBranch(context, path, 'throw', conditionCode)
+
+        path.node.argument = createRuntimeCall('recordThrow', [
+          t.stringLiteral(branchId),
+          t.stringLiteral(conditionCode),
+          path.node.argument
+        ])
+      },
+
+      CallExpression(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context) return
+        if (context.config.auditHooks && auditHookCall(context, path)) return
+        if (context.config.traceStateUpdates && traceStateUpdate(context, path)) return
+        if (context.config.recordStateHistory && recordStateHook(context, path)) return
+        if (context.config.trackAsync && trackPromiseChain(context, path)) return
+        if (context.config.trackSuspense && trackSuspendingCall(context, path)) return
+        if (context.config.traceStyles && traceStyleCall(context, path)) return
+
+        // items.map(item => ...) and friends: one execution iterates over the receiver
+        const callee = path.node.callee
+        if (!t.isMemberExpression(callee) || callee.computed || !t.isIdentifier(callee.property)) return
+        if (!ARRAY_LOOP_METHODS.includes(callee.property.name)) return
+        const callback = path.node.arguments[0]
+        if (!t.isArrowFunctionExpression(callback) && !t.isFunctionExpression(callback)) return
+        if (!claimNode(path.node)) return
+
+        const conditionCode = `${path.get('callee.object').getSource()}.${callee.property.name}(…)`
+        const { branchId } = registerBranch(context, path, 'loop', conditionCode)
+
+        callee.object = createRuntimeCall('recordArrayLoop', [
+          t.stringLiteral(branchId),
+          t.stringLiteral(conditionCode),
+          callee.object as t.Expression
         ])
+      },
+
+      TaggedTemplateExpression(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || !context.config.traceStyles) return
+        traceStyleCall(context, path)
+      },
+
+      // trackSuspense: before the fallback prop's own contents are visited. analyzeRenderRisks: before
+      // the attributes' own instrumentation, so their source is read as written.
+      JSXOpeningElement(path, state) {
+        const context = (state as any).instrumentationContext as InstrumentationContext
+        if (!context || ignoredNodes.has(path.node)) return
+        if (context.config.trackSuspense) trackSuspenseBoundary(context, path)
+        if (context.config.trackVitals) tagHostElement(context, path)
+        if (context.config.analyzeRenderRisks) analyzeRenderRisks(context, path)
+      },
 
-        path.node.left = instrumentedLeft
+      // traceEvents: on exit, so the handler expression's own branches are instrumented first
+      JSXAttribute: {
+        exit(path, state) {
+          const context = (state as any).instrumentationContext as InstrumentationContext
+          if (!context || !context.config.traceEvents) return
+          traceEventHandler(context, path)
+        }
       },
 
       // JSX Conditional Rendering
       JSXExpressionContainer(path, state) {
         const context = (state as any).instrumentationContext as InstrumentationContext
-        if (!context) return
+        if (!context || !claimNode(path.node)) return
 
         const expression = path.node.expression
         
         // Handle {condition && <Component />}
         if (t.isLogicalExpression(expression) && expression.operator === '&&') {
-          const { line, column } = path.node.loc?.start || { line: 0, column: 0 }
-          const branchId = createBranchId(context.fileName, line, column, 'jsx-conditional', context.branchCounter++)
-          
+          // Recorded here as jsx-conditional, so the LogicalExpression visitor must not record it again
+          claimNode(expression)
           const left = expression.left
           const conditionCode = path.getSource()
+          const entry = registerBranch(context, path, 'jsx-conditional', conditionCode)
           
-          const instrumentedLeft = t.sequenceExpression([
-            createInstrumentationCall(branchId, conditionCode, left, 'jsx-conditional', context.config.sampling.collectExecutionTime),
-            left
-          ])
-
-          expression.left = instrumentedLeft
+          expression.left = createInstrumentationCall(entry.branchId, conditionCode, left, 'jsx-conditional', captureOperands(context, entry, left))
         }
 
         // Handle {condition ? <A /> : <B />}
         if (t.isConditionalExpression(expression)) {
-          const { line, column } = path.node.loc?.start || { line: 0, column: 0 }
-          const branchId = createBranchId(context.fileName, line, column, 'jsx-ternary', context.branchCounter++)
-          
+          claimNode(expression)
           const test = expression.test
-          const conditionCode = path.getSource().split('?')[0].trim()
+          const conditionCode = path.get('expression.test').getSource()
+          const entry = registerBranch(context, path, 'jsx-ternary', conditionCode)
           
-          const instrumentedTest = t.sequenceExpression([
-            createInstrumentationCall(branchId, conditionCode, test, 'jsx-ternary', context.config.sampling.collectExecutionTime),
-            test
-          ])
+          expression.test = createInstrumentationCall(entry.branchId, conditionCode, test, 'jsx-ternary', captureOperands(context, entry, test))
 
-          expression.test = instrumentedTest
+          const consequentArm = createArmCall(context, path, expression.consequent, entry.branchId, 'jsx-ternary', 'consequent', 0, conditionCode)
+          const alternateArm = createArmCall(context, path, expression.alternate, entry.branchId, 'jsx-ternary', 'alternate', 1, `!(${conditionCode})`)
+          const collectExecutionTime = context.config.sampling.collectExecutionTime
+          const consequent = collectExecutionTime
+            ? createTimedExpression(path, expression.consequent, consequentArm.armId)
+            : expression.consequent
+          const alternate = collectExecutionTime
+            ? createTimedExpression(path, expression.alternate, alternateArm.armId)
+            : expression.alternate
+          expression.consequent = t.sequenceExpression([consequentArm.call, consequent])
+          expression.alternate = t.sequenceExpression([alternateArm.call, alternate])
         }
       }
     }
@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react'
+import { AsyncIssue, AsyncSite, AsyncStats, PendingAsync } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface AsyncTableProps {
+  asyncStats: AsyncStats[]
+  pendingAsync: PendingAsync[]
+  asyncIssues: AsyncIssue[]
+  selectedFile?: string
+  selectedComponent?: string
+}
+
+const describeSite = (site: AsyncSite) => (
+  <div style={{ color: '#666' }}>
+    {site.file.split('/').pop()}:{site.line}
+    {getOwnerName(site) && ` · <${getOwnerName(site)}>`}
+    {site.owner && site.owner.functionName !== getOwnerName(site) && ` · ${site.owner.functionName}`}
+  </div>
+)
+
+export const AsyncTable: React.FC<AsyncTableProps> = ({
+  asyncStats,
+  pendingAsync,
+  asyncIssues,
+  selectedFile,
+  selectedComponent
+}) => {
+  const matches = (site: AsyncSite) =>
+    (!selectedFile || site.file === selectedFile) &&
+    (!selectedComponent || getOwnerName(site) === selectedComponent)
+
+  const rows = useMemo(() => {
+    const pendingCounts = pendingAsync.reduce((acc, pending) => {
+      acc[pending.siteId] = (acc[pending.siteId] || 0) + 1
+      return acc
+    }, {} as Record<string, number>)
+
+    return asyncStats
+      .filter(matches)
+      .map(stats => ({ stats, pending: pendingCounts[stats.siteId] || 0 }))
+  }, [asyncStats, pendingAsync, selectedFile, selectedComponent])
+
+  const issues = asyncIssues.filter(matches)
+
+  if (rows.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No async work tracked yet. Build with <code>trackAsync: true</code> to follow awaits and promise chains in components and hooks.
+      </div>
+    )
+  }
+
+  return (
+    <div className="async-table">
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+            <th style={{ padding: '4px' }}>Async site</th>
+            <th style={{ padding: '4px' }}>Started / Pending</th>
+            <th style={{ padding: '4px' }}>Rejected</th>
+            <th style={{ padding: '4px' }}>After unmount</th>
+            <th style={{ padding: '4px' }}>Stale</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ stats, pending }) => (
+            <tr
+              key={stats.siteId}
+              style={{
+                borderBottom: '1px solid #eee',
+                verticalAlign: 'top',
+                backgroundColor: stats.afterUnmount > 0 ? '#ffebee' : stats.stale > 0 ? '#fff3e0' : 'transparent'
+              }}
+            >
+              <td style={{ padding: '4px' }}>
+                <code>{stats.kind === 'await' ? 'await ' : ''}{stats.code}</code>
+                {describeSite(stats)}
+              </td>
+              <td style={{ padding: '4px' }}>{stats.started} / {pending}</td>
+              <td style={{ padding: '4px' }}>{stats.rejected}</td>
+              <td style={{ padding: '4px', color: stats.afterUnmount > 0 ? '#d32f2f' : undefined }}>{stats.afterUnmount}</td>
+              <td style={{ padding: '4px', color: stats.stale > 0 ? '#ef6c00' : undefined }}>{stats.stale}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {issues.length > 0 && (
+        <div style={{ marginTop: '16px' }}>
+          <h5 style={{ margin: '4px 0' }}>Recent issues</h5>
+          {issues.slice(0, 50).map((issue, index) => (
+            <div key={index} style={{ fontSize: '12px', padding: '4px', borderBottom: '1px solid #eee' }}>
+              {issue.issue === 'after-unmount' ? '⚠️ Resolved after unmount' : '⏳ Superseded by a newer call'}
+              {': '}<code>{issue.code}</code>
+              <span style={{ color: '#666' }}> after {(issue.settledAt - issue.startedAt).toFixed(0)}ms</span>
+              {describeSite(issue)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ marginTop: '10px', fontSize: '11px', color: '#666' }}>
+        Stale: settled after the same component instance started the same await or chain again
+      </div>
+    </div>
+  )
+}
+
+export default AsyncTable
@@ -0,0 +1,88 @@
+import React from 'react'
+import { BranchHit, OperandReservoir } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface BranchDetailsProps {
+  branch: BranchHit
+  onClose?: () => void
+}
+
+const OperandTable: React.FC<{ title: string; operands: string[]; reservoir: OperandReservoir }> = ({
+  title,
+  operands,
+  reservoir
+}) => (
+  <div style={{ flex: 1, minWidth: '240px' }}>
+    <h5 style={{ margin: '8px 0 4px 0' }}>
+      {title} <span style={{ color: '#666', fontWeight: 'normal' }}>({reservoir.samples.length} of {reservoir.seen} evaluations)</span>
+    </h5>
+    {reservoir.samples.length === 0 ? (
+      <div style={{ color: '#666' }}>No samples</div>
+    ) : (
+      <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+            {operands.map(operand => (
+              <th key={operand} style={{ padding: '2px 4px' }}><code>{operand}</code></th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {reservoir.samples.map((sample, index) => (
+            <tr key={index} style={{ borderBottom: '1px solid #eee' }}>
+              {sample.map((value, column) => (
+                <td key={column} style={{ padding: '2px 4px', fontFamily: 'monospace' }}>{value}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+)
+
+export const BranchDetails: React.FC<BranchDetailsProps> = ({ branch, onClose }) => {
+  const samples = branch.operandSamples
+  const owner = getOwnerName(branch)
+
+  return (
+    <div style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#f8f9fa', borderRadius: '4px', fontSize: '12px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+        <div>
+          <strong>{branch.type.toUpperCase()}{branch.arm ? ` (${branch.arm.kind} arm)` : ''}</strong>{' '}
+          <code>{branch.condition}</code>
+          <div style={{ color: '#666', marginTop: '2px' }}>
+            {branch.file}:{branch.line}
+            {owner && ` · <${owner}>`}
+            {branch.label && ` · 🏷️ ${branch.label}`}
+            {branch.scopes && ` · in ${branch.scopes.join(', ')}`}
+          </div>
+          <div style={{ marginTop: '4px' }}>
+            True {branch.hitCount} · False {branch.missCount}
+          </div>
+        </div>
+        {onClose && (
+          <button
+            onClick={onClose}
+            style={{ border: 'none', backgroundColor: 'transparent', cursor: 'pointer', color: '#666' }}
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {samples ? (
+        <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+          <OperandTable title="When true" operands={samples.operands} reservoir={samples.whenTrue} />
+          <OperandTable title="When false" operands={samples.operands} reservoir={samples.whenFalse} />
+        </div>
+      ) : (
+        <div style={{ color: '#666', marginTop: '8px' }}>
+          No operand samples. Build and run with <code>captureOperands</code> enabled to see the values behind each outcome.
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default BranchDetails
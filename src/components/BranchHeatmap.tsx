@@ -1,27 +1,36 @@
-import React, { useEffect, useRef, useMemo } from 'react'
+import React, { useEffect, useRef, useMemo, useState } from 'react'
 import * as d3 from 'd3'
-import { BranchStats, HeatmapData } from '../types'
+import { BranchArm, BranchOwner, BranchStats, HeatmapData, TimingStats } from '../types'
+import { getOwnerName } from '../utils/owners'
 
 interface BranchHeatmapProps {
   branchStats: BranchStats
   selectedFile?: string
+  selectedComponent?: string
   onBranchClick?: (branchId: string) => void
+  colorMode?: HeatmapColorMode
   width?: number
   height?: number
 }
 
+export type HeatmapColorMode = 'hitRate' | 'time'
+
 export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
   branchStats,
   selectedFile,
+  selectedComponent,
   onBranchClick,
+  colorMode: initialColorMode = 'hitRate',
   width = 800,
   height = 600
 }) => {
   const svgRef = useRef<SVGSVGElement>(null)
+  const [colorMode, setColorMode] = useState<HeatmapColorMode>(initialColorMode)
 
   const heatmapData = useMemo(() => {
     const fileGroups = Object.values(branchStats).reduce((acc, branch) => {
       if (selectedFile && branch.file !== selectedFile) return acc
+      if (selectedComponent && getOwnerName(branch) !== selectedComponent) return acc
       
       if (!acc[branch.file]) {
         acc[branch.file] = []
@@ -37,14 +46,18 @@ export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
         condition: branch.condition,
         executionCount: totalExecutions,
         branchId: branch.branchId,
-        type: branch.type
+        type: branch.type,
+        arm: branch.arm,
+        owner: branch.owner,
+        timing: branch.timing,
+        label: branch.label
       })
       
       return acc
-    }, {} as Record<string, Array<HeatmapData['branches'][0] & { branchId: string; type: string }>>)
+    }, {} as Record<string, Array<HeatmapData['branches'][0] & { branchId: string; type: string; arm?: BranchArm; owner?: BranchOwner; timing?: TimingStats; label?: string }>>)
 
     return selectedFile ? fileGroups[selectedFile] || [] : Object.values(fileGroups).flat()
-  }, [branchStats, selectedFile])
+  }, [branchStats, selectedFile, selectedComponent])
 
   useEffect(() => {
     if (!svgRef.current || heatmapData.length === 0) return
@@ -71,6 +84,10 @@ export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
     const colorScale = d3.scaleSequential(d3.interpolateRdYlGn)
       .domain([0, 1])
 
+    const maxMeanTime = d3.max(heatmapData, d => d.timing?.mean) || 1
+    const timeScale = d3.scaleSequential(d3.interpolateYlOrRd)
+      .domain([0, maxMeanTime])
+
     const sizeScale = d3.scaleSqrt()
       .domain([0, d3.max(heatmapData, d => d.executionCount) || 1])
       .range([3, 15])
@@ -96,6 +113,9 @@ export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
       .attr('cy', d => yScale(d.line))
       .attr('r', d => sizeScale(d.executionCount))
       .attr('fill', d => {
+        if (colorMode === 'time') {
+          return d.timing ? timeScale(d.timing.mean) : '#ccc' // Untimed - grey
+        }
         if (d.executionCount === 0) return '#ff4444' // Dead code - red
         return colorScale(d.hitRate)
       })
@@ -112,11 +132,14 @@ export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
           .duration(200)
           .style('opacity', .9)
         tooltip.html(`
-          <strong>Branch ${d.type.toUpperCase()}</strong><br/>
+          <strong>Branch ${d.type.toUpperCase()}${d.arm ? ` (${d.arm.kind} arm)` : ''}</strong><br/>
+          ${d.label ? `Label: ${d.label}<br/>` : ''}
           Line: ${d.line}, Column: ${d.column}<br/>
+          ${d.owner ? `In: ${d.owner.functionName} (${d.owner.kind})${d.owner.component ? ` &lt;${d.owner.component}&gt;` : ''}<br/>` : ''}
           Condition: ${d.condition}<br/>
           Hit Rate: ${hitPercentage}%<br/>
           Executions: ${d.executionCount}<br/>
+          ${d.timing ? `Time: ${d.timing.mean.toFixed(3)}ms mean, ${d.timing.p90.toFixed(3)}ms p90 (${d.timing.count} samples)<br/>` : ''}
           Status: <strong>${statusText}</strong>
         `)
           .style('left', (event.pageX + 10) + 'px')
@@ -163,11 +186,12 @@ export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
       .attr('transform', `translate(${width - 80}, ${margin.top})`)
 
     const legendScale = d3.scaleLinear()
-      .domain([0, 1])
+      .domain(colorMode === 'time' ? [0, maxMeanTime] : [0, 1])
       .range([100, 0])
 
     const legendAxis = d3.axisRight(legendScale)
-      .tickFormat(d3.format('.0%'))
+      .ticks(5)
+      .tickFormat(colorMode === 'time' ? d => `${d3.format('.2~f')(d)}ms` : d3.format('.0%'))
 
     legend.append('g')
       .call(legendAxis)
@@ -186,7 +210,7 @@ export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
       .data(colorStops)
       .enter().append('stop')
       .attr('offset', d => (d * 100) + '%')
-      .attr('stop-color', d => colorScale(d))
+      .attr('stop-color', d => colorMode === 'time' ? timeScale(d * maxMeanTime) : colorScale(d))
 
     legend.append('rect')
       .attr('x', -15)
@@ -200,33 +224,48 @@ export const BranchHeatmap: React.FC<BranchHeatmapProps> = ({
       .attr('y', -5)
       .attr('text-anchor', 'end')
       .style('font-size', '12px')
-      .text('Hit Rate')
+      .text(colorMode === 'time' ? 'Mean Time' : 'Hit Rate')
 
     // Clean up tooltip on unmount
     return () => {
       tooltip.remove()
     }
-  }, [heatmapData, width, height, onBranchClick])
+  }, [heatmapData, colorMode, width, height, onBranchClick])
 
   return (
     <div className="branch-heatmap">
+      <div style={{ marginBottom: '10px', fontSize: '12px' }}>
+        <label>
+          Color by:{' '}
+          <select value={colorMode} onChange={(e) => setColorMode(e.target.value as HeatmapColorMode)}>
+            <option value="hitRate">Hit rate</option>
+            <option value="time">Time in arm</option>
+          </select>
+        </label>
+      </div>
       <svg
         ref={svgRef}
         width={width}
         height={height}
         style={{ border: '1px solid #ccc', backgroundColor: '#fafafa' }}
       />
-      <div style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
-        <span style={{ marginRight: '20px' }}>
-          🔴 Dead Code (never executed)
-        </span>
-        <span style={{ marginRight: '20px' }}>
-          🟡 Cold Path (&lt;20% hit rate)
-        </span>
-        <span>
-          🟢 Hot Path (&gt;80% hit rate)
-        </span>
-      </div>
+      {colorMode === 'time' ? (
+        <div style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
+          Darker = more time spent in the arm · grey = not timed (enable <code>collectExecutionTime</code>)
+        </div>
+      ) : (
+        <div style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
+          <span style={{ marginRight: '20px' }}>
+            🔴 Dead Code (never executed)
+          </span>
+          <span style={{ marginRight: '20px' }}>
+            🟡 Cold Path (&lt;20% hit rate)
+          </span>
+          <span>
+            🟢 Hot Path (&gt;80% hit rate)
+          </span>
+        </div>
+      )}
     </div>
   )
 }
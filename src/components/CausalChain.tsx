@@ -0,0 +1,92 @@
+import React, { useState } from 'react'
+import { CausalEvent } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface CausalChainProps {
+  causalEvents: CausalEvent[]
+  selectedFile?: string
+  selectedComponent?: string
+}
+
+export const CausalChain: React.FC<CausalChainProps> = ({
+  causalEvents,
+  selectedFile,
+  selectedComponent
+}) => {
+  const [expandedCauseId, setExpandedCauseId] = useState<string | undefined>()
+
+  const causes = causalEvents.filter(cause =>
+    (!selectedFile || cause.updates.some(update => update.file === selectedFile)) &&
+    (!selectedComponent ||
+      cause.updates.some(update => getOwnerName(update) === selectedComponent) ||
+      cause.renders.some(render => render.component === selectedComponent))
+  )
+
+  if (causes.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No state updates traced yet. Build with <code>traceStateUpdates: true</code> (and <code>trackRenders: true</code> to see the renders they cause).
+      </div>
+    )
+  }
+
+  return (
+    <div className="causal-chain" style={{ fontSize: '12px' }}>
+      {causes.map(cause => {
+        const expanded = expandedCauseId === cause.causeId
+        const renderCount = cause.renders.reduce((sum, render) => sum + render.count, 0)
+
+        return (
+          <div key={cause.causeId} style={{ borderBottom: '1px solid #eee' }}>
+            <div
+              onClick={() => setExpandedCauseId(expanded ? undefined : cause.causeId)}
+              style={{ padding: '6px 4px', cursor: 'pointer', display: 'flex', justifyContent: 'space-between' }}
+            >
+              <span>
+                {expanded ? '▾' : '▸'} {cause.kind === 'event' ? '🖱️' : '⏳'} <strong>{cause.label}</strong>
+                {cause.target && <span style={{ color: '#666' }}> on <code>{cause.target}</code></span>}
+                {cause.kind === 'async' && <span style={{ color: '#666' }}> (async)</span>}
+              </span>
+              <span style={{ color: '#666' }}>
+                {cause.updates.length} update{cause.updates.length === 1 ? '' : 's'} → {renderCount} render{renderCount === 1 ? '' : 's'}
+              </span>
+            </div>
+
+            {expanded && (
+              <div style={{ display: 'flex', gap: '24px', padding: '4px 20px 12px', flexWrap: 'wrap' }}>
+                <div style={{ flex: 1, minWidth: '240px' }}>
+                  <h5 style={{ margin: '4px 0' }}>State updates</h5>
+                  {cause.updates.map((update, index) => (
+                    <div key={index} style={{ marginBottom: '4px' }}>
+                      <code>{update.setter}</code>
+                      {update.state && <span style={{ color: '#666' }}> ({update.state})</span>} ← <code>{update.value}</code>
+                      <div style={{ color: '#666' }}>
+                        {update.file.split('/').pop()}:{update.line}
+                        {getOwnerName(update) && ` · <${getOwnerName(update)}>`}
+                        {update.owner && update.owner.functionName !== getOwnerName(update) && ` · ${update.owner.functionName}`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div style={{ flex: 1, minWidth: '160px' }}>
+                  <h5 style={{ margin: '4px 0' }}>Re-rendered</h5>
+                  {cause.renders.length === 0 ? (
+                    <div style={{ color: '#666' }}>No tracked renders</div>
+                  ) : (
+                    cause.renders.map(render => (
+                      <div key={render.componentId}>
+                        <code>{`<${render.component}>`}</code>{render.count > 1 && ` ×${render.count}`}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default CausalChain
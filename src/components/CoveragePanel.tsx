@@ -1,7 +1,41 @@
 import React, { useState, useEffect } from 'react'
 import BranchHeatmap from './BranchHeatmap'
 import ExecutionTree from './ExecutionTree'
-import { BranchStats } from '../types'
+import LoopHistogram from './LoopHistogram'
+import BranchDetails from './BranchDetails'
+import RenderTable from './RenderTable'
+import HookTable from './HookTable'
+import CausalChain from './CausalChain'
+import AsyncTable from './AsyncTable'
+import EventLog from './EventLog'
+import SuspenseTimeline from './SuspenseTimeline'
+import StyleInspector from './StyleInspector'
+import StateTimeline from './StateTimeline'
+import {
+  AsyncIssue,
+  AsyncStats,
+  BranchStats,
+  CausalEvent,
+  CoverageScopeInfo,
+  EventTrace,
+  FetchWaterfall,
+  HookStats,
+  McdcReport,
+  PendingAsync,
+  PerformanceFinding,
+  RenderRisk,
+  RenderStats,
+  SkippedFile,
+  StateDiff,
+  StateHistoryEntry,
+  StyleRuleMatch,
+  StyleSite,
+  SuspenseEpisode,
+  SuspenseWaterfall,
+  UxMetrics
+} from '../types'
+import { getOwnerName } from '../utils/owners'
+import { readPerformanceData, summarizePerformance } from '../core/insights'
 
 declare global {
   interface Window {
@@ -10,6 +44,25 @@ declare global {
       getExecutionSummary(): any
       clearStats(): void
       exportData(): any
+      getMcdcCoverage?(): McdcReport[]
+      getSkippedFiles?(): SkippedFile[]
+      getRenderStats?(): RenderStats[]
+      getRenderRisks?(): RenderRisk[]
+      getHookStats?(): HookStats[]
+      getCausalEvents?(): CausalEvent[]
+      getAsyncStats?(): AsyncStats[]
+      getPendingAsync?(): PendingAsync[]
+      getAsyncIssues?(): AsyncIssue[]
+      getEventTraces?(): EventTrace[]
+      getSuspenseEpisodes?(): SuspenseEpisode[]
+      getSuspenseWaterfalls?(): SuspenseWaterfall[]
+      getStyleSites?(): StyleSite[]
+      inspectStyles?(element: Element): StyleRuleMatch[]
+      scope?(name?: string, enabled?: boolean): CoverageScopeInfo[]
+      getScopes?(): CoverageScopeInfo[]
+      getStateHistory?(): StateHistoryEntry[]
+      getStateAt?(index: number): StateHistoryEntry[]
+      diffStateHistory?(from: number, to: number): StateDiff | undefined
     }
   }
 }
@@ -25,10 +78,29 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
   onClose,
   position = 'bottom'
 }) => {
-  const [branchStats, setBranchStats] = useState<BranchStats>({})
+  const [allBranchStats, setBranchStats] = useState<BranchStats>({})
+  const [scopes, setScopes] = useState<CoverageScopeInfo[]>([])
+  const [selectedScope, setSelectedScope] = useState<string | undefined>()
   const [selectedFile, setSelectedFile] = useState<string | undefined>()
-  const [activeTab, setActiveTab] = useState<'heatmap' | 'tree' | 'summary'>('summary')
+  const [selectedComponent, setSelectedComponent] = useState<string | undefined>()
+  const [groupBy, setGroupBy] = useState<'file' | 'component'>('file')
+  const [activeTab, setActiveTab] = useState<'heatmap' | 'tree' | 'loops' | 'renders' | 'hooks' | 'causes' | 'async' | 'events' | 'suspense' | 'styles' | 'state' | 'summary'>('summary')
   const [summary, setSummary] = useState<any>(null)
+  const [skippedFiles, setSkippedFiles] = useState<SkippedFile[]>([])
+  const [renderStats, setRenderStats] = useState<RenderStats[]>([])
+  const [renderRisks, setRenderRisks] = useState<RenderRisk[]>([])
+  const [hookStats, setHookStats] = useState<HookStats[]>([])
+  const [causalEvents, setCausalEvents] = useState<CausalEvent[]>([])
+  const [asyncStats, setAsyncStats] = useState<AsyncStats[]>([])
+  const [pendingAsync, setPendingAsync] = useState<PendingAsync[]>([])
+  const [asyncIssues, setAsyncIssues] = useState<AsyncIssue[]>([])
+  const [eventTraces, setEventTraces] = useState<EventTrace[]>([])
+  const [suspenseEpisodes, setSuspenseEpisodes] = useState<SuspenseEpisode[]>([])
+  const [suspenseWaterfalls, setSuspenseWaterfalls] = useState<SuspenseWaterfall[]>([])
+  const [styleSites, setStyleSites] = useState<StyleSite[]>([])
+  const [stateHistory, setStateHistory] = useState<StateHistoryEntry[]>([])
+  const [findings, setFindings] = useState<PerformanceFinding[]>([])
+  const [selectedBranchId, setSelectedBranchId] = useState<string | undefined>()
 
   // Auto-refresh data
   useEffect(() => {
@@ -38,6 +110,21 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
       if (window.__RUNTIME_COVERAGE__) {
         setBranchStats(window.__RUNTIME_COVERAGE__.getBranchStats())
         setSummary(window.__RUNTIME_COVERAGE__.getExecutionSummary())
+        setSkippedFiles(window.__RUNTIME_COVERAGE__.getSkippedFiles?.() || [])
+        setRenderStats(window.__RUNTIME_COVERAGE__.getRenderStats?.() || [])
+        setRenderRisks(window.__RUNTIME_COVERAGE__.getRenderRisks?.() || [])
+        setHookStats(window.__RUNTIME_COVERAGE__.getHookStats?.() || [])
+        setCausalEvents(window.__RUNTIME_COVERAGE__.getCausalEvents?.() || [])
+        setAsyncStats(window.__RUNTIME_COVERAGE__.getAsyncStats?.() || [])
+        setPendingAsync(window.__RUNTIME_COVERAGE__.getPendingAsync?.() || [])
+        setAsyncIssues(window.__RUNTIME_COVERAGE__.getAsyncIssues?.() || [])
+        setEventTraces(window.__RUNTIME_COVERAGE__.getEventTraces?.() || [])
+        setSuspenseEpisodes(window.__RUNTIME_COVERAGE__.getSuspenseEpisodes?.() || [])
+        setSuspenseWaterfalls(window.__RUNTIME_COVERAGE__.getSuspenseWaterfalls?.() || [])
+        setStyleSites(window.__RUNTIME_COVERAGE__.getStyleSites?.() || [])
+        setScopes(window.__RUNTIME_COVERAGE__.getScopes?.() || [])
+        setStateHistory(window.__RUNTIME_COVERAGE__.getStateHistory?.() || [])
+        setFindings(summarizePerformance(readPerformanceData(window.__RUNTIME_COVERAGE__)))
       }
     }
 
@@ -47,6 +134,12 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
     return () => clearInterval(interval)
   }, [isOpen])
 
+  // Branches tagged with the selected <CoverageScope>
+  const branchStats = selectedScope
+    ? Object.fromEntries(Object.entries(allBranchStats).filter(([_, branch]) => branch.scopes?.includes(selectedScope)))
+    : allBranchStats
+  const activeScope = scopes.find(scope => scope.name === selectedScope)
+
   const files = Object.values(branchStats).reduce((acc, branch) => {
     if (!acc.includes(branch.file)) {
       acc.push(branch.file)
@@ -54,11 +147,19 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
     return acc
   }, [] as string[])
 
+  const components = Object.values(branchStats).reduce((acc, branch) => {
+    const component = getOwnerName(branch)
+    if (component && !acc.includes(component)) {
+      acc.push(component)
+    }
+    return acc
+  }, [] as string[]).sort()
+
   const handleBranchClick = (branchId: string) => {
     const branch = branchStats[branchId]
     if (branch) {
       console.log('Selected branch:', branch)
-      // Could implement code navigation here
+      setSelectedBranchId(branchId)
     }
   }
 
@@ -75,11 +176,18 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
     }
   }
 
+  const handleToggleScope = (scope: CoverageScopeInfo) => {
+    setScopes(window.__RUNTIME_COVERAGE__?.scope?.(scope.name, !scope.enabled) || [])
+  }
+
   const handleClearStats = () => {
     if (window.__RUNTIME_COVERAGE__) {
       window.__RUNTIME_COVERAGE__.clearStats()
       setBranchStats({})
       setSummary(null)
+      setRenderStats([])
+      setHookStats([])
+      setCausalEvents([])
     }
   }
 
@@ -117,7 +225,7 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
   }
 
   return (
-    <div style={panelStyles}>
+    <div className="coverage-panel" style={panelStyles}>
       {/* Header */}
       <div style={{ 
         padding: '12px 16px', 
@@ -180,7 +288,16 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
         {[
           { id: 'summary', label: '📊 Summary' },
           { id: 'heatmap', label: '🗺️ Heatmap' },
-          { id: 'tree', label: '🌳 Execution Tree' }
+          { id: 'tree', label: '🌳 Execution Tree' },
+          { id: 'loops', label: '🔁 Loops' },
+          { id: 'renders', label: '🔄 Renders' },
+          { id: 'hooks', label: '🪝 Hooks' },
+          { id: 'causes', label: '⚡ Causes' },
+          { id: 'async', label: '⏱️ Async' },
+          { id: 'events', label: '🖱️ Events' },
+          { id: 'suspense', label: '⏳ Suspense' },
+          { id: 'styles', label: '🎨 Styles' },
+          { id: 'state', label: '⏪ State' }
         ].map(tab => (
           <button
             key={tab.id}
@@ -199,32 +316,111 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
         ))}
       </div>
 
-      {/* File Filter */}
-      {files.length > 1 && (
-        <div style={{ padding: '8px 16px', borderBottom: '1px solid #eee', backgroundColor: '#f8f9fa' }}>
-          <select
-            value={selectedFile || ''}
-            onChange={(e) => setSelectedFile(e.target.value || undefined)}
-            style={{
-              padding: '4px 8px',
-              border: '1px solid #ddd',
-              borderRadius: '4px',
-              fontSize: '12px',
-              minWidth: '200px'
-            }}
-          >
-            <option value="">All files ({files.length})</option>
-            {files.map(file => (
-              <option key={file} value={file}>
-                {file.split('/').pop()} ({Object.values(branchStats).filter(b => b.file === file).length})
-              </option>
-            ))}
-          </select>
+      {/* File / Component / Scope Filters */}
+      {(files.length > 1 || components.length > 0 || scopes.length > 0) && (
+        <div style={{ padding: '8px 16px', borderBottom: '1px solid #eee', backgroundColor: '#f8f9fa', display: 'flex', gap: '8px' }}>
+          {files.length > 1 && (
+            <select
+              value={selectedFile || ''}
+              onChange={(e) => setSelectedFile(e.target.value || undefined)}
+              style={{
+                padding: '4px 8px',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                fontSize: '12px',
+                minWidth: '200px'
+              }}
+            >
+              <option value="">All files ({files.length})</option>
+              {files.map(file => (
+                <option key={file} value={file}>
+                  {file.split('/').pop()} ({Object.values(branchStats).filter(b => b.file === file).length})
+                </option>
+              ))}
+            </select>
+          )}
+          {components.length > 0 && (
+            <select
+              value={selectedComponent || ''}
+              onChange={(e) => setSelectedComponent(e.target.value || undefined)}
+              style={{
+                padding: '4px 8px',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                fontSize: '12px',
+                minWidth: '200px'
+              }}
+            >
+              <option value="">All components ({components.length})</option>
+              {components.map(component => (
+                <option key={component} value={component}>
+                  {component} ({Object.values(branchStats).filter(b => getOwnerName(b) === component).length})
+                </option>
+              ))}
+            </select>
+          )}
+          {activeTab === 'tree' && components.length > 0 && (
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as 'file' | 'component')}
+              style={{
+                padding: '4px 8px',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            >
+              <option value="file">Group by file</option>
+              <option value="component">Group by component</option>
+            </select>
+          )}
+          {scopes.length > 0 && (
+            <select
+              value={selectedScope || ''}
+              onChange={(e) => setSelectedScope(e.target.value || undefined)}
+              style={{
+                padding: '4px 8px',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                fontSize: '12px'
+              }}
+            >
+              <option value="">All scopes ({scopes.length})</option>
+              {scopes.map(scope => (
+                <option key={scope.name} value={scope.name}>
+                  {scope.name}{scope.enabled ? '' : ' (off)'} ({Object.values(allBranchStats).filter(b => b.scopes?.includes(scope.name)).length})
+                </option>
+              ))}
+            </select>
+          )}
+          {activeScope && (
+            <button
+              onClick={() => handleToggleScope(activeScope)}
+              title={activeScope.enabled ? 'Stop tagging branches with this scope' : 'Tag branches with this scope again'}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                backgroundColor: 'white',
+                cursor: 'pointer'
+              }}
+            >
+              {activeScope.enabled ? 'Turn scope off' : 'Turn scope on'}
+            </button>
+          )}
         </div>
       )}
 
       {/* Content */}
       <div style={{ flex: 1, overflow: 'auto', padding: '16px' }}>
+        {selectedBranchId && branchStats[selectedBranchId] && (
+          <BranchDetails
+            branch={branchStats[selectedBranchId]}
+            onClose={() => setSelectedBranchId(undefined)}
+          />
+        )}
+
         {activeTab === 'summary' && (
           <div>
             {summary ? (
@@ -244,6 +440,40 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
                   </div>
                 </div>
 
+                {findings.length > 0 && (
+                  <div style={{ marginBottom: '20px' }}>
+                    <h4>🐢 What's Slow and Why</h4>
+                    <div style={{ backgroundColor: '#f8f9fa', padding: '12px', borderRadius: '4px' }}>
+                      {findings.slice(0, 5).map((finding, index) => (
+                        <div
+                          key={index}
+                          style={{
+                            padding: '6px 0',
+                            borderBottom: index < Math.min(findings.length, 5) - 1 ? '1px solid #eee' : 'none',
+                            cursor: finding.component ? 'pointer' : 'default'
+                          }}
+                          onClick={() => finding.component && setSelectedComponent(finding.component)}
+                        >
+                          <div style={{ fontSize: '12px' }}>
+                            <span style={{ color: finding.severity === 'high' ? '#d32f2f' : finding.severity === 'medium' ? '#ef6c00' : '#666' }}>
+                              {finding.severity === 'high' ? '●' : '○'}
+                            </span>{' '}
+                            {finding.message}
+                          </div>
+                          {finding.evidence.slice(0, 3).map((line, lineIndex) => (
+                            <div key={lineIndex} style={{ fontSize: '11px', color: '#666', paddingLeft: '14px' }}>{line}</div>
+                          ))}
+                        </div>
+                      ))}
+                      {findings.length > 5 && (
+                        <div style={{ fontSize: '11px', color: '#666', paddingTop: '6px' }}>
+                          {findings.length - 5} more from <code>__RUNTIME_COVERAGE_DEV_TOOLS__.explainPerformance()</code>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {summary.topDeadCodeFiles && summary.topDeadCodeFiles.length > 0 && (
                   <div style={{ marginBottom: '20px' }}>
                     <h4>🔍 Files with Most Dead Code</h4>
@@ -265,6 +495,129 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
                   </div>
                 )}
 
+                {summary.topDeadCodeComponents && summary.topDeadCodeComponents.length > 0 && (
+                  <div style={{ marginBottom: '20px' }}>
+                    <h4>🧩 Components with Most Dead Code</h4>
+                    <div style={{ backgroundColor: '#f8f9fa', padding: '12px', borderRadius: '4px' }}>
+                      {summary.topDeadCodeComponents.slice(0, 5).map((component: any, index: number) => (
+                        <div key={component.component} style={{ 
+                          display: 'flex', 
+                          justifyContent: 'space-between', 
+                          padding: '4px 0',
+                          borderBottom: index < 4 ? '1px solid #eee' : 'none',
+                          cursor: 'pointer'
+                        }}
+                        onClick={() => setSelectedComponent(component.component)}
+                        >
+                          <span style={{ fontSize: '12px' }}>&lt;{component.component}&gt;</span>
+                          <span style={{ fontSize: '12px', color: '#d32f2f' }}>
+                            {component.deadBranches}/{component.totalBranches} branches
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {summary.labelStats && Object.keys(summary.labelStats).length > 0 && (
+                  <div style={{ marginBottom: '20px' }}>
+                    <h4>🏷️ Labeled Branches</h4>
+                    <div style={{ backgroundColor: '#f8f9fa', padding: '12px', borderRadius: '4px' }}>
+                      {Object.entries(summary.labelStats).map(([label, stats]: [string, any], index, entries) => (
+                        <div key={label} style={{ 
+                          display: 'flex', 
+                          justifyContent: 'space-between', 
+                          padding: '4px 0',
+                          borderBottom: index < entries.length - 1 ? '1px solid #eee' : 'none'
+                        }}>
+                          <span style={{ fontSize: '12px' }}>{label}</span>
+                          <span style={{ fontSize: '12px', color: stats.dead > 0 ? '#d32f2f' : '#388e3c' }}>
+                            {stats.total - stats.dead}/{stats.total} branches reached
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {summary.fetchWaterfalls && summary.fetchWaterfalls.length > 0 && (
+                  <div style={{ marginBottom: '20px' }}>
+                    <h4>🌊 Sequential Requests</h4>
+                    <div style={{ backgroundColor: '#f8f9fa', padding: '12px', borderRadius: '4px' }}>
+                      {summary.fetchWaterfalls.slice(0, 5).map((waterfall: FetchWaterfall, index: number) => (
+                        <div key={waterfall.requests[0].requestId} style={{
+                          padding: '6px 0',
+                          borderBottom: index < Math.min(summary.fetchWaterfalls.length, 5) - 1 ? '1px solid #eee' : 'none'
+                        }}>
+                          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px' }}>
+                            <span>{waterfall.requests.length} requests in a row</span>
+                            <span style={{ color: '#ef6c00' }}>
+                              could save {waterfall.savings.toFixed(0)}ms ({waterfall.duration.toFixed(0)}ms → {waterfall.parallelDuration.toFixed(0)}ms)
+                            </span>
+                          </div>
+                          {waterfall.requests.map(request => (
+                            <div key={request.requestId} style={{ fontSize: '11px', paddingLeft: '12px', color: '#666' }}>
+                              <code>{request.method} {request.url}</code> {(request.endedAt! - request.startedAt).toFixed(0)}ms
+                              {request.initiator && ` · ${request.initiator.file.split('/').pop()}:${request.initiator.line}`}
+                              {request.initiator && getOwnerName(request.initiator) && ` · <${getOwnerName(request.initiator)}>`}
+                              {request.initiator?.condition && ` · after ${request.initiator.condition}`}
+                              {request.dependsOn && ' · uses an earlier response'}
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {summary.uxMetrics && (summary.uxMetrics.lcp !== undefined || summary.uxMetrics.longTasks > 0 || summary.uxMetrics.topComponents.length > 0) && (
+                  <div style={{ marginBottom: '20px' }}>
+                    <h4>📈 UX Metrics</h4>
+                    <div style={{ backgroundColor: '#f8f9fa', padding: '12px', borderRadius: '4px' }}>
+                      <div style={{ display: 'flex', gap: '16px', fontSize: '12px', flexWrap: 'wrap' }}>
+                        <span>LCP <strong>{summary.uxMetrics.lcp !== undefined ? `${summary.uxMetrics.lcp.toFixed(0)}ms` : '—'}</strong></span>
+                        <span>CLS <strong>{summary.uxMetrics.cls.toFixed(3)}</strong></span>
+                        <span>INP <strong>{summary.uxMetrics.inp !== undefined ? `${summary.uxMetrics.inp.toFixed(0)}ms` : '—'}</strong></span>
+                        <span>Long tasks <strong>{summary.uxMetrics.longTasks}</strong> ({summary.uxMetrics.totalBlockingTime.toFixed(0)}ms blocking)</span>
+                      </div>
+                      {summary.uxMetrics.topComponents.slice(0, 5).map((component: UxMetrics['topComponents'][number]) => (
+                        <div key={component.component} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: '#666', paddingTop: '4px' }}>
+                          <code>{`<${component.component}>`}</code>
+                          <span>{component.entries} entr{component.entries === 1 ? 'y' : 'ies'} · {component.metrics.join(', ')}</span>
+                        </div>
+                      ))}
+                      {summary.uxMetrics.topBranches.slice(0, 3).map((branch: UxMetrics['topBranches'][number]) => (
+                        <div key={`${branch.branchId}:${branch.taken}`} style={{ fontSize: '11px', color: '#666', paddingTop: '4px' }}>
+                          <code>{branch.condition}</code> {branch.taken ? 'taken' : 'not taken'} · {branch.file.split('/').pop()}:{branch.line} · {branch.entries}×
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {skippedFiles.length > 0 && (
+                  <div style={{ marginBottom: '20px' }}>
+                    <h4>🚫 Files Not Instrumented</h4>
+                    <div style={{ backgroundColor: '#f8f9fa', padding: '12px', borderRadius: '4px', maxHeight: '160px', overflow: 'auto' }}>
+                      {skippedFiles.map((skipped, index) => (
+                        <div key={skipped.file} style={{ 
+                          display: 'flex', 
+                          justifyContent: 'space-between', 
+                          padding: '4px 0',
+                          borderBottom: index < skippedFiles.length - 1 ? '1px solid #eee' : 'none'
+                        }}>
+                          <span style={{ fontSize: '12px' }} title={skipped.file}>{skipped.file}</span>
+                          <span style={{ fontSize: '12px', color: '#666' }}>
+                            {skipped.reason === 'excluded' ? `excluded by ${skipped.pattern}` :
+                             skipped.reason === 'not-included' ? 'not in includePatterns' :
+                             'frontsense-ignore-file'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {summary.topHotPathFiles && summary.topHotPathFiles.length > 0 && (
                   <div>
                     <h4>🔥 Files with Hot Execution Paths</h4>
@@ -298,6 +651,7 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
           <BranchHeatmap
             branchStats={branchStats}
             selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
             onBranchClick={handleBranchClick}
             width={Math.min(800, window.innerWidth - 100)}
             height={400}
@@ -308,13 +662,92 @@ export const CoveragePanel: React.FC<CoveragePanelProps> = ({
           <ExecutionTree
             branchStats={branchStats}
             selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+            groupBy={groupBy}
             onNodeSelect={handleBranchClick}
             width={Math.min(800, window.innerWidth - 100)}
             height={400}
           />
         )}
 
-        {activeTab !== 'summary' && Object.keys(branchStats).length === 0 && (
+        {activeTab === 'loops' && Object.keys(branchStats).length > 0 && (
+          <LoopHistogram
+            branchStats={branchStats}
+            selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+            onLoopClick={handleBranchClick}
+          />
+        )}
+
+        {activeTab === 'renders' && (
+          <RenderTable
+            renderStats={renderStats}
+            renderRisks={renderRisks}
+            selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+          />
+        )}
+
+        {activeTab === 'hooks' && (
+          <HookTable
+            hookStats={hookStats}
+            selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+          />
+        )}
+
+        {activeTab === 'causes' && (
+          <CausalChain
+            causalEvents={causalEvents}
+            selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+          />
+        )}
+
+        {activeTab === 'async' && (
+          <AsyncTable
+            asyncStats={asyncStats}
+            pendingAsync={pendingAsync}
+            asyncIssues={asyncIssues}
+            selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+          />
+        )}
+
+        {activeTab === 'events' && (
+          <EventLog
+            eventTraces={eventTraces}
+            selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+          />
+        )}
+
+        {activeTab === 'suspense' && (
+          <SuspenseTimeline
+            suspenseEpisodes={suspenseEpisodes}
+            suspenseWaterfalls={suspenseWaterfalls}
+            selectedFile={selectedFile}
+            selectedComponent={selectedComponent}
+          />
+        )}
+
+        {activeTab === 'styles' && (
+          <StyleInspector
+            styleSites={styleSites}
+            inspectStyles={window.__RUNTIME_COVERAGE__?.inspectStyles}
+          />
+        )}
+
+        {activeTab === 'state' && (
+          <StateTimeline
+            stateHistory={stateHistory}
+            getStateAt={window.__RUNTIME_COVERAGE__?.getStateAt}
+            diffStateHistory={window.__RUNTIME_COVERAGE__?.diffStateHistory}
+            selectedComponent={selectedComponent}
+          />
+        )}
+
+        {!['summary', 'renders', 'hooks', 'causes', 'async', 'events', 'suspense', 'styles', 'state'].includes(activeTab) && Object.keys(branchStats).length === 0 && (
           <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
             No branch data available. Make sure the runtime coverage collector is running.
           </div>
@@ -0,0 +1,34 @@
+import React, { Context, createContext, useContext, useMemo } from 'react'
+
+// Shared with instrumented modules (trackScopes), which create it themselves if they load first
+const SCOPE_CONTEXT_GLOBAL = '__RUNTIME_COVERAGE_SCOPE_CONTEXT__'
+
+interface CoverageScopeProps {
+  name: string
+  children?: React.ReactNode
+}
+
+// Names of the enclosing scopes, outermost first; null outside any
+function getScopeContext(): Context<string[] | null> {
+  const host = window as any
+  host[SCOPE_CONTEXT_GLOBAL] = host[SCOPE_CONTEXT_GLOBAL] || createContext<string[] | null>(null)
+  return host[SCOPE_CONTEXT_GLOBAL]
+}
+
+/**
+ * Marks a component subtree for focused inspection. With `trackScopes`,
+ * branches that run in components under it are tagged with its name (and
+ * the names of the scopes around it); `scope()` turns it on and off.
+ */
+export const CoverageScope: React.FC<CoverageScopeProps> = ({ name, children }) => {
+  const ScopeContext = getScopeContext()
+  const parent = useContext(ScopeContext)
+  const scopes = useMemo(() => [...(parent || []), name], [parent, name])
+
+  // Registers the scope even when nothing under it is instrumented yet
+  window.__RUNTIME_COVERAGE__?.scope?.(name)
+
+  return <ScopeContext.Provider value={scopes}>{children}</ScopeContext.Provider>
+}
+
+export default CoverageScope
@@ -0,0 +1,88 @@
+import React, { useState } from 'react'
+import { EventTrace } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface EventLogProps {
+  eventTraces: EventTrace[]
+  selectedFile?: string
+  selectedComponent?: string
+}
+
+export const EventLog: React.FC<EventLogProps> = ({
+  eventTraces,
+  selectedFile,
+  selectedComponent
+}) => {
+  const [expandedTraceId, setExpandedTraceId] = useState<string | undefined>()
+
+  const traces = eventTraces.filter(trace =>
+    (!selectedFile || trace.handlers.some(call => call.file === selectedFile)) &&
+    (!selectedComponent || trace.handlers.some(call => getOwnerName(call) === selectedComponent))
+  )
+
+  if (traces.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No events traced yet. Build with <code>traceEvents: true</code> to log which handlers each event reaches.
+      </div>
+    )
+  }
+
+  return (
+    <div className="event-log" style={{ fontSize: '12px' }}>
+      {traces.map(trace => {
+        const expanded = expandedTraceId === trace.traceId
+        const stoppedAt = trace.handlers.find(call => call.stoppedPropagation)
+        const prevented = trace.handlers.some(call => call.preventedDefault)
+
+        return (
+          <div key={trace.traceId} style={{ borderBottom: '1px solid #eee' }}>
+            <div
+              onClick={() => setExpandedTraceId(expanded ? undefined : trace.traceId)}
+              style={{ padding: '6px 4px', cursor: 'pointer', display: 'flex', justifyContent: 'space-between' }}
+            >
+              <span>
+                {expanded ? '▾' : '▸'} <strong>{trace.type}</strong>
+                {trace.target && <span style={{ color: '#666' }}> on <code>{trace.target}</code></span>}
+              </span>
+              <span style={{ color: '#666' }}>
+                {trace.handlers.length} handler{trace.handlers.length === 1 ? '' : 's'}
+                {stoppedAt && <span style={{ color: '#ef6c00' }}> · stopped</span>}
+                {prevented && <span style={{ color: '#1976d2' }}> · default prevented</span>}
+              </span>
+            </div>
+
+            {expanded && (
+              <ol style={{ margin: 0, padding: '4px 20px 12px 36px' }}>
+                {trace.handlers.map((call, index) => (
+                  <li key={index} style={{ marginBottom: '6px' }}>
+                    <code>{`<${call.element} ${call.prop}>`}</code> → <code>{call.handler}</code>
+                    <span style={{ color: '#666' }}> {call.duration.toFixed(1)}ms</span>
+                    {call.stoppedPropagation && <span style={{ color: '#ef6c00' }}> ⛔ stopPropagation()</span>}
+                    {call.preventedDefault && <span style={{ color: '#1976d2' }}> 🚫 preventDefault()</span>}
+                    <div style={{ color: '#666' }}>
+                      {call.file.split('/').pop()}:{call.line}
+                      {getOwnerName(call) && ` · <${getOwnerName(call)}>`}
+                      {call.phase === 'capture' && ' · capture phase'}
+                      {call.currentTarget && ` · listener on ${call.currentTarget}`}
+                    </div>
+                    {call.branches.map((branch, branchIndex) => (
+                      <div key={branchIndex} style={{ paddingLeft: '12px', color: branch.taken ? '#2e7d32' : '#757575' }}>
+                        {branch.taken ? '✓' : '✗'} <code>{branch.condition}</code>
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )
+      })}
+      <div style={{ marginTop: '10px', fontSize: '11px', color: '#666' }}>
+        Handlers are listed in the order the event reached them; branches are those taken before each handler returned
+      </div>
+    </div>
+  )
+}
+
+export default EventLog
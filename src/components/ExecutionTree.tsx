@@ -1,10 +1,13 @@
 import React, { useEffect, useRef, useMemo } from 'react'
 import { Network, DataSet, Node, Edge } from 'vis-network'
 import { BranchStats, ExecutionTreeNode } from '../types'
+import { getOwnerName } from '../utils/owners'
 
 interface ExecutionTreeProps {
   branchStats: BranchStats
   selectedFile?: string
+  selectedComponent?: string
+  groupBy?: 'file' | 'component'
   onNodeSelect?: (branchId: string) => void
   width?: number
   height?: number
@@ -13,6 +16,8 @@ interface ExecutionTreeProps {
 export const ExecutionTree: React.FC<ExecutionTreeProps> = ({
   branchStats,
   selectedFile,
+  selectedComponent,
+  groupBy = 'file',
   onNodeSelect,
   width = 800,
   height = 600
@@ -22,15 +27,17 @@ export const ExecutionTree: React.FC<ExecutionTreeProps> = ({
 
   const treeData = useMemo(() => {
     const filteredStats = Object.values(branchStats).filter(
-      branch => !selectedFile || branch.file === selectedFile
+      branch => (!selectedFile || branch.file === selectedFile) &&
+        (!selectedComponent || getOwnerName(branch) === selectedComponent)
     )
 
-    // Group by file and create execution trees
+    // Group by file (or component) and create execution trees
     const fileGroups = filteredStats.reduce((acc, branch) => {
-      if (!acc[branch.file]) {
-        acc[branch.file] = []
+      const groupKey = groupBy === 'component' ? getOwnerName(branch) || '(outside components)' : branch.file
+      if (!acc[groupKey]) {
+        acc[groupKey] = []
       }
-      acc[branch.file].push(branch)
+      acc[groupKey].push(branch)
       return acc
     }, {} as Record<string, typeof filteredStats>)
 
@@ -51,7 +58,7 @@ export const ExecutionTree: React.FC<ExecutionTreeProps> = ({
       nodes.push({
         id: fileNodeId,
         label: fileName.split('/').pop() || fileName,
-        title: `File: ${fileName}\nTotal Branches: ${sortedBranches.length}\nAvg Hit Rate: ${(avgHitRate * 100).toFixed(1)}%`,
+        title: `${groupBy === 'component' ? 'Component' : 'File'}: ${fileName}\nTotal Branches: ${sortedBranches.length}\nAvg Hit Rate: ${(avgHitRate * 100).toFixed(1)}%`,
         color: {
           background: '#e1f5fe',
           border: '#0277bd'
@@ -94,11 +101,14 @@ export const ExecutionTree: React.FC<ExecutionTreeProps> = ({
 
         nodes.push({
           id: branchNodeId,
-          label: `${branch.type.toUpperCase()}\nL${branch.line}:${branch.column}`,
+          label: `${branch.type.toUpperCase()}${branch.arm ? ` ${branch.arm.kind}` : ''}\nL${branch.line}:${branch.column}`,
           title: `
             Branch: ${branch.condition}
-            Type: ${branch.type}
+            Type: ${branch.type}${branch.arm ? ` (${branch.arm.kind} arm of ${branch.arm.parentBranchId})` : ''}
             Location: ${branch.file}:${branch.line}:${branch.column}
+            Owner: ${branch.owner ? `${branch.owner.functionName} (${branch.owner.kind})` : 'module scope'}${branch.label ? `
+            Label: ${branch.label}` : ''}${branch.expectedDead ? `
+            Expected dead` : ''}
             Hit Count: ${branch.hitCount}
             Miss Count: ${branch.missCount}
             Hit Rate: ${(hitRate * 100).toFixed(1)}%
@@ -130,7 +140,7 @@ export const ExecutionTree: React.FC<ExecutionTreeProps> = ({
     })
 
     return { nodes: new DataSet(nodes), edges: new DataSet(edges) }
-  }, [branchStats, selectedFile])
+  }, [branchStats, selectedFile, selectedComponent, groupBy])
 
   useEffect(() => {
     if (!containerRef.current) return
@@ -195,8 +205,10 @@ export const ExecutionTree: React.FC<ExecutionTreeProps> = ({
 
   const stats = useMemo(() => {
     const allBranches = Object.values(branchStats)
-    const filtered = selectedFile ? 
-      allBranches.filter(b => b.file === selectedFile) : allBranches
+    const filtered = allBranches.filter(b =>
+      (!selectedFile || b.file === selectedFile) &&
+      (!selectedComponent || getOwnerName(b) === selectedComponent)
+    )
 
     const totalBranches = filtered.length
     const deadBranches = filtered.filter(b => b.hitCount === 0 && b.missCount === 0).length
@@ -210,13 +222,13 @@ export const ExecutionTree: React.FC<ExecutionTreeProps> = ({
     }).length
 
     return { totalBranches, deadBranches, hotBranches, coldBranches }
-  }, [branchStats, selectedFile])
+  }, [branchStats, selectedFile, selectedComponent])
 
   return (
     <div className="execution-tree">
       <div style={{ marginBottom: '10px', padding: '10px', backgroundColor: '#f5f5f5', borderRadius: '4px' }}>
         <h3 style={{ margin: '0 0 10px 0', color: '#333' }}>
-          Execution Flow {selectedFile && `- ${selectedFile.split('/').pop()}`}
+          Execution Flow {selectedFile && `- ${selectedFile.split('/').pop()}`} {selectedComponent && `- <${selectedComponent}>`}
         </h3>
         <div style={{ display: 'flex', gap: '20px', fontSize: '12px' }}>
           <span>📊 Total: {stats.totalBranches}</span>
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react'
+import { HookStats } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface HookTableProps {
+  hookStats: HookStats[]
+  selectedFile?: string
+  selectedComponent?: string
+}
+
+export const HookTable: React.FC<HookTableProps> = ({
+  hookStats,
+  selectedFile,
+  selectedComponent
+}) => {
+  const rows = useMemo(() => {
+    return hookStats
+      .filter(stats => !selectedFile || stats.file === selectedFile)
+      .filter(stats => !selectedComponent || getOwnerName(stats) === selectedComponent)
+      .map(stats => {
+        const unstable = stats.dependencies.filter(dependency => dependency.identityOnlyChanges > 0)
+        return { stats, unstable, suspicious: stats.suspectedLoops > 0 || unstable.length > 0 }
+      })
+      // Surface the suspicious hooks first
+      .sort((a, b) => Number(b.suspicious) - Number(a.suspicious) || b.stats.runs - a.stats.runs)
+  }, [hookStats, selectedFile, selectedComponent])
+
+  if (rows.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No hooks audited yet. Build with <code>auditHooks: true</code> to see why effects and memos re-run.
+      </div>
+    )
+  }
+
+  return (
+    <div className="hook-table">
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+            <th style={{ padding: '4px' }}>Hook</th>
+            <th style={{ padding: '4px' }}>Runs / Instances</th>
+            <th style={{ padding: '4px' }}>Dependency changes</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ stats, unstable }) => (
+            <tr
+              key={stats.hookId}
+              style={{
+                borderBottom: '1px solid #eee',
+                verticalAlign: 'top',
+                backgroundColor: stats.suspectedLoops > 0 ? '#ffebee' : unstable.length > 0 ? '#fff3e0' : 'transparent'
+              }}
+            >
+              <td style={{ padding: '4px' }}>
+                <code>{stats.hook}</code>
+                <div style={{ color: '#666' }}>
+                  {stats.file.split('/').pop()}:{stats.line}
+                  {getOwnerName(stats) && ` · <${getOwnerName(stats)}>`}
+                </div>
+                {stats.suspectedLoops > 0 && (
+                  <div style={{ color: '#d32f2f' }}>⚠️ Ran in rapid bursts {stats.suspectedLoops}× (possible update loop)</div>
+                )}
+                {stats.withoutDependencies && (
+                  <div style={{ color: '#ef6c00' }}>No dependency array: runs on every render</div>
+                )}
+              </td>
+              <td style={{ padding: '4px' }}>{stats.runs} / {stats.instances}</td>
+              <td style={{ padding: '4px' }}>
+                {stats.dependencies.length === 0 ? (
+                  <span style={{ color: '#666' }}>—</span>
+                ) : (
+                  stats.dependencies.map((dependency, index) => (
+                    <div key={index}>
+                      <code>{dependency.name}</code> {dependency.changes}
+                      {dependency.identityOnlyChanges > 0 && (
+                        <span style={{ color: '#ef6c00' }}>
+                          {' '}⚠️ {dependency.identityOnlyChanges} with a deep-equal value (new identity each render)
+                        </span>
+                      )}
+                    </div>
+                  ))
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ marginTop: '10px', fontSize: '11px', color: '#666' }}>
+        Runs count mounts and the re-runs React performs when a dependency changes by Object.is
+      </div>
+    </div>
+  )
+}
+
+export default HookTable
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react'
+import { BranchStats } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface LoopHistogramProps {
+  branchStats: BranchStats
+  selectedFile?: string
+  selectedComponent?: string
+  hugeThreshold?: number
+  onLoopClick?: (branchId: string) => void
+}
+
+const BUCKETS = ['0', '1', '2-5', '6-20', '21-100', '101-1000', '1000+']
+
+export const LoopHistogram: React.FC<LoopHistogramProps> = ({
+  branchStats,
+  selectedFile,
+  selectedComponent,
+  hugeThreshold = 1000,
+  onLoopClick
+}) => {
+  const loops = useMemo(() => {
+    return Object.values(branchStats)
+      .filter(branch => branch.type === 'loop')
+      .filter(branch => !selectedFile || branch.file === selectedFile)
+      .filter(branch => !selectedComponent || getOwnerName(branch) === selectedComponent)
+      .map(branch => {
+        const executions = branch.loop?.executions || 0
+        const alwaysEmpty = executions > 0 && branch.hitCount === 0
+        const huge = (branch.loop?.maxIterations || 0) > hugeThreshold
+        return { branch, executions, alwaysEmpty, huge }
+      })
+      // Surface the suspicious loops first
+      .sort((a, b) => Number(b.alwaysEmpty || b.huge) - Number(a.alwaysEmpty || a.huge) || b.executions - a.executions)
+  }, [branchStats, selectedFile, selectedComponent, hugeThreshold])
+
+  if (loops.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No loops recorded yet.
+      </div>
+    )
+  }
+
+  return (
+    <div className="loop-histogram">
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+        <thead>
+          <tr style={{ textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+            <th style={{ padding: '4px' }}>Loop</th>
+            <th style={{ padding: '4px' }}>Entered / Skipped</th>
+            <th style={{ padding: '4px' }}>Avg / Max</th>
+            <th style={{ padding: '4px' }}>Iterations per execution</th>
+          </tr>
+        </thead>
+        <tbody>
+          {loops.map(({ branch, executions, alwaysEmpty, huge }) => {
+            const histogram = branch.loop?.histogram || {}
+            const peak = Math.max(1, ...Object.values(histogram))
+            const average = executions > 0 ? (branch.loop?.totalIterations || 0) / executions : 0
+
+            return (
+              <tr
+                key={branch.branchId}
+                onClick={() => onLoopClick?.(branch.branchId)}
+                style={{
+                  borderBottom: '1px solid #eee',
+                  cursor: 'pointer',
+                  backgroundColor: alwaysEmpty ? '#fff3e0' : huge ? '#ffebee' : 'transparent'
+                }}
+              >
+                <td style={{ padding: '4px' }}>
+                  <code>{branch.condition}</code>
+                  <div style={{ color: '#666' }}>
+                    {branch.file.split('/').pop()}:{branch.line}
+                    {getOwnerName(branch) && ` · <${getOwnerName(branch)}>`}
+                  </div>
+                  {alwaysEmpty && <div style={{ color: '#ef6c00' }}>⚠️ Always empty</div>}
+                  {huge && <div style={{ color: '#d32f2f' }}>⚠️ Over {hugeThreshold} iterations</div>}
+                </td>
+                <td style={{ padding: '4px' }}>{branch.hitCount} / {branch.missCount}</td>
+                <td style={{ padding: '4px' }}>{average.toFixed(1)} / {branch.loop?.maxIterations || 0}</td>
+                <td style={{ padding: '4px' }}>
+                  <div style={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: '32px' }}>
+                    {BUCKETS.map(bucket => (
+                      <div
+                        key={bucket}
+                        title={`${bucket} iterations: ${histogram[bucket] || 0} executions`}
+                        style={{
+                          width: '16px',
+                          height: `${Math.max(2, ((histogram[bucket] || 0) / peak) * 32)}px`,
+                          backgroundColor: histogram[bucket] ? '#1976d2' : '#e0e0e0'
+                        }}
+                      />
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+      <div style={{ marginTop: '10px', fontSize: '11px', color: '#666' }}>
+        Buckets: {BUCKETS.join(' · ')} iterations
+      </div>
+    </div>
+  )
+}
+
+export default LoopHistogram
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react'
+import { RenderRisk, RenderStats } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface RenderTableProps {
+  renderStats: RenderStats[]
+  renderRisks?: RenderRisk[]
+  selectedFile?: string
+  selectedComponent?: string
+  wastedThreshold?: number
+}
+
+export const RenderTable: React.FC<RenderTableProps> = ({
+  renderStats,
+  renderRisks = [],
+  selectedFile,
+  selectedComponent,
+  wastedThreshold = 0.5
+}) => {
+  const rows = useMemo(() => {
+    return renderStats
+      .filter(stats => !selectedFile || stats.file === selectedFile)
+      .filter(stats => !selectedComponent || stats.component === selectedComponent)
+      .map(stats => {
+        const rerenders = stats.renders - stats.instances
+        const wastedRate = rerenders > 0 ? stats.wastedRenders / rerenders : 0
+        return { stats, rerenders, wastedRate, mostlyWasted: wastedRate >= wastedThreshold && stats.wastedRenders > 1 }
+      })
+      .sort((a, b) => b.rerenders - a.rerenders)
+  }, [renderStats, selectedFile, selectedComponent, wastedThreshold])
+
+  // A memoized child's props and a key concern the element; a provider value, the component rendering it
+  const risks = useMemo(() => {
+    return renderRisks
+      .map(risk => ({ risk, component: risk.kind === 'provider-value' ? getOwnerName(risk) : risk.element }))
+      .filter(({ risk }) => !selectedFile || risk.file === selectedFile)
+      .filter(({ component }) => !selectedComponent || component === selectedComponent)
+  }, [renderRisks, selectedFile, selectedComponent])
+  const shown = new Set(rows.map(row => row.stats.component))
+  const unmatched = risks.filter(({ component }) => !component || !shown.has(component))
+
+  const renderRisk = ({ risk }: { risk: RenderRisk }) => (
+    <div key={risk.riskId} style={{ color: '#ef6c00' }}>
+      ⚠️ {risk.message} <span style={{ color: '#666' }}>· {risk.file.split('/').pop()}:{risk.line}</span>
+    </div>
+  )
+
+  if (rows.length === 0 && risks.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No renders recorded yet. Build with <code>trackRenders: true</code> to count component renders
+        and <code>analyzeRenderRisks: true</code> to find props that change every render.
+      </div>
+    )
+  }
+
+  const peak = Math.max(1, ...rows.map(row => row.stats.renders))
+
+  return (
+    <div className="render-table">
+      {rows.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px' }}>
+          <thead>
+            <tr style={{ textAlign: 'left', borderBottom: '1px solid #ddd' }}>
+              <th style={{ padding: '4px' }}>Component</th>
+              <th style={{ padding: '4px' }}>Renders</th>
+              <th style={{ padding: '4px' }}>Re-renders / Wasted</th>
+              <th style={{ padding: '4px' }}>Instances</th>
+              <th style={{ padding: '4px' }}>Max per instance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ stats, rerenders, wastedRate, mostlyWasted }) => (
+              <tr
+                key={stats.componentId}
+                style={{ borderBottom: '1px solid #eee', backgroundColor: mostlyWasted ? '#fff3e0' : 'transparent' }}
+              >
+                <td style={{ padding: '4px' }}>
+                  <code>{`<${stats.component}>`}</code>
+                  <div style={{ color: '#666' }}>{stats.file.split('/').pop()}:{stats.line}</div>
+                  {mostlyWasted && (
+                    <div style={{ color: '#ef6c00' }}>⚠️ Most re-renders had unchanged props and state</div>
+                  )}
+                  {risks.filter(({ component }) => component === stats.component).map(renderRisk)}
+                </td>
+                <td style={{ padding: '4px' }}>
+                  {stats.renders}
+                  <div style={{ width: '80px', height: '4px', backgroundColor: '#e0e0e0', marginTop: '2px' }}>
+                    <div style={{ width: `${(stats.renders / peak) * 100}%`, height: '100%', backgroundColor: '#1976d2' }} />
+                  </div>
+                </td>
+                <td style={{ padding: '4px' }}>
+                  {rerenders} / {stats.wastedRenders}
+                  {rerenders > 0 && <span style={{ color: '#666' }}> ({(wastedRate * 100).toFixed(0)}%)</span>}
+                </td>
+                <td style={{ padding: '4px' }}>{stats.instances}</td>
+                <td style={{ padding: '4px' }}>{stats.maxInstanceRenders}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {unmatched.length > 0 && (
+        <div style={{ marginTop: '10px', fontSize: '12px' }}>
+          <h5 style={{ margin: '4px 0' }}>Render risks found at build time</h5>
+          {unmatched.map(renderRisk)}
+        </div>
+      )}
+      <div style={{ marginTop: '10px', fontSize: '11px', color: '#666' }}>
+        Wasted: re-renders whose props and state hook values were shallow-equal to the instance's previous render
+      </div>
+    </div>
+  )
+}
+
+export default RenderTable
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react'
+import { StateDiff, StateHistoryEntry } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface StateTimelineProps {
+  stateHistory: StateHistoryEntry[]
+  getStateAt?: (index: number) => StateHistoryEntry[]
+  diffStateHistory?: (from: number, to: number) => StateDiff | undefined
+  selectedComponent?: string
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined'
+  const text = JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 79)}…` : text
+}
+
+function formatOutcome(outcome: boolean | undefined): string {
+  return outcome === undefined ? 'not run' : outcome ? 'true' : 'false'
+}
+
+export const StateTimeline: React.FC<StateTimelineProps> = ({
+  stateHistory,
+  getStateAt,
+  diffStateHistory,
+  selectedComponent
+}) => {
+  // Entry indexes; `to` follows the latest entry until moved
+  const [from, setFrom] = useState<number | undefined>()
+  const [to, setTo] = useState<number | undefined>()
+
+  const first = stateHistory[0]?.index ?? 0
+  const last = stateHistory[stateHistory.length - 1]?.index ?? 0
+  const clamp = (index: number | undefined, fallback: number) => Math.min(last, Math.max(first, index ?? fallback))
+  const fromIndex = clamp(from, first)
+  const toIndex = clamp(to, last)
+  const toEntry = stateHistory[toIndex - first]
+
+  const diff = useMemo(
+    () => (fromIndex === toIndex ? undefined : diffStateHistory?.(fromIndex, toIndex)),
+    [stateHistory, fromIndex, toIndex, diffStateHistory]
+  )
+  const states = useMemo(() => getStateAt?.(toIndex) || [], [stateHistory, toIndex, getStateAt])
+
+  if (stateHistory.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No state recorded yet. Build with <code>recordStateHistory: true</code> to record useState and useReducer values.
+      </div>
+    )
+  }
+
+  const matches = (entry: Pick<StateHistoryEntry, 'owner'>) => !selectedComponent || getOwnerName(entry) === selectedComponent
+  const ownerOf = new Map(stateHistory.map(entry => [entry.instanceId, entry]))
+  const changes = diff?.changes.filter(change => matches(ownerOf.get(change.instanceId) || {})) || []
+  const branches = diff?.branches.filter(matches) || []
+
+  return (
+    <div className="state-timeline" style={{ fontSize: '12px' }}>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <span style={{ width: '40px', color: '#666' }}>From</span>
+        <input type="range" min={first} max={last} value={fromIndex} onChange={e => setFrom(Number(e.target.value))} style={{ flex: 1 }} />
+        <code style={{ width: '48px' }}>#{fromIndex}</code>
+      </div>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ width: '40px', color: '#666' }}>To</span>
+        <input type="range" min={first} max={last} value={toIndex} onChange={e => setTo(Number(e.target.value))} style={{ flex: 1 }} />
+        <code style={{ width: '48px' }}>#{toIndex}</code>
+      </div>
+
+      {toEntry && (
+        <div style={{ padding: '6px 8px', marginBottom: '12px', backgroundColor: '#f8f9fa', borderRadius: '4px' }}>
+          <strong>{toEntry.instanceId}</strong> <code>{toEntry.state}</code> ← <code>{formatValue(toEntry.value)}</code>
+          {toEntry.truncated && <span style={{ color: '#ef6c00' }}> (cut to size)</span>}
+          <span style={{ color: '#666' }}> · {toEntry.file.split('/').pop()}:{toEntry.line} · {new Date(toEntry.timestamp).toLocaleTimeString()}</span>
+        </div>
+      )}
+
+      {diff && (
+        <div style={{ display: 'flex', gap: '24px', flexWrap: 'wrap', marginBottom: '12px' }}>
+          <div style={{ flex: 1, minWidth: '240px' }}>
+            <h5 style={{ margin: '4px 0' }}>State changes #{fromIndex} → #{toIndex}</h5>
+            {changes.length === 0 && <div style={{ color: '#666' }}>None</div>}
+            {changes.map((change, index) => (
+              <div key={index} style={{ marginBottom: '2px' }}>
+                {change.instanceId} <code>{change.state}{change.path && (change.path.startsWith('[') ? '' : '.')}{change.path}</code>{' '}
+                {change.kind === 'added' && <span style={{ color: '#2e7d32' }}>+ <code>{formatValue(change.after)}</code></span>}
+                {change.kind === 'removed' && <span style={{ color: '#d32f2f' }}>− <code>{formatValue(change.before)}</code></span>}
+                {change.kind === 'changed' && <span><code>{formatValue(change.before)}</code> → <code>{formatValue(change.after)}</code></span>}
+              </div>
+            ))}
+            {diff.truncated && <div style={{ color: '#666' }}>More changes not listed</div>}
+          </div>
+          <div style={{ flex: 1, minWidth: '240px' }}>
+            <h5 style={{ margin: '4px 0' }}>Branches that changed outcome</h5>
+            {branches.length === 0 && <div style={{ color: '#666' }}>None</div>}
+            {branches.map(branch => (
+              <div key={branch.branchId} style={{ marginBottom: '2px' }}>
+                <code>{branch.condition}</code> {formatOutcome(branch.before)} → <strong>{formatOutcome(branch.after)}</strong>
+                <span style={{ color: '#666' }}>
+                  {' '}· {branch.file.split('/').pop()}:{branch.line}
+                  {getOwnerName(branch) && ` · <${getOwnerName(branch)}>`}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <h5 style={{ margin: '4px 0' }}>State at #{toIndex}</h5>
+      {states.filter(matches).map(entry => (
+        <div key={`${entry.instanceId}:${entry.siteId}`} style={{ borderBottom: '1px solid #eee', padding: '3px 0' }}>
+          {entry.instanceId} <code>{entry.state}</code> = <code>{formatValue(entry.value)}</code>
+          <span style={{ color: '#666' }}> · since #{entry.index}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default StateTimeline
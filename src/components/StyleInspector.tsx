@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react'
+import { StyleRuleMatch, StyleSite } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface StyleInspectorProps {
+  styleSites: StyleSite[]
+  inspectStyles?: (element: Element) => StyleRuleMatch[]
+}
+
+interface InspectedElement {
+  element: string
+  source?: string // trackVitals: `Component@file:line` of the JSX that wrote it
+  rules: StyleRuleMatch[]
+}
+
+// `button#save.primary`
+function describeElement(element: Element): string {
+  const id = element.id ? `#${element.id}` : ''
+  const classes = typeof element.className === 'string' && element.className.trim()
+    ? `.${element.className.trim().split(/\s+/).slice(0, 3).join('.')}`
+    : ''
+  return `${element.tagName.toLowerCase()}${id}${classes}`
+}
+
+function describeSite(site: StyleSite): string {
+  const factory = site.kind === 'css' ? 'css' : `styled(${site.target})`
+  return site.name ? `${site.name} = ${factory}` : factory
+}
+
+export const StyleInspector: React.FC<StyleInspectorProps> = ({ styleSites, inspectStyles }) => {
+  const [picking, setPicking] = useState(false)
+  const [inspected, setInspected] = useState<InspectedElement | undefined>()
+
+  // Inspector mode: outline the element under the pointer and inspect the one clicked, outside the panel
+  useEffect(() => {
+    if (!picking || !inspectStyles) return
+
+    let outlined: HTMLElement | undefined
+    let previousOutline = ''
+    const restoreOutline = () => {
+      if (outlined) outlined.style.outline = previousOutline
+      outlined = undefined
+    }
+    const isPanel = (target: EventTarget | null) => target instanceof Element && !!target.closest('.coverage-panel')
+
+    const handleMouseOver = (event: MouseEvent) => {
+      if (isPanel(event.target) || !(event.target instanceof HTMLElement)) return
+      restoreOutline()
+      outlined = event.target
+      previousOutline = outlined.style.outline
+      outlined.style.outline = '2px solid #1976d2'
+    }
+    const handleClick = (event: MouseEvent) => {
+      if (isPanel(event.target) || !(event.target instanceof Element)) return
+      event.preventDefault()
+      event.stopPropagation()
+      restoreOutline()
+      setInspected({
+        element: describeElement(event.target),
+        source: event.target.closest('[data-frontsense]')?.getAttribute('data-frontsense') || undefined,
+        rules: inspectStyles(event.target)
+      })
+      setPicking(false)
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setPicking(false)
+    }
+
+    document.addEventListener('mouseover', handleMouseOver, true)
+    document.addEventListener('click', handleClick, true)
+    document.addEventListener('keydown', handleKeyDown, true)
+    return () => {
+      restoreOutline()
+      document.removeEventListener('mouseover', handleMouseOver, true)
+      document.removeEventListener('click', handleClick, true)
+      document.removeEventListener('keydown', handleKeyDown, true)
+    }
+  }, [picking, inspectStyles])
+
+  if (!inspectStyles || styleSites.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No styled-components or Emotion call sites seen yet. Build with <code>traceStyles: true</code> to trace style rules to their call sites.
+      </div>
+    )
+  }
+
+  return (
+    <div className="style-inspector" style={{ fontSize: '12px' }}>
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center', marginBottom: '12px' }}>
+        <button
+          onClick={() => setPicking(!picking)}
+          style={{
+            padding: '4px 8px',
+            border: '1px solid #ccc',
+            borderRadius: '4px',
+            backgroundColor: picking ? '#1976d2' : 'white',
+            color: picking ? 'white' : 'black',
+            cursor: 'pointer'
+          }}
+        >
+          {picking ? 'Click an element… (Esc to cancel)' : '🎯 Inspect element'}
+        </button>
+        <span style={{ color: '#666' }}>{styleSites.length} call site{styleSites.length === 1 ? '' : 's'} traced</span>
+      </div>
+
+      {inspected && (
+        <div>
+          <div style={{ marginBottom: '8px' }}>
+            <code>{inspected.element}</code>
+            {inspected.source && <span style={{ color: '#666' }}> · written in {inspected.source.replace('@', ' at ')}</span>}
+            <span style={{ color: '#666' }}> · {inspected.rules.length} rule{inspected.rules.length === 1 ? '' : 's'}</span>
+          </div>
+
+          {inspected.rules.map((rule, index) => (
+            <div key={index} style={{ borderBottom: '1px solid #eee', padding: '6px 0', opacity: rule.pseudo ? 0.7 : 1 }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <code><strong>{rule.selector}</strong></code>
+                <span style={{ color: '#666' }}>
+                  {rule.media && `@media ${rule.media} · `}
+                  {rule.pseudo && 'state or pseudo-element · '}
+                  {rule.stylesheet.split('/').pop()}
+                </span>
+              </div>
+              <div style={{ color: '#333', fontFamily: 'monospace', padding: '2px 0 2px 12px' }}>{rule.declarations || '—'}</div>
+
+              {rule.sites.map(site => (
+                <div key={site.siteId} style={{ paddingLeft: '12px', color: '#666' }}>
+                  ← <code>{describeSite(site)}</code> · {site.file.split('/').pop()}:{site.line}
+                  {getOwnerName(site) && ` · <${getOwnerName(site)}>`}
+                  {rule.inferred && ' (shares a class with its rule)'}
+                </div>
+              ))}
+
+              {rule.calls.map(call => {
+                const site = rule.sites.find(candidate => candidate.siteId === call.siteId)
+                return (
+                  <div key={call.callId} style={{ paddingLeft: '24px', color: '#666' }}>
+                    <code>{site?.functions[call.index]?.code || `function ${call.index + 1}`}</code> → <code>{call.result}</code>
+                    {call.branches.map((branch, branchIndex) => (
+                      <div key={branchIndex} style={{ paddingLeft: '12px', color: branch.taken ? '#2e7d32' : '#ef6c00' }}>
+                        {branch.taken ? '✓' : '✗'} <code>{branch.condition}</code>
+                      </div>
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+
+          <div style={{ marginTop: '10px', fontSize: '11px', color: '#666' }}>
+            In stylesheet order: at equal specificity, later rules win
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default StyleInspector
@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react'
+import { SuspenseEpisode, SuspenseWaterfall } from '../types'
+import { getOwnerName } from '../utils/owners'
+
+interface SuspenseTimelineProps {
+  suspenseEpisodes: SuspenseEpisode[]
+  suspenseWaterfalls: SuspenseWaterfall[]
+  selectedFile?: string
+  selectedComponent?: string
+  maxEpisodes?: number
+}
+
+const describeEpisode = (episode: SuspenseEpisode) =>
+  `${getOwnerName(episode) ? `<${getOwnerName(episode)}> ` : ''}${episode.file.split('/').pop()}:${episode.line}`
+
+export const SuspenseTimeline: React.FC<SuspenseTimelineProps> = ({
+  suspenseEpisodes,
+  suspenseWaterfalls,
+  selectedFile,
+  selectedComponent,
+  maxEpisodes = 50
+}) => {
+  const matches = (episode: SuspenseEpisode) =>
+    (!selectedFile || episode.file === selectedFile) &&
+    (!selectedComponent || getOwnerName(episode) === selectedComponent)
+
+  const rows = useMemo(() => {
+    const episodes = suspenseEpisodes.slice(0, maxEpisodes).reverse()
+    const byId = new Map(episodes.map(episode => [episode.episodeId, episode]))
+
+    // Nesting depth: how many boundaries revealed this one in turn
+    const depthOf = (episode: SuspenseEpisode): number => {
+      const parent = episode.after ? byId.get(episode.after) : undefined
+      return parent ? depthOf(parent) + 1 : 0
+    }
+    return episodes.filter(matches).map(episode => ({ episode, depth: depthOf(episode) }))
+  }, [suspenseEpisodes, maxEpisodes, selectedFile, selectedComponent])
+
+  const waterfalls = suspenseWaterfalls.filter(waterfall => waterfall.episodes.some(matches))
+
+  if (rows.length === 0) {
+    return (
+      <div style={{ textAlign: 'center', padding: '40px', color: '#666' }}>
+        No Suspense boundaries have suspended yet. Build with <code>trackSuspense: true</code> to record fallbacks and what they waited on.
+      </div>
+    )
+  }
+
+  const now = performance.now()
+  const start = Math.min(...rows.map(row => row.episode.suspendedAt))
+  const end = Math.max(...rows.map(row => row.episode.resolvedAt ?? now))
+  const span = Math.max(1, end - start)
+
+  return (
+    <div className="suspense-timeline" style={{ fontSize: '12px' }}>
+      {waterfalls.map(waterfall => (
+        <div
+          key={waterfall.episodes[0].episodeId}
+          style={{ padding: '8px', marginBottom: '8px', backgroundColor: '#fff3e0', borderRadius: '4px' }}
+        >
+          <div style={{ color: '#ef6c00' }}>
+            ⚠️ {waterfall.episodes.length} nested boundaries loaded one after another: {waterfall.duration.toFixed(0)}ms,
+            {' '}{waterfall.parallelDuration.toFixed(0)}ms if their data loaded together
+          </div>
+          <div style={{ color: '#666' }}>{waterfall.episodes.map(describeEpisode).join(' → ')}</div>
+        </div>
+      ))}
+
+      {rows.map(({ episode, depth }) => {
+        const resolvedAt = episode.resolvedAt ?? now
+        return (
+          <div key={episode.episodeId} style={{ padding: '4px 0', paddingLeft: `${depth * 16}px`, borderBottom: '1px solid #eee' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <span>
+                {depth > 0 && '↳ '}<code>{`<Suspense fallback={${episode.fallback}}>`}</code>
+                <span style={{ color: '#666' }}> {describeEpisode(episode)}</span>
+              </span>
+              <span style={{ color: episode.resolvedAt === undefined ? '#1976d2' : '#666' }}>
+                {episode.resolvedAt === undefined ? 'suspended' : `${(resolvedAt - episode.suspendedAt).toFixed(0)}ms`}
+              </span>
+            </div>
+            <div style={{ position: 'relative', height: '6px', backgroundColor: '#eee', margin: '2px 0' }}>
+              <div style={{
+                position: 'absolute',
+                left: `${((episode.suspendedAt - start) / span) * 100}%`,
+                width: `${Math.max(0.5, ((resolvedAt - episode.suspendedAt) / span) * 100)}%`,
+                height: '100%',
+                backgroundColor: episode.after ? '#ef6c00' : '#1976d2'
+              }} />
+            </div>
+            {episode.waitedOn.length === 0 ? (
+              <div style={{ color: '#999' }}>Waited on a promise from uninstrumented code</div>
+            ) : (
+              episode.waitedOn.map((suspender, index) => (
+                <div key={index} style={{ color: '#666' }}>
+                  waited on <code>{suspender.code}</code> · {suspender.file.split('/').pop()}:{suspender.line}
+                  {getOwnerName(suspender) && ` · <${getOwnerName(suspender)}>`}
+                  {suspender.settledAt !== undefined && ` · ${(suspender.settledAt - suspender.startedAt).toFixed(0)}ms`}
+                  {suspender.rejected && <span style={{ color: '#d32f2f' }}> (rejected)</span>}
+                </div>
+              ))
+            )}
+          </div>
+        )
+      })}
+      <div style={{ marginTop: '10px', fontSize: '11px', color: '#666' }}>
+        Orange bars started suspending only when the boundary above them revealed its content
+      </div>
+    </div>
+  )
+}
+
+export default SuspenseTimeline
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { AsyncSite } from '../types'
+import { createAsyncIssue, createAsyncStats, isThenable, mergeAsyncStats } from './async'
+
+const SITE: AsyncSite = { siteId: 'src/User.tsx:async:a', kind: 'await', code: 'fetchUser(id)', file: 'src/User.tsx', line: 7, column: 20 }
+
+describe('isThenable', () => {
+  it('accepts promises and promise-likes only', () => {
+    expect(isThenable(Promise.resolve())).toBe(true)
+    expect(isThenable({ then() {} })).toBe(true)
+    expect(isThenable({ then: 1 })).toBe(false)
+    expect(isThenable(null)).toBe(false)
+  })
+})
+
+describe('async stats', () => {
+  it('describes an issue with the site it came from', () => {
+    const operation = { site: SITE, instance: {}, call: 1, startedAt: 5 }
+    expect(createAsyncIssue(operation, 'stale', 9)).toEqual({ ...SITE, issue: 'stale', startedAt: 5, settledAt: 9 })
+  })
+
+  it('adds counts when merging', () => {
+    const stats = { ...createAsyncStats(SITE), started: 2, settled: 2, stale: 1, timestamp: 4 }
+    expect(mergeAsyncStats(stats, { ...stats, afterUnmount: 1, timestamp: 8 })).toMatchObject({
+      started: 4, settled: 4, stale: 2, afterUnmount: 1, timestamp: 8
+    })
+  })
+})
@@ -0,0 +1,49 @@
+import { AsyncIssue, AsyncIssueKind, AsyncSite, AsyncStats } from '../types'
+
+// Issues kept for the panel; older ones are dropped first
+export const MAX_ASYNC_ISSUES = 200
+
+// One in-flight awaited value or promise chain
+export interface AsyncOperation {
+  site: AsyncSite
+  instance: object
+  call: number // Per instance and site, so a newer call can be told apart
+  startedAt: number
+}
+
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return !!value && (typeof value === 'object' || typeof value === 'function') && typeof (value as any).then === 'function'
+}
+
+export function createAsyncStats(site: AsyncSite): AsyncStats {
+  return {
+    ...site,
+    started: 0,
+    settled: 0,
+    rejected: 0,
+    afterUnmount: 0,
+    stale: 0,
+    timestamp: 0
+  }
+}
+
+export function createAsyncIssue(operation: AsyncOperation, issue: AsyncIssueKind, settledAt: number): AsyncIssue {
+  return {
+    ...operation.site,
+    issue,
+    startedAt: operation.startedAt,
+    settledAt
+  }
+}
+
+export function mergeAsyncStats(into: AsyncStats, from: AsyncStats): AsyncStats {
+  return {
+    ...into,
+    started: into.started + from.started,
+    settled: into.settled + from.settled,
+    rejected: into.rejected + from.rejected,
+    afterUnmount: into.afterUnmount + from.afterUnmount,
+    stale: into.stale + from.stale,
+    timestamp: Math.max(into.timestamp, from.timestamp)
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { createCausalEvent, describeEventTarget } from './causality'
+
+describe('createCausalEvent', () => {
+  it('gives every cause its own id', () => {
+    const first = createCausalEvent('event', 'click', 'button#save')
+    const second = createCausalEvent('async', 'loadCart')
+
+    expect(first).toMatchObject({ kind: 'event', label: 'click', target: 'button#save', updates: [], renders: [] })
+    expect(second).not.toHaveProperty('target')
+    expect(second.causeId).not.toBe(first.causeId)
+  })
+})
+
+describe('describeEventTarget', () => {
+  it('names targets that are not elements', () => {
+    expect(describeEventTarget(null)).toBeUndefined()
+    expect(describeEventTarget({ nodeName: '#document' } as any)).toBe('#document')
+    expect(describeEventTarget(new EventTarget())).toBe('EventTarget')
+  })
+})
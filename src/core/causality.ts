@@ -0,0 +1,45 @@
+import { CausalEvent, CauseKind } from '../types'
+
+// Causes kept for the panel; older ones are dropped first
+export const MAX_CAUSAL_EVENTS = 200
+
+// Renders this soon after a cause's last update are attributed to it
+export const RENDER_ATTRIBUTION_MS = 500
+
+let causeCounter = 0
+
+export function createCausalEvent(kind: CauseKind, label: string, target?: string): CausalEvent {
+  return {
+    causeId: `cause_${++causeCounter}`,
+    kind,
+    label,
+    ...(target && { target }),
+    timestamp: performance.now(),
+    updates: [],
+    renders: []
+  }
+}
+
+// `button#save.primary`, or the node name for non-elements
+export function describeEventTarget(target: EventTarget | null): string | undefined {
+  if (!target) return undefined
+  if (typeof Element === 'undefined' || !(target instanceof Element)) {
+    return (target as any).nodeName?.toLowerCase() || target.constructor?.name
+  }
+
+  const id = target.id ? `#${target.id}` : ''
+  const classes = typeof target.className === 'string' && target.className.trim()
+    ? `.${target.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+    : ''
+  return `${target.tagName.toLowerCase()}${id}${classes}`
+}
+
+/**
+ * The DOM event being dispatched right now, if any. React runs handlers
+ * inside the native event's dispatch, where `window.event` is set; code after
+ * an `await` or in a timer runs without one.
+ */
+export function getCurrentDomEvent(): Event | undefined {
+  const event = typeof window !== 'undefined' ? (window as any).event : undefined
+  return typeof Event !== 'undefined' && event instanceof Event ? event : undefined
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { collectChains } from './chains'
+
+describe('collectChains', () => {
+  it('follows `after` links from the first item to the last', () => {
+    const items = [
+      { id: 'c', after: 'b' },
+      { id: 'a' },
+      { id: 'b', after: 'a' },
+      { id: 'x' },
+      { id: 'y', after: 'gone' }
+    ]
+
+    expect(collectChains(items, item => item.id).map(chain => chain.map(item => item.id))).toEqual([['a', 'b', 'c']])
+  })
+
+  it('gives each branch of a fork its own chain', () => {
+    const items = [{ id: 'a' }, { id: 'b', after: 'a' }, { id: 'c', after: 'a' }]
+    expect(collectChains(items, item => item.id).map(chain => chain.map(item => item.id))).toEqual([['a', 'b'], ['a', 'c']])
+  })
+})
@@ -0,0 +1,22 @@
+/**
+ * Chains of two or more items linked by `after`, from the first item to one
+ * nothing else came after. Items whose link points outside the list start a
+ * chain themselves.
+ */
+export function collectChains<T extends { after?: string }>(items: T[], idOf: (item: T) => string): T[][] {
+  const byId = new Map(items.map(item => [idOf(item), item]))
+  const followed = new Set(items.map(item => item.after).filter(Boolean))
+
+  return items
+    .filter(item => !followed.has(idOf(item)))
+    .map(last => {
+      const chain = [last]
+      let previous = last.after ? byId.get(last.after) : undefined
+      while (previous) {
+        chain.unshift(previous)
+        previous = previous.after ? byId.get(previous.after) : undefined
+      }
+      return chain
+    })
+    .filter(chain => chain.length > 1)
+}
@@ -0,0 +1,14 @@
+import RuntimeCoverageCollector from './runtime-collector'
+import { RuntimeCoverageConfig } from '../types'
+
+declare global {
+  interface Window {
+    __RUNTIME_COVERAGE_CONFIG__?: RuntimeCoverageConfig
+  }
+}
+
+// The script the Vite plugin injects: this package's collector, bundled on its own and
+// started with the config the init script put on window
+if (typeof window !== 'undefined' && window.__RUNTIME_COVERAGE_CONFIG__) {
+  new RuntimeCoverageCollector(window.__RUNTIME_COVERAGE_CONFIG__)
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { getNativeEvent, isDefaultPrevented, isPropagationStopped } from './events'
+
+describe('getNativeEvent', () => {
+  it('unwraps React synthetic events', () => {
+    const native = new Event('click')
+    expect(getNativeEvent({ nativeEvent: native })).toBe(native)
+    expect(getNativeEvent(native)).toBe(native)
+    expect(getNativeEvent({ type: 'click' })).toBeUndefined()
+  })
+})
+
+describe('event flags', () => {
+  it('reads synthetic event methods before native properties', () => {
+    const synthetic = { isPropagationStopped: () => true, isDefaultPrevented: () => false, cancelBubble: false, defaultPrevented: true }
+    expect(isPropagationStopped(synthetic)).toBe(true)
+    expect(isDefaultPrevented(synthetic)).toBe(false)
+  })
+
+  it('falls back to the native flags', () => {
+    const event = new Event('submit', { cancelable: true })
+    event.stopPropagation()
+    event.preventDefault()
+    expect(isPropagationStopped(event)).toBe(true)
+    expect(isDefaultPrevented(event)).toBe(true)
+  })
+})
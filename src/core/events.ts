@@ -0,0 +1,49 @@
+import { EventTrace, HandlerCall, HandlerSite } from '../types'
+import { describeEventTarget } from './causality'
+
+// Events kept for the panel; older ones are dropped first
+export const MAX_EVENT_TRACES = 200
+
+// Branch outcomes kept per handler call, so a loop in a handler can't grow a trace without bound
+export const MAX_HANDLER_BRANCHES = 50
+
+let traceCounter = 0
+
+// React passes its synthetic event, which wraps the native one
+export function getNativeEvent(event: unknown): Event | undefined {
+  const native = (event as any)?.nativeEvent || event
+  return typeof Event !== 'undefined' && native instanceof Event ? native : undefined
+}
+
+export function createEventTrace(event: Event): EventTrace {
+  return {
+    traceId: `event_${++traceCounter}`,
+    type: event.type,
+    ...(describeEventTarget(event.target) && { target: describeEventTarget(event.target) }),
+    timestamp: performance.now(),
+    handlers: []
+  }
+}
+
+export function createHandlerCall(site: HandlerSite, event: any): HandlerCall {
+  const { column, ...details } = site
+  const currentTarget = describeEventTarget(event.currentTarget)
+  return {
+    ...details,
+    ...(currentTarget && { currentTarget }),
+    stoppedPropagation: false,
+    preventedDefault: false,
+    branches: [],
+    duration: 0,
+    timestamp: performance.now()
+  }
+}
+
+// Synthetic events expose their own flags; a native event sets cancelBubble on stopPropagation()
+export function isPropagationStopped(event: any): boolean {
+  return typeof event.isPropagationStopped === 'function' ? !!event.isPropagationStopped() : !!event.cancelBubble
+}
+
+export function isDefaultPrevented(event: any): boolean {
+  return typeof event.isDefaultPrevented === 'function' ? !!event.isDefaultPrevented() : !!event.defaultPrevented
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { HookSite } from '../types'
+import { createHookStats, deepEqual, mergeHookStats } from './hooks'
+
+const SITE: HookSite = { hookId: 'src/Cart.tsx:hook:a', hook: 'useEffect', file: 'src/Cart.tsx', line: 5, column: 2, dependencies: ['total', 'options'] }
+
+describe('deepEqual', () => {
+  it('compares objects, arrays, dates and maps by content', () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+    expect(deepEqual(new Date(5), new Date(5))).toBe(true)
+    expect(deepEqual(new Map([['a', 1]]), new Map([['a', 1]]))).toBe(true)
+    expect(deepEqual({ a: 1 }, { a: 2 })).toBe(false)
+    expect(deepEqual([1], { 0: 1 })).toBe(false)
+  })
+
+  it('treats recreated inline callbacks as equal', () => {
+    const make = () => (item: number) => item * 2
+    expect(deepEqual(make(), make())).toBe(true)
+  })
+
+  it('gives up on cyclic values instead of hanging', () => {
+    const a: any = {}
+    a.self = a
+    const b: any = {}
+    b.self = b
+    expect(deepEqual(a, b)).toBe(false)
+  })
+})
+
+describe('hook stats', () => {
+  it('starts with one entry per dependency', () => {
+    expect(createHookStats(SITE)).toMatchObject({
+      hookId: SITE.hookId,
+      runs: 0,
+      dependencies: [
+        { name: 'total', changes: 0, identityOnlyChanges: 0 },
+        { name: 'options', changes: 0, identityOnlyChanges: 0 }
+      ]
+    })
+  })
+
+  it('merges counts dependency by dependency', () => {
+    const stats = { ...createHookStats(SITE), runs: 3, suspectedLoops: 1 }
+    stats.dependencies[1] = { name: 'options', changes: 2, identityOnlyChanges: 2 }
+
+    expect(mergeHookStats(stats, stats)).toMatchObject({
+      runs: 6,
+      suspectedLoops: 2,
+      dependencies: [{ changes: 0 }, { changes: 4, identityOnlyChanges: 4 }]
+    })
+  })
+})
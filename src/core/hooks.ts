@@ -0,0 +1,71 @@
+import { HookSite, HookStats } from '../types'
+
+// An effect instance running this many times within the window is likely updating its own dependencies
+export const EFFECT_LOOP_RUNS = 20
+export const EFFECT_LOOP_WINDOW_MS = 1000
+
+const MAX_COMPARE_DEPTH = 5
+
+// What the previous call of one hook instance passed
+export interface HookSnapshot {
+  deps?: unknown[]
+  recentRuns: number[]
+}
+
+export function isEffectHook(site: HookSite): boolean {
+  return site.hook === 'useEffect' || site.hook === 'useLayoutEffect'
+}
+
+/**
+ * Structural equality for dependency values: arrays, plain objects, dates,
+ * maps and sets are compared by content, and functions by their source text
+ * (an inline callback recreated on each render). Bounded in depth, so deep or
+ * cyclic values compare unequal rather than hang.
+ */
+export function deepEqual(a: unknown, b: unknown, depth = 0): boolean {
+  if (Object.is(a, b)) return true
+  if (typeof a === 'function' && typeof b === 'function') return a.toString() === b.toString()
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+  if (depth >= MAX_COMPARE_DEPTH || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime()
+  if (a instanceof Map || a instanceof Set) {
+    const entriesA = Array.from(a.entries())
+    const entriesB = Array.from((b as Map<unknown, unknown> | Set<unknown>).entries())
+    return entriesA.length === entriesB.length && entriesA.every((entry, index) => deepEqual(entry, entriesB[index], depth + 1))
+  }
+
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  return keysA.length === keysB.length &&
+    keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && deepEqual((a as any)[key], (b as any)[key], depth + 1))
+}
+
+export function createHookStats(site: HookSite): HookStats {
+  const { dependencies, ...rest } = site
+  return {
+    ...rest,
+    runs: 0,
+    instances: 0,
+    dependencies: (dependencies || []).map(name => ({ name, changes: 0, identityOnlyChanges: 0 })),
+    withoutDependencies: false,
+    suspectedLoops: 0,
+    timestamp: 0
+  }
+}
+
+export function mergeHookStats(into: HookStats, from: HookStats): HookStats {
+  return {
+    ...into,
+    runs: into.runs + from.runs,
+    instances: into.instances + from.instances,
+    dependencies: into.dependencies.map((dependency, index) => ({
+      ...dependency,
+      changes: dependency.changes + (from.dependencies[index]?.changes || 0),
+      identityOnlyChanges: dependency.identityOnlyChanges + (from.dependencies[index]?.identityOnlyChanges || 0)
+    })),
+    withoutDependencies: into.withoutDependencies || from.withoutDependencies,
+    suspectedLoops: into.suspectedLoops + from.suspectedLoops,
+    timestamp: Math.max(into.timestamp, from.timestamp)
+  }
+}
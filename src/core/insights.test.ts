@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import { BranchHit, CausalEvent, HookStats, RenderRisk, RenderStats } from '../types'
+import { MAX_FINDINGS, formatFindings, summarizePerformance } from './insights'
+import { addTimingSample, createTimingStats } from './timing'
+
+const FILTERS = { functionName: 'Filters', kind: 'component' as const, component: 'Filters' }
+
+function renders(component: string, count: number, overrides: Partial<RenderStats> = {}): RenderStats {
+  return {
+    componentId: `src/${component}.tsx:render:a`, component, file: `src/${component}.tsx`, line: 3,
+    renders: count, wastedRenders: 0, instances: 1, maxInstanceRenders: count, lastRender: 0, ...overrides
+  }
+}
+
+function keystrokes(component: string, count: number): CausalEvent {
+  return {
+    causeId: 'cause_1', kind: 'event', label: 'input', timestamp: 0,
+    updates: [{
+      siteId: 'src/Filters.tsx:update:a', kind: 'useState', setter: 'setFilter', state: 'filter',
+      file: 'src/Filters.tsx', line: 44, owner: FILTERS, value: '"a"', timestamp: 0
+    }],
+    renders: [{ componentId: `src/${component}.tsx:render:a`, component, count }]
+  }
+}
+
+function hook(overrides: Partial<HookStats>): HookStats {
+  return {
+    hookId: 'src/Cart.tsx:hook:a', hook: 'useEffect', file: 'src/Cart.tsx', line: 9, column: 2,
+    owner: { functionName: 'Cart', kind: 'component', component: 'Cart' },
+    runs: 0, instances: 1, dependencies: [], withoutDependencies: false, suspectedLoops: 0, timestamp: 0, ...overrides
+  }
+}
+
+describe('summarizePerformance', () => {
+  it('names the state update and event behind most re-renders', () => {
+    const [finding] = summarizePerformance({
+      renderStats: [renders('ProductList', 312, { wastedRenders: 12 })],
+      causalEvents: [keystrokes('ProductList', 280)]
+    })
+
+    expect(finding).toMatchObject({ kind: 'render-cause', severity: 'high', component: 'ProductList', impact: 311 })
+    expect(finding.message).toBe(
+      'ProductList re-rendered 312 times; 280 were triggered by filter state changing on every keystroke at src/Filters.tsx:44'
+    )
+    expect(finding.evidence).toEqual(['12 of 311 re-renders had the same props and state'])
+  })
+
+  it('says when most re-renders changed nothing and folds in render risks for the component', () => {
+    const risk: RenderRisk = {
+      riskId: 'src/List.tsx:risk:a', kind: 'inline-prop', element: 'Row', prop: 'style', value: 'object', code: '{}',
+      file: 'src/List.tsx', line: 8, column: 4, message: 'style={{}} on <Row> is a new object every render'
+    }
+    const findings = summarizePerformance({ renderStats: [renders('Row', 41, { wastedRenders: 30 })], renderRisks: [risk] })
+
+    expect(findings).toHaveLength(1)
+    expect(findings[0].message).toBe('Row re-rendered 41 times; 30 of them had the same props and state as before')
+    expect(findings[0].evidence).toEqual(['style={{}} on <Row> is a new object every render (src/List.tsx:8)'])
+  })
+
+  it('ignores components with few re-renders and reports unrelated risks on their own', () => {
+    const risk: RenderRisk = {
+      riskId: 'src/Menu.tsx:risk:a', kind: 'unstable-key', element: 'li', prop: 'key', value: 'index', code: 'index',
+      file: 'src/Menu.tsx', line: 5, column: 6, message: 'key={index} on <li> is the list index'
+    }
+    const findings = summarizePerformance({ renderStats: [renders('Menu', 5)], renderRisks: [risk] })
+
+    expect(findings.map(finding => [finding.kind, finding.severity, finding.message])).toEqual([
+      ['render-risk', 'low', 'key={index} on <li> is the list index']
+    ])
+  })
+
+  it('reports effect loops, identity-only dependency changes and slow branch arms', () => {
+    const timing = createTimingStats()
+    for (let i = 0; i < 4; i++) addTimingSample(timing, 60)
+    const slow: BranchHit = {
+      branchId: 'src/Cart.tsx:if:a', file: 'src/Cart.tsx', line: 20, column: 4, type: 'if', condition: 'items.length > 0',
+      hitCount: 4, missCount: 0, timestamp: 0, timing, owner: { functionName: 'Cart', kind: 'component', component: 'Cart' },
+      arm: { kind: 'consequent', index: 0, parentBranchId: 'src/Cart.tsx:if:p' }
+    }
+
+    const findings = summarizePerformance({
+      branchStats: { [slow.branchId]: slow },
+      hookStats: [
+        hook({ runs: 60, suspectedLoops: 2, dependencies: [{ name: 'items', changes: 59, identityOnlyChanges: 0 }] }),
+        hook({ hookId: 'src/Cart.tsx:hook:b', hook: 'useMemo', line: 12, runs: 15, dependencies: [{ name: 'options', changes: 14, identityOnlyChanges: 14 }] })
+      ]
+    })
+
+    expect(findings.map(finding => [finding.kind, finding.severity])).toEqual([
+      ['effect-loop', 'high'],
+      ['slow-branch', 'high'],
+      ['unstable-dependency', 'medium']
+    ])
+    expect(findings[0].message).toBe('useEffect in Cart at src/Cart.tsx:9 ran in rapid bursts 2 times; it likely updates state one of its own dependencies reads')
+    expect(findings[1].message).toBe('The consequent arm of `items.length > 0` in Cart at src/Cart.tsx:20 took 240ms over 4 runs')
+    expect(findings[2].message).toBe('useMemo in Cart at src/Cart.tsx:12 re-ran 14 times because options got a new identity with the same value')
+  })
+
+  it('reports request waterfalls with what started each request', () => {
+    const initiator = { file: 'src/Profile.tsx', line: 14, owner: { functionName: 'Profile', kind: 'component' as const, component: 'Profile' } }
+    const [finding] = summarizePerformance({
+      fetchWaterfalls: [{
+        requests: [
+          { requestId: 'request_1', api: 'fetch', method: 'GET', url: '/api/user', startedAt: 0, endedAt: 300, initiator },
+          { requestId: 'request_2', api: 'fetch', method: 'GET', url: '/api/posts', startedAt: 300, endedAt: 700, after: 'request_1' }
+        ],
+        duration: 700,
+        parallelDuration: 400,
+        savings: 300
+      }]
+    })
+
+    expect(finding).toMatchObject({ kind: 'request-waterfall', severity: 'medium', file: 'src/Profile.tsx', line: 14, component: 'Profile' })
+    expect(finding.evidence).toEqual(['GET /api/user took 300ms, started in Profile at src/Profile.tsx:14', 'GET /api/posts took 400ms'])
+  })
+
+  it('orders findings by severity and caps their number', () => {
+    const stats = Array.from({ length: 30 }, (_, index) => renders(`C${index}`, 30 + index * 10))
+    const findings = summarizePerformance({ renderStats: stats })
+
+    expect(findings).toHaveLength(MAX_FINDINGS)
+    expect(findings.slice(0, 3).map(finding => finding.component)).toEqual(['C29', 'C28', 'C27'])
+    expect(findings.every((finding, index) => index === 0 || finding.impact <= findings[index - 1].impact)).toBe(true)
+    expect(summarizePerformance({ renderStats: stats }, 2)).toHaveLength(2)
+  })
+})
+
+describe('formatFindings', () => {
+  it('numbers findings and indents their evidence', () => {
+    const findings = summarizePerformance({ renderStats: [renders('List', 150, { instances: 2, maxInstanceRenders: 100 })] })
+    expect(formatFindings(findings)).toBe('1. [high] List re-rendered 150 times\n   - 2 instances; the busiest rendered 100 times')
+  })
+
+  it('says when nothing stood out', () => {
+    expect(formatFindings([])).toBe('Nothing stood out as slow in the data collected so far.')
+  })
+})
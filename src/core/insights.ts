@@ -0,0 +1,465 @@
+import {
+  BranchHit,
+  BranchStats,
+  CausalEvent,
+  EventTrace,
+  FetchWaterfall,
+  FindingKind,
+  FindingSeverity,
+  HandlerCall,
+  HookStats,
+  PerformanceFinding,
+  RenderRisk,
+  RenderStats,
+  StateUpdate,
+  SuspenseWaterfall,
+  VitalEntry
+} from '../types'
+import { getOwnerName } from '../utils/owners'
+
+// Findings returned by default, most severe first
+export const MAX_FINDINGS = 20
+
+// Re-renders after mount before a component is reported; from RERENDERS_HIGH on it's high severity
+export const MIN_RERENDERS = 20
+export const RERENDERS_HIGH = 100
+
+// Share of re-renders a single cause needs before it's named as the trigger
+export const CAUSE_SHARE = 0.25
+
+// Time spent in one branch arm across all runs (collectExecutionTime)
+export const SLOW_BRANCH_MS = 50
+export const SLOW_BRANCH_HIGH_MS = 200
+
+// Iterations of one loop pass
+export const HEAVY_LOOP_ITERATIONS = 1000
+
+// Re-runs caused by a dependency with a new identity but the same value
+export const IDENTITY_CHANGES = 10
+
+// Runs of an effect without a dependency array
+export const EFFECT_EVERY_RENDER_RUNS = 50
+
+// Time a waterfall would save if its requests or boundaries loaded together
+export const WATERFALL_SAVINGS_MS = 100
+export const WATERFALL_HIGH_MS = 500
+
+// Interaction to next paint (INP's "needs improvement" and "poor" thresholds)
+export const SLOW_INTERACTION_MS = 200
+export const SLOW_INTERACTION_HIGH_MS = 500
+
+// One handler call
+export const SLOW_HANDLER_MS = 50
+export const SLOW_HANDLER_HIGH_MS = 200
+
+// Long task time attributed to one component
+export const LONG_TASKS_HIGH_MS = 500
+
+// Events fired per keystroke in a text field
+const KEYSTROKE_EVENTS = ['input', 'change', 'keydown', 'keyup', 'keypress', 'beforeinput']
+
+const SEVERITY_ORDER: FindingSeverity[] = ['high', 'medium', 'low']
+
+// Within a severity, kinds that cost the user time directly come first
+const KIND_ORDER: FindingKind[] = [
+  'slow-interaction',
+  'request-waterfall',
+  'suspense-waterfall',
+  'effect-loop',
+  'long-task',
+  'slow-handler',
+  'render-cause',
+  'slow-branch',
+  'heavy-loop',
+  'unstable-dependency',
+  'effect-every-render',
+  'render-risk'
+]
+
+// What the summary reads: the collector's getters, or the same fields of exportData()
+export interface PerformanceData {
+  branchStats?: BranchStats
+  renderStats?: RenderStats[]
+  renderRisks?: RenderRisk[]
+  hookStats?: HookStats[]
+  causalEvents?: CausalEvent[]
+  eventTraces?: EventTrace[]
+  fetchWaterfalls?: FetchWaterfall[]
+  suspenseWaterfalls?: SuspenseWaterfall[]
+  vitalEntries?: VitalEntry[]
+}
+
+// The parts of `window.__RUNTIME_COVERAGE__` the summary reads; getters of features a build leaves out may be missing
+export interface PerformanceSource {
+  getBranchStats(): BranchStats
+  getRenderStats?(): RenderStats[]
+  getRenderRisks?(): RenderRisk[]
+  getHookStats?(): HookStats[]
+  getCausalEvents?(): CausalEvent[]
+  getEventTraces?(): EventTrace[]
+  getFetchWaterfalls?(): FetchWaterfall[]
+  getSuspenseWaterfalls?(): SuspenseWaterfall[]
+  getVitalEntries?(): VitalEntry[]
+}
+
+export function readPerformanceData(source: PerformanceSource): PerformanceData {
+  return {
+    branchStats: source.getBranchStats(),
+    renderStats: source.getRenderStats?.(),
+    renderRisks: source.getRenderRisks?.(),
+    hookStats: source.getHookStats?.(),
+    causalEvents: source.getCausalEvents?.(),
+    eventTraces: source.getEventTraces?.(),
+    fetchWaterfalls: source.getFetchWaterfalls?.(),
+    suspenseWaterfalls: source.getSuspenseWaterfalls?.(),
+    vitalEntries: source.getVitalEntries?.()
+  }
+}
+
+function formatMs(ms: number): string {
+  if (ms >= 1000) return `${(ms / 1000).toFixed(1)}s`
+  return ms < 10 ? `${ms.toFixed(1)}ms` : `${Math.round(ms)}ms`
+}
+
+function formatCount(count: number): string {
+  return count.toLocaleString('en-US')
+}
+
+function plural(count: number, noun: string, nouns = `${noun}s`): string {
+  return `${formatCount(count)} ${count === 1 ? noun : nouns}`
+}
+
+function at(site: { file: string; line: number }): string {
+  return `${site.file}:${site.line}`
+}
+
+function inOwner(site: Pick<BranchHit, 'owner'>): string {
+  const owner = getOwnerName(site)
+  return owner ? ` in ${owner}` : ''
+}
+
+// `filter state changing on every keystroke`, `setItems() in async loadProducts`
+function describeCause(update: StateUpdate, event: CausalEvent): string {
+  const what = update.state ? `${update.state} state changing` : `${update.setter}() calls`
+  if (event.kind === 'async') return `${what} in async ${event.label}`
+  return KEYSTROKE_EVENTS.includes(event.label) ? `${what} on every keystroke` : `${what} on ${event.label} events`
+}
+
+/**
+ * Components that re-rendered often, with the state update and event behind
+ * most of those renders (traceStateUpdates), how many changed nothing, and
+ * any build-time render risks for them (analyzeRenderRisks).
+ */
+function findRenderCauses(data: PerformanceData, risks: Map<string, RenderRisk[]>, reported: Set<string>): PerformanceFinding[] {
+  return (data.renderStats || []).flatMap(stats => {
+    const rerenders = stats.renders - stats.instances
+    if (rerenders < MIN_RERENDERS) return []
+
+    const causes = new Map<string, { count: number; update: StateUpdate; event: CausalEvent }>()
+    ;(data.causalEvents || []).forEach(event => {
+      const update = event.updates[0]
+      const count = event.renders
+        .filter(render => render.componentId === stats.componentId)
+        .reduce((sum, render) => sum + render.count, 0)
+      if (!update || count === 0) return
+      const key = `${update.siteId}\0${event.kind}\0${event.label}`
+      const cause = causes.get(key) || { count: 0, update, event }
+      cause.count += count
+      causes.set(key, cause)
+    })
+    const ranked = Array.from(causes.values()).sort((a, b) => b.count - a.count)
+    const top = ranked[0]
+    const named = !!top && top.count >= rerenders * CAUSE_SHARE
+    const mostlyWasted = !named && stats.wastedRenders * 2 >= rerenders
+
+    let message = `${stats.component} re-rendered ${plural(stats.renders, 'time')}`
+    if (named) {
+      message += `; ${formatCount(top.count)} were triggered by ${describeCause(top.update, top.event)} at ${at(top.update)}`
+    } else if (mostlyWasted) {
+      message += `; ${formatCount(stats.wastedRenders)} of them had the same props and state as before`
+    }
+
+    const componentRisks = risks.get(stats.component) || []
+    componentRisks.forEach(risk => reported.add(risk.riskId))
+    const evidence = [
+      ...ranked.slice(named ? 1 : 0, 3).map(cause =>
+        `${formatCount(cause.count)} followed ${describeCause(cause.update, cause.event)} at ${at(cause.update)}`
+      ),
+      ...(stats.wastedRenders > 0 && !mostlyWasted ? [`${formatCount(stats.wastedRenders)} of ${formatCount(rerenders)} re-renders had the same props and state`] : []),
+      ...(stats.instances > 1 ? [`${plural(stats.instances, 'instance')}; the busiest rendered ${plural(stats.maxInstanceRenders, 'time')}`] : []),
+      ...componentRisks.map(risk => `${risk.message} (${at(risk)})`)
+    ]
+
+    return [{
+      kind: 'render-cause',
+      severity: rerenders >= RERENDERS_HIGH ? 'high' : 'medium',
+      message,
+      evidence,
+      impact: rerenders,
+      file: stats.file,
+      line: stats.line,
+      component: stats.component
+    }]
+  })
+}
+
+// Branch arms that took the most time in total, and loops with the longest passes
+function findSlowBranches(data: PerformanceData): PerformanceFinding[] {
+  return Object.values(data.branchStats || {}).flatMap((branch): PerformanceFinding[] => {
+    const where = `${inOwner(branch)} at ${at(branch)}`
+    const location = { file: branch.file, line: branch.line, ...(getOwnerName(branch) && { component: getOwnerName(branch) }) }
+
+    if (branch.loop && branch.loop.maxIterations >= HEAVY_LOOP_ITERATIONS) {
+      const { loop } = branch
+      return [{
+        kind: 'heavy-loop',
+        severity: 'medium',
+        message: `The loop \`${branch.condition}\`${where} ran up to ${plural(loop.maxIterations, 'iteration')} in one pass`,
+        evidence: [`${plural(loop.totalIterations, 'iteration')} across ${plural(loop.executions, 'pass', 'passes')}`],
+        impact: loop.totalIterations,
+        ...location
+      }]
+    }
+
+    const timing = branch.timing
+    if (!timing || timing.total < SLOW_BRANCH_MS) return []
+    const arm = branch.arm ? `The ${branch.arm.kind} arm of \`${branch.condition}\`` : `\`${branch.condition}\``
+    return [{
+      kind: 'slow-branch',
+      severity: timing.total >= SLOW_BRANCH_HIGH_MS ? 'high' : 'medium',
+      message: `${arm}${where} took ${formatMs(timing.total)} over ${plural(timing.count, 'run')}`,
+      evidence: [`p50 ${formatMs(timing.p50)}, p90 ${formatMs(timing.p90)}, slowest ${formatMs(timing.max)}`],
+      impact: timing.total,
+      ...location
+    }]
+  })
+}
+
+// Effects that feed their own dependencies, dependencies that only change identity, and effects without deps
+function findHookIssues(data: PerformanceData): PerformanceFinding[] {
+  return (data.hookStats || []).flatMap((stats): PerformanceFinding[] => {
+    const where = `${stats.hook}${inOwner(stats)} at ${at(stats)}`
+    const location = { file: stats.file, line: stats.line, ...(getOwnerName(stats) && { component: getOwnerName(stats) }) }
+    const changed = stats.dependencies
+      .filter(dependency => dependency.changes > 0)
+      .sort((a, b) => b.changes - a.changes)
+      .map(dependency => `${dependency.name} changed in ${plural(dependency.changes, 'run')}`)
+
+    if (stats.suspectedLoops > 0) {
+      return [{
+        kind: 'effect-loop',
+        severity: 'high',
+        message: `${where} ran in rapid bursts ${plural(stats.suspectedLoops, 'time')}; it likely updates state one of its own dependencies reads`,
+        evidence: [`${plural(stats.runs, 'run')} in total`, ...changed.slice(0, 3)],
+        impact: stats.suspectedLoops,
+        ...location
+      }]
+    }
+
+    const identity = stats.dependencies
+      .filter(dependency => dependency.identityOnlyChanges >= IDENTITY_CHANGES)
+      .sort((a, b) => b.identityOnlyChanges - a.identityOnlyChanges)[0]
+    if (identity) {
+      return [{
+        kind: 'unstable-dependency',
+        severity: 'medium',
+        message: `${where} re-ran ${plural(identity.identityOnlyChanges, 'time')} because ${identity.name} got a new identity with the same value`,
+        evidence: [`${plural(stats.runs, 'run')} in total`, ...changed.slice(0, 3)],
+        impact: identity.identityOnlyChanges,
+        ...location
+      }]
+    }
+
+    if (stats.withoutDependencies && stats.runs >= EFFECT_EVERY_RENDER_RUNS) {
+      return [{
+        kind: 'effect-every-render',
+        severity: 'low',
+        message: `${where} has no dependency array, so it ran after every one of ${plural(stats.runs, 'render')}`,
+        evidence: [`${plural(stats.instances, 'instance')}`],
+        impact: stats.runs,
+        ...location
+      }]
+    }
+    return []
+  })
+}
+
+// Requests and Suspense boundaries that waited on each other for no reason
+function findWaterfalls(data: PerformanceData): PerformanceFinding[] {
+  const severity = (savings: number): FindingSeverity => savings >= WATERFALL_HIGH_MS ? 'high' : 'medium'
+
+  const requests = (data.fetchWaterfalls || [])
+    .filter(waterfall => waterfall.savings >= WATERFALL_SAVINGS_MS)
+    .map((waterfall): PerformanceFinding => {
+      const initiator = waterfall.requests.find(request => request.initiator)?.initiator
+      return {
+        kind: 'request-waterfall',
+        severity: severity(waterfall.savings),
+        message: `${waterfall.requests.length} requests ran one after another for ${formatMs(waterfall.duration)}, though none used the previous response; in parallel they'd take ${formatMs(waterfall.parallelDuration)}`,
+        evidence: waterfall.requests.map(request => {
+          const took = request.endedAt !== undefined ? ` took ${formatMs(request.endedAt - request.startedAt)}` : ' never finished'
+          return `${request.method} ${request.url}${took}${request.initiator ? `, started${inOwner(request.initiator)} at ${at(request.initiator)}` : ''}`
+        }),
+        impact: waterfall.savings,
+        ...(initiator && { file: initiator.file, line: initiator.line }),
+        ...(initiator && getOwnerName(initiator) && { component: getOwnerName(initiator) })
+      }
+    })
+
+  const boundaries = (data.suspenseWaterfalls || [])
+    .filter(waterfall => waterfall.savings >= WATERFALL_SAVINGS_MS)
+    .map((waterfall): PerformanceFinding => {
+      const first = waterfall.episodes[0]
+      return {
+        kind: 'suspense-waterfall',
+        severity: severity(waterfall.savings),
+        message: `${waterfall.episodes.length} Suspense boundaries showed their fallbacks one after another for ${formatMs(waterfall.duration)}; loading their data together would take ${formatMs(waterfall.parallelDuration)}`,
+        evidence: waterfall.episodes.map(episode => {
+          const waited = episode.resolvedAt !== undefined ? `waited ${formatMs(episode.resolvedAt - episode.suspendedAt)}` : 'is still waiting'
+          const on = episode.waitedOn.map(suspender => `\`${suspender.code}\``).join(', ')
+          return `<Suspense>${inOwner(episode)} at ${at(episode)} ${waited}${on ? ` on ${on}` : ''}`
+        }),
+        impact: waterfall.savings,
+        ...(first && { file: first.file, line: first.line }),
+        ...(first && getOwnerName(first) && { component: getOwnerName(first) })
+      }
+    })
+
+  return [...requests, ...boundaries]
+}
+
+// Slow interactions (INP) and long tasks, by the element and the components that ran during them
+function findSlowVitals(data: PerformanceData): PerformanceFinding[] {
+  const entries = data.vitalEntries || []
+
+  // The slowest interaction per element
+  const interactions = new Map<string, VitalEntry>()
+  entries
+    .filter(entry => entry.metric === 'inp' && entry.value >= SLOW_INTERACTION_MS)
+    .forEach(entry => {
+      const key = entry.element || ''
+      const slowest = interactions.get(key)
+      if (!slowest || entry.value > slowest.value) interactions.set(key, entry)
+    })
+
+  const slow = Array.from(interactions.values()).map((entry): PerformanceFinding => ({
+    kind: 'slow-interaction',
+    severity: entry.value >= SLOW_INTERACTION_HIGH_MS ? 'high' : 'medium',
+    message: `An interaction with ${entry.element || 'the page'} took ${formatMs(entry.value)} to paint its result`
+      + (entry.components.length > 0 ? `; ${entry.components.slice(0, 3).join(', ')} ran during it` : ''),
+    evidence: [
+      ...(entry.source ? [`${entry.element || 'The element'} is rendered${entry.source.component ? ` by ${entry.source.component}` : ''} at ${at(entry.source)}`] : []),
+      ...entry.branches.slice(0, 3).map(branch => `\`${branch.condition}\` was ${branch.taken ? 'taken' : 'skipped'} at ${at(branch)}`)
+    ],
+    impact: entry.value,
+    ...(entry.source && { file: entry.source.file, line: entry.source.line }),
+    ...(entry.components[0] && { component: entry.components[0] })
+  }))
+
+  const tasks = new Map<string, { count: number; total: number; longest: number }>()
+  entries.filter(entry => entry.metric === 'long-task' && entry.components.length > 0).forEach(entry => {
+    const group = tasks.get(entry.components[0]) || { count: 0, total: 0, longest: 0 }
+    group.count++
+    group.total += entry.duration
+    group.longest = Math.max(group.longest, entry.duration)
+    tasks.set(entry.components[0], group)
+  })
+
+  const blocking = Array.from(tasks.entries()).map(([component, group]): PerformanceFinding => ({
+    kind: 'long-task',
+    severity: group.total >= LONG_TASKS_HIGH_MS ? 'high' : 'medium',
+    message: `${plural(group.count, 'long task')} blocked the main thread for ${formatMs(group.total)} while ${component} was running`,
+    evidence: group.count > 1 ? [`The longest took ${formatMs(group.longest)}`] : [],
+    impact: group.total,
+    component
+  }))
+
+  return [...slow, ...blocking]
+}
+
+// Handlers whose synchronous work alone delayed the next frame (traceEvents)
+function findSlowHandlers(data: PerformanceData): PerformanceFinding[] {
+  // The slowest call per handler site, with the event it handled
+  const handlers = new Map<string, { call: HandlerCall; type: string; slow: number }>()
+  ;(data.eventTraces || []).forEach(trace => trace.handlers.forEach(call => {
+    if (call.duration < SLOW_HANDLER_MS) return
+    const previous = handlers.get(call.siteId)
+    const slowest = !previous || call.duration > previous.call.duration ? { call, type: trace.type } : previous
+    handlers.set(call.siteId, { ...slowest, slow: (previous?.slow || 0) + 1 })
+  }))
+
+  return Array.from(handlers.values()).map(({ call, slow, type }): PerformanceFinding => {
+    const handler = call.handler === '(inline)' ? `The inline ${call.prop} handler` : call.handler
+    return {
+      kind: 'slow-handler',
+      severity: call.duration >= SLOW_HANDLER_HIGH_MS ? 'high' : 'medium',
+      message: `${handler} on <${call.element}>${inOwner(call)} at ${at(call)} took ${formatMs(call.duration)} handling a ${type} event`,
+      evidence: [
+        `${plural(slow, 'call')} took over ${formatMs(SLOW_HANDLER_MS)}`,
+        ...call.branches.slice(0, 3).map(branch => `\`${branch.condition}\` was ${branch.taken ? 'taken' : 'skipped'}`)
+      ],
+      impact: call.duration,
+      file: call.file,
+      line: call.line,
+      ...(getOwnerName(call) && { component: getOwnerName(call) })
+    }
+  })
+}
+
+/**
+ * Ranked plain-English findings about what's slow and why, from whatever
+ * the build and session collected: re-renders and their causes, effect
+ * loops, request and Suspense waterfalls, slow interactions, handlers and
+ * branches, and build-time render risks. Rules only, so it runs offline and
+ * works on exported data as well as live stats. Findings are ordered by
+ * severity, then kind, then impact.
+ */
+export function summarizePerformance(data: PerformanceData, limit = MAX_FINDINGS): PerformanceFinding[] {
+  // A memoized child's props and keys concern the element; a provider value, the component rendering it
+  const risks = new Map<string, RenderRisk[]>()
+  ;(data.renderRisks || []).forEach(risk => {
+    const component = risk.kind === 'provider-value' ? getOwnerName(risk) : risk.element
+    if (component) risks.set(component, [...(risks.get(component) || []), risk])
+  })
+  const reported = new Set<string>()
+
+  const findings = [
+    ...findRenderCauses(data, risks, reported),
+    ...findSlowBranches(data),
+    ...findHookIssues(data),
+    ...findWaterfalls(data),
+    ...findSlowVitals(data),
+    ...findSlowHandlers(data),
+    ...(data.renderRisks || [])
+      .filter(risk => !reported.has(risk.riskId))
+      .map((risk): PerformanceFinding => ({
+        kind: 'render-risk',
+        severity: 'low',
+        message: risk.message,
+        evidence: [`Found at build time at ${at(risk)}`],
+        impact: 0,
+        file: risk.file,
+        line: risk.line,
+        ...(getOwnerName(risk) && { component: getOwnerName(risk) })
+      }))
+  ]
+
+  return findings
+    .sort((a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+      b.impact - a.impact
+    )
+    .slice(0, limit)
+}
+
+// Findings as numbered text, one line per finding and an indented line per piece of evidence
+export function formatFindings(findings: PerformanceFinding[]): string {
+  if (findings.length === 0) return 'Nothing stood out as slow in the data collected so far.'
+  return findings
+    .map((finding, index) => [
+      `${index + 1}. [${finding.severity}] ${finding.message}`,
+      ...finding.evidence.map(line => `   - ${line}`)
+    ].join('\n'))
+    .join('\n')
+}
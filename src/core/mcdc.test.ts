@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { DecisionVector } from '../types'
+import { analyzeConditions, vectorKey } from './mcdc'
+
+function vector(conditions: Array<boolean | null>, outcome: boolean, count = 1): DecisionVector {
+  return { conditions, outcome, count }
+}
+
+describe('analyzeConditions', () => {
+  it('shows a condition independent when flipping only it flips the outcome', () => {
+    // a && b
+    const vectors = [vector([true, true], true), vector([false, null], false), vector([true, false], false)]
+    const [a, b] = analyzeConditions(['a', 'b'], vectors)
+
+    expect(a).toMatchObject({ independent: true, trueCount: 2, falseCount: 1 })
+    expect(a.independencePair).toEqual([vectors[0], vectors[1]])
+    expect(b).toMatchObject({ independent: true, trueCount: 1, falseCount: 1 })
+  })
+
+  it('does not count pairs where another evaluated condition changed too', () => {
+    // a || b: (F,T) -> T and (T,-) -> T keep the outcome; (F,T) -> T vs (F,F) is missing
+    const vectors = [vector([true, null], true), vector([false, true], true, 3)]
+    const [a, b] = analyzeConditions(['a', 'b'], vectors)
+
+    expect(a.independent).toBe(false)
+    expect(b).toMatchObject({ independent: false, trueCount: 3, falseCount: 0 })
+    expect(b.independencePair).toBeUndefined()
+  })
+
+  it('reports conditions that never ran', () => {
+    expect(analyzeConditions(['a'], [])).toEqual([{ index: 0, condition: 'a', trueCount: 0, falseCount: 0, independent: false }])
+  })
+})
+
+describe('vectorKey', () => {
+  it('marks short-circuited conditions', () => {
+    expect(vectorKey([true, null, false], false)).toBe('T-F:F')
+  })
+})
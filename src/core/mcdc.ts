@@ -0,0 +1,56 @@
+import { ConditionCoverage, DecisionVector } from '../types'
+
+/**
+ * Two evaluations demonstrate that condition `index` independently affects the
+ * decision when that condition and the outcome both flip while every other
+ * condition evaluated in both runs kept its value. Conditions that were
+ * short-circuited in either run are masked, as usual for `&&`/`||` MC/DC.
+ */
+function showsIndependence(a: DecisionVector, b: DecisionVector, index: number): boolean {
+  const left = a.conditions[index]
+  const right = b.conditions[index]
+
+  if (left === null || right === null || left === undefined || right === undefined) return false
+  if (left === right || a.outcome === b.outcome) return false
+
+  return a.conditions.every((value, other) => {
+    if (other === index) return true
+    const otherValue = b.conditions[other]
+    return value === null || otherValue === null || value === otherValue
+  })
+}
+
+export function analyzeConditions(conditions: string[], vectors: DecisionVector[]): ConditionCoverage[] {
+  return conditions.map((condition, index) => {
+    let trueCount = 0
+    let falseCount = 0
+
+    vectors.forEach(vector => {
+      if (vector.conditions[index] === true) trueCount += vector.count
+      if (vector.conditions[index] === false) falseCount += vector.count
+    })
+
+    let independencePair: [DecisionVector, DecisionVector] | undefined
+    for (let i = 0; i < vectors.length && !independencePair; i++) {
+      for (let j = i + 1; j < vectors.length; j++) {
+        if (showsIndependence(vectors[i], vectors[j], index)) {
+          independencePair = [vectors[i], vectors[j]]
+          break
+        }
+      }
+    }
+
+    return {
+      index,
+      condition,
+      trueCount,
+      falseCount,
+      independent: !!independencePair,
+      ...(independencePair && { independencePair })
+    }
+  })
+}
+
+export function vectorKey(conditions: Array<boolean | null>, outcome: boolean): string {
+  return conditions.map(value => value === null ? '-' : value ? 'T' : 'F').join('') + `:${outcome ? 'T' : 'F'}`
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { BranchHit, BranchManifestEntry } from '../types'
+import { findMigrationTarget, mergeBranchHits } from './merge'
+import { addTimingSample, createTimingStats } from './timing'
+
+function branch(overrides: Partial<BranchHit> = {}): BranchHit {
+  return {
+    branchId: 'src/App.tsx:if:a',
+    file: 'src/App.tsx',
+    line: 4,
+    column: 2,
+    type: 'if',
+    condition: 'user.admin',
+    hitCount: 0,
+    missCount: 0,
+    timestamp: 0,
+    ...overrides
+  }
+}
+
+function timing(duration: number) {
+  const stats = createTimingStats()
+  addTimingSample(stats, duration)
+  return stats
+}
+
+describe('mergeBranchHits', () => {
+  it('adds counts and keeps the descriptive fields of the target', () => {
+    const merged = mergeBranchHits(
+      branch({ hitCount: 2, missCount: 1, timestamp: 5, tryEntries: 3, errorTypes: { TypeError: 1 } }),
+      branch({ line: 9, hitCount: 4, timestamp: 7, tryEntries: 1, errorTypes: { TypeError: 2, RangeError: 1 } })
+    )
+
+    expect(merged).toMatchObject({ line: 4, hitCount: 6, missCount: 1, timestamp: 7, tryEntries: 4 })
+    expect(merged.errorTypes).toEqual({ TypeError: 3, RangeError: 1 })
+  })
+
+  it('combines loop histograms and timing', () => {
+    const loop = (iterations: number, bucket: string) => ({
+      kind: 'for' as const, executions: 1, totalIterations: iterations, maxIterations: iterations, histogram: { [bucket]: 1 }
+    })
+    const merged = mergeBranchHits(
+      branch({ type: 'loop', loop: loop(3, '2-5'), timing: timing(2) }),
+      branch({ type: 'loop', loop: loop(4, '2-5'), timing: timing(6) })
+    )
+
+    expect(merged.loop).toEqual({ kind: 'for', executions: 2, totalIterations: 7, maxIterations: 4, histogram: { '2-5': 2 } })
+    expect(merged.timing).toMatchObject({ count: 2, mean: 4 })
+    expect(merged.executionTime).toBe(4)
+  })
+})
+
+describe('findMigrationTarget', () => {
+  const entry = (branchId: string, line: number, condition = 'user.admin'): BranchManifestEntry =>
+    ({ branchId, file: 'src/App.tsx', line, column: 2, type: 'if', condition })
+
+  it('picks the nearest unclaimed branch with the same condition', () => {
+    const candidates = [entry('far', 40), entry('near', 6), entry('other', 4, 'user.guest')]
+
+    expect(findMigrationTarget(branch({ condition: 'user .admin' }), candidates, new Set())?.branchId).toBe('near')
+    expect(findMigrationTarget(branch(), candidates, new Set(['near']))?.branchId).toBe('far')
+  })
+
+  it('only matches the same arm', () => {
+    const arm = { ...entry('arm', 4), arm: { kind: 'consequent' as const, index: 0, parentBranchId: 'a' } }
+    expect(findMigrationTarget(branch(), [arm], new Set())).toBeUndefined()
+  })
+})
@@ -0,0 +1,89 @@
+import { BranchHit, BranchManifestEntry } from '../types'
+import { normalizeCondition } from '../utils/branch-id'
+import { mergeTimingStats } from './timing'
+
+function sumCounts(into: Record<string, number> = {}, from: Record<string, number> = {}): Record<string, number> {
+  const sum = { ...into }
+  Object.entries(from).forEach(([key, count]) => {
+    sum[key] = (sum[key] || 0) + count
+  })
+  return sum
+}
+
+/**
+ * Adds the counts of `from` (e.g. another session or deploy) to `into`.
+ * Position, owner and other descriptive fields are kept from `into`.
+ */
+export function mergeBranchHits(into: BranchHit, from: BranchHit): BranchHit {
+  const merged: BranchHit = {
+    ...into,
+    hitCount: into.hitCount + from.hitCount,
+    missCount: into.missCount + from.missCount,
+    timestamp: Math.max(into.timestamp, from.timestamp)
+  }
+
+  if (into.fallThroughCount || from.fallThroughCount) {
+    merged.fallThroughCount = (into.fallThroughCount || 0) + (from.fallThroughCount || 0)
+  }
+  if (into.tryEntries || from.tryEntries) {
+    merged.tryEntries = (into.tryEntries || 0) + (from.tryEntries || 0)
+  }
+  if (into.errorTypes || from.errorTypes) {
+    merged.errorTypes = sumCounts(into.errorTypes, from.errorTypes)
+  }
+
+  if (!into.loop && from.loop) {
+    merged.loop = from.loop
+  } else if (into.loop && from.loop) {
+    merged.loop = {
+      ...into.loop,
+      executions: into.loop.executions + from.loop.executions,
+      totalIterations: into.loop.totalIterations + from.loop.totalIterations,
+      maxIterations: Math.max(into.loop.maxIterations, from.loop.maxIterations),
+      histogram: sumCounts(into.loop.histogram, from.loop.histogram)
+    }
+  }
+
+  if (from.scopes) {
+    merged.scopes = [...(into.scopes || []), ...from.scopes.filter(scope => !into.scopes?.includes(scope))]
+  }
+
+  if (!into.operandSamples && from.operandSamples) {
+    merged.operandSamples = from.operandSamples
+  }
+
+  if (!into.timing && from.timing) {
+    merged.timing = from.timing
+  } else if (into.timing && from.timing) {
+    merged.timing = mergeTimingStats(into.timing, from.timing)
+  }
+  if (merged.timing) {
+    merged.executionTime = merged.timing.mean
+  }
+
+  return merged
+}
+
+/**
+ * Finds the current branch an imported branch most likely became after a
+ * small edit: same file, type, normalized condition and arm position, nearest
+ * by line. Used when the imported id no longer exists.
+ */
+export function findMigrationTarget(
+  imported: BranchHit,
+  candidates: BranchManifestEntry[],
+  claimed: Set<string>
+): BranchManifestEntry | undefined {
+  const condition = normalizeCondition(imported.condition)
+
+  return candidates
+    .filter(entry =>
+      !claimed.has(entry.branchId) &&
+      entry.file === imported.file &&
+      entry.type === imported.type &&
+      normalizeCondition(entry.condition) === condition &&
+      entry.arm?.kind === imported.arm?.kind &&
+      entry.arm?.index === imported.arm?.index
+    )
+    .sort((a, b) => Math.abs(a.line - imported.line) - Math.abs(b.line - imported.line))[0]
+}
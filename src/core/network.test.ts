@@ -0,0 +1,220 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NetworkRequest } from '../types'
+import { createTestCollector } from '../test/helpers'
+import { NetworkObserver, RESPONSE_READ_TIMEOUT_MS, findWaterfalls, patchNetwork, usesResponse } from './network'
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function json(value: unknown): Response {
+  return new Response(JSON.stringify(value), { headers: { 'content-type': 'application/json' } })
+}
+
+// A body that has started but never ends, like an open server-sent event stream
+function openStream(contentType: string): Response {
+  const body = new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode('data: {"id":"42"}\n\n'))
+    }
+  })
+  return new Response(body, { headers: { 'content-type': contentType } })
+}
+
+// A fetch answering each URL with its route after `latency` ms; unknown URLs reject like a network error
+function mockFetch(routes: Record<string, () => Response>, latency = 5) {
+  return vi.fn(async (input: RequestInfo | URL) => {
+    await delay(latency)
+    const route = routes[String(input)]
+    if (!route) throw new TypeError('Failed to fetch')
+    return route()
+  })
+}
+
+function recordingObserver(ignored: string[] = []) {
+  const ends: Array<{ request: NetworkRequest; status?: number; failed: boolean; text: Promise<string | undefined> }> = []
+  const observer: NetworkObserver = {
+    ignore: url => ignored.includes(url),
+    start: (api, method, url) => ({ requestId: url, api, method, url, startedAt: 0 }),
+    end: (request, status, failed, text) => {
+      ends.push({ request, status, failed, text })
+    }
+  }
+  return { observer, ends }
+}
+
+function request(requestId: string, startedAt: number, endedAt: number, links: Partial<NetworkRequest> = {}): NetworkRequest {
+  return { requestId, api: 'fetch', method: 'GET', url: `/api/${requestId}`, startedAt, endedAt, ...links }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('patchNetwork', () => {
+  it('reports each fetch with its method, status and response text', async () => {
+    const fetch = mockFetch({ '/api/user': () => json({ id: 'u1' }) })
+    vi.stubGlobal('window', { fetch })
+    const { observer, ends } = recordingObserver()
+    const restore = patchNetwork(observer)
+
+    const response = await window.fetch('/api/user', { method: 'post' })
+    expect(await response.json()).toEqual({ id: 'u1' })
+    expect(ends).toHaveLength(1)
+    expect(ends[0].request).toMatchObject({ api: 'fetch', method: 'POST', url: '/api/user' })
+    expect(ends[0].status).toBe(200)
+    expect(await ends[0].text).toBe('{"id":"u1"}')
+
+    restore()
+    expect(window.fetch).toBe(fetch)
+  })
+
+  it('does not read non-text bodies', async () => {
+    vi.stubGlobal('window', {
+      fetch: mockFetch({ '/logo.png': () => new Response(new Uint8Array([137, 80]), { headers: { 'content-type': 'image/png' } }) })
+    })
+    const { observer, ends } = recordingObserver()
+    patchNetwork(observer)
+
+    await window.fetch('/logo.png')
+    expect(await ends[0].text).toBeUndefined()
+  })
+
+  it('does not wait for server-sent event streams to end', async () => {
+    vi.stubGlobal('window', { fetch: mockFetch({ '/api/events': () => openStream('text/event-stream') }) })
+    const { observer, ends } = recordingObserver()
+    patchNetwork(observer)
+
+    await window.fetch('/api/events')
+    expect(await ends[0].text).toBeUndefined()
+  })
+
+  it('gives up on a text body that is still streaming after the timeout', async () => {
+    vi.stubGlobal('window', { fetch: mockFetch({ '/api/log': () => openStream('text/plain') }, 0) })
+    const { observer, ends } = recordingObserver()
+    patchNetwork(observer)
+
+    vi.useFakeTimers()
+    const pending = window.fetch('/api/log')
+    await vi.advanceTimersByTimeAsync(0)
+    await pending
+    let text: string | undefined = 'unread'
+    ends[0].text.then(value => (text = value))
+    await vi.advanceTimersByTimeAsync(RESPONSE_READ_TIMEOUT_MS)
+    expect(text).toBeUndefined()
+  })
+
+  it('reports a rejected fetch as failed and still rejects for the app', async () => {
+    vi.stubGlobal('window', { fetch: mockFetch({}) })
+    const { observer, ends } = recordingObserver()
+    patchNetwork(observer)
+
+    await expect(window.fetch('/api/offline')).rejects.toThrow('Failed to fetch')
+    expect(ends[0]).toMatchObject({ status: undefined, failed: true })
+    expect(await ends[0].text).toBeUndefined()
+  })
+
+  it('skips ignored URLs', async () => {
+    vi.stubGlobal('window', { fetch: mockFetch({ '/manifest.json': () => json({}) }) })
+    const { observer, ends } = recordingObserver(['/manifest.json'])
+    patchNetwork(observer)
+
+    await window.fetch('/manifest.json')
+    expect(ends).toEqual([])
+  })
+})
+
+describe('usesResponse', () => {
+  const previous = request('team', 0, 10, { url: '/api/teams/77' })
+
+  it('matches a URL value that appears in the response as a JSON string', () => {
+    expect(usesResponse(['members', 'abc-123'], previous, '{"ownerId":"abc-123"}')).toBe(true)
+  })
+
+  it('matches a number only as a standalone value', () => {
+    expect(usesResponse(['42'], previous, '{"ownerId":42}')).toBe(true)
+    expect(usesResponse(['42'], previous, '{"ownerId":1420,"ratio":0.42}')).toBe(false)
+  })
+
+  it('ignores values the earlier request already had in its own URL', () => {
+    expect(usesResponse(['teams', '77'], previous, '{"id":77,"kind":"teams"}')).toBe(false)
+  })
+
+  it('assumes a dependency when the response could not be read', () => {
+    expect(usesResponse(['anything'], previous, undefined)).toBe(true)
+  })
+})
+
+describe('findWaterfalls', () => {
+  it('reports a chain of independent sequential requests with what running them in parallel saves', () => {
+    const user = request('user', 0, 100)
+    const settings = request('settings', 110, 200, { after: 'user' })
+    const feed = request('feed', 205, 300, { after: 'settings' })
+
+    const [waterfall] = findWaterfalls([user, settings, feed])
+    expect(waterfall.requests.map(r => r.requestId)).toEqual(['user', 'settings', 'feed'])
+    expect(waterfall.duration).toBe(300)
+    expect(waterfall.parallelDuration).toBe(100)
+    expect(waterfall.savings).toBe(200)
+  })
+
+  it('keeps the wait for responses a request uses', () => {
+    const user = request('user', 0, 100)
+    const settings = request('settings', 110, 200, { after: 'user' })
+    const team = request('team', 205, 300, { after: 'settings', dependsOn: ['user'] })
+
+    const [waterfall] = findWaterfalls([user, settings, team])
+    expect(waterfall.requests.map(r => r.requestId)).toEqual(['user', 'settings', 'team'])
+    expect(waterfall.parallelDuration).toBe(195)
+    expect(waterfall.savings).toBe(105)
+  })
+
+  it('ignores unfinished requests and chains with nothing to save', () => {
+    const user = request('user', 0, 100)
+    const orders = request('orders', 100, 200, { dependsOn: ['user'], after: 'user' })
+    const pending = { ...request('pending', 205, 0, { after: 'orders' }), endedAt: undefined }
+
+    expect(findWaterfalls([user, orders, pending])).toEqual([])
+  })
+})
+
+describe('network tracking in the collector', () => {
+  it('links each request to the one just before it, and to the responses it uses', async () => {
+    vi.stubGlobal('fetch', mockFetch({
+      '/api/user': () => json({ id: 'u1' }),
+      '/api/settings': () => json({ theme: 'dark' }),
+      '/api/users/u1/posts': () => json([])
+    }))
+    const collector = createTestCollector({ trackNetwork: true })
+
+    await fetch('/api/user')
+    await fetch('/api/settings')
+    await fetch('/api/users/u1/posts')
+    await delay(0)
+
+    const [posts, settings] = collector.getNetworkRequests()
+    expect(settings.after).toBe('request_1')
+    expect(posts.dependsOn).toEqual(['request_1'])
+    expect(posts.after).toBe('request_2')
+    expect(collector.getFetchWaterfalls()[0].requests.map(r => r.url)).toEqual(['/api/user', '/api/settings', '/api/users/u1/posts'])
+    collector.updateConfig({ trackNetwork: false })
+  })
+
+  it('still links requests made while an event stream is open', async () => {
+    vi.stubGlobal('fetch', mockFetch({
+      '/api/events': () => openStream('text/event-stream'),
+      '/api/user': () => json({ id: 'u1' }),
+      '/api/settings': () => json({ theme: 'dark' })
+    }))
+    const collector = createTestCollector({ trackNetwork: true })
+
+    await fetch('/api/events')
+    await fetch('/api/user')
+    await fetch('/api/settings')
+    await delay(0)
+
+    expect(collector.getNetworkRequests()[0]).toMatchObject({ url: '/api/settings', after: 'request_2' })
+    collector.updateConfig({ trackNetwork: false })
+  })
+})
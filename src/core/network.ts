@@ -0,0 +1,165 @@
+import { FetchWaterfall, NetworkApi, NetworkRequest } from '../types'
+import { collectChains } from './chains'
+
+// A request starting this soon after another one's response arrived is taken to have waited for it
+export const WATERFALL_GAP_MS = 100
+
+// Responses kept to tell whether a later request used them
+export const DEPENDENCY_WINDOW_MS = 5000
+
+// Requests kept for waterfall detection; older ones are dropped first
+export const MAX_NETWORK_REQUESTS = 500
+
+// Response text kept per request to tell whether a later request used it
+export const MAX_RESPONSE_SCAN = 64 * 1024
+
+// A response body still unread after this long (long polling, chunked streams) is skipped
+export const RESPONSE_READ_TIMEOUT_MS = 2000
+
+// Text content types whose bodies stay open as a stream, so reading them to the end never finishes
+const STREAMING_CONTENT_TYPE = /event-stream|ndjson|json-seq|x-mixed-replace/
+
+export interface NetworkObserver {
+  ignore(url: string): boolean
+  start(api: NetworkApi, method: string, url: string, body: unknown): NetworkRequest
+  // The response text resolves once the body has been read (fetch) or right away (XMLHttpRequest)
+  end(request: NetworkRequest, status: number | undefined, failed: boolean, responseText: Promise<string | undefined>): void
+}
+
+function readResponseText(response: Response): Promise<string | undefined> {
+  const type = response.headers.get('content-type') || ''
+  if (!/json|text|xml/.test(type) || STREAMING_CONTENT_TYPE.test(type)) return Promise.resolve(undefined)
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const text = response.clone().text().then(text => text.slice(0, MAX_RESPONSE_SCAN), () => undefined)
+  const timeout = new Promise<undefined>(resolve => {
+    timer = setTimeout(() => resolve(undefined), RESPONSE_READ_TIMEOUT_MS)
+  })
+  return Promise.race([text, timeout]).finally(() => clearTimeout(timer))
+}
+
+function readXhrText(xhr: XMLHttpRequest): string | undefined {
+  try {
+    return xhr.responseType === '' || xhr.responseType === 'text' ? xhr.responseText.slice(0, MAX_RESPONSE_SCAN) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Wraps `fetch` and `XMLHttpRequest` so the observer sees every request start
+ * and end. The app gets the original promise and response; fetch bodies are
+ * read from a clone. Returns a function that restores the originals.
+ */
+export function patchNetwork(observer: NetworkObserver): () => void {
+  const originalFetch = window.fetch
+  const XhrPrototype = typeof XMLHttpRequest !== 'undefined' ? XMLHttpRequest.prototype : undefined
+  const originalOpen = XhrPrototype?.open
+  const originalSend = XhrPrototype?.send
+  const xhrTargets = new WeakMap<XMLHttpRequest, { method: string; url: string }>()
+
+  if (originalFetch) {
+    window.fetch = function (this: unknown, input: RequestInfo | URL, init?: RequestInit) {
+      const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+      const promise = originalFetch.call(this, input, init)
+      if (observer.ignore(url)) return promise
+
+      const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase()
+      const request = observer.start('fetch', method, url, init?.body)
+      promise.then(
+        response => observer.end(request, response.status, false, readResponseText(response)),
+        () => observer.end(request, undefined, true, Promise.resolve(undefined))
+      )
+      return promise
+    } as typeof window.fetch
+  }
+
+  if (XhrPrototype && originalOpen && originalSend) {
+    XhrPrototype.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+      xhrTargets.set(this, { method: method.toUpperCase(), url: String(url) })
+      return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest)
+    } as typeof XhrPrototype.open
+
+    XhrPrototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+      const target = xhrTargets.get(this)
+      if (target && !observer.ignore(target.url)) {
+        const request = observer.start('xhr', target.method, target.url, body)
+        this.addEventListener('loadend', () => {
+          const failed = this.status === 0
+          observer.end(request, failed ? undefined : this.status, failed, Promise.resolve(failed ? undefined : readXhrText(this)))
+        })
+      }
+      return originalSend.call(this, body)
+    }
+  }
+
+  return () => {
+    if (originalFetch) window.fetch = originalFetch
+    if (XhrPrototype && originalOpen && originalSend) {
+      XhrPrototype.open = originalOpen
+      XhrPrototype.send = originalSend
+    }
+  }
+}
+
+/**
+ * Values in a request's URL path, query and string body that could have come
+ * from an earlier response: ids, slugs, cursors.
+ */
+export function getRequestTokens(url: string, body?: unknown): string[] {
+  let parsed: URL
+  try {
+    parsed = new URL(url, typeof location !== 'undefined' ? location.href : 'http://localhost')
+  } catch {
+    return []
+  }
+  const tokens = [
+    ...parsed.pathname.split('/').map(segment => decodeURIComponent(segment)),
+    ...Array.from(parsed.searchParams.values()),
+    ...(typeof body === 'string' ? body.split(/[^\w.@-]+/) : [])
+  ]
+  return Array.from(new Set(tokens.filter(token => token.length >= 2)))
+}
+
+/**
+ * Whether a request uses an earlier response: one of its tokens that the
+ * earlier request's own URL doesn't contain appears in that response as a
+ * JSON string or a standalone number. Errs towards "uses it", so a reported
+ * waterfall is one the requests' data doesn't explain.
+ */
+export function usesResponse(tokens: string[], previous: NetworkRequest, responseText: string | undefined): boolean {
+  // Without the response there's no telling, so assume the dependency
+  if (responseText === undefined) return true
+
+  const ownTokens = new Set(getRequestTokens(previous.url))
+  return tokens.some(token => {
+    if (ownTokens.has(token)) return false
+    if (responseText.includes(`"${token}"`)) return true
+    return /^\d+(\.\d+)?$/.test(token) && new RegExp(`(^|[^\\w.])${token.replace('.', '\\.')}($|[^\\w.])`).test(responseText)
+  })
+}
+
+/**
+ * Follows `after` links back from each request nothing else waited for,
+ * giving one waterfall per chain of two or more finished requests. The
+ * parallel duration replays the chain with each request starting as soon as
+ * the chain requests it uses (`dependsOn`) are done.
+ */
+export function findWaterfalls(requests: NetworkRequest[]): FetchWaterfall[] {
+  const finished = requests.filter(request => request.endedAt !== undefined)
+
+  return collectChains(finished, request => request.requestId)
+    .map(chain => {
+      const duration = chain[chain.length - 1].endedAt! - chain[0].startedAt
+      const start = chain[0].startedAt
+      const replayedEnds = new Map<string, number>()
+      chain.forEach(request => {
+        const ready = Math.max(start, ...(request.dependsOn || []).map(id => replayedEnds.get(id) ?? start))
+        replayedEnds.set(request.requestId, ready + request.endedAt! - request.startedAt)
+      })
+      const parallelDuration = Math.max(...replayedEnds.values()) - start
+      return { requests: chain, duration, parallelDuration, savings: duration - parallelDuration }
+    })
+    .filter(waterfall => waterfall.savings > 0)
+    .sort((a, b) => b.savings - a.savings)
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createTestConfig } from '../test/helpers'
+import {
+  DEFAULT_OPERAND_CAPTURE,
+  addOperandSample,
+  createOperandSamples,
+  formatOperandValue,
+  readOperand,
+  resolveOperandCapture
+} from './operands'
+
+describe('resolveOperandCapture', () => {
+  it('is off unless captureOperands is set', () => {
+    expect(resolveOperandCapture(createTestConfig())).toBeNull()
+    expect(resolveOperandCapture(createTestConfig({ captureOperands: true }))).toBe(DEFAULT_OPERAND_CAPTURE)
+  })
+
+  it('fills in the defaults an object leaves out', () => {
+    expect(resolveOperandCapture(createTestConfig({ captureOperands: { reservoirSize: 3 } }))).toEqual({
+      ...DEFAULT_OPERAND_CAPTURE,
+      reservoirSize: 3
+    })
+  })
+})
+
+describe('formatOperandValue', () => {
+  it('describes values without keeping them', () => {
+    class User {
+      constructor(public id: number, public name: string) {}
+    }
+    expect(formatOperandValue('pending', 60)).toBe('"pending"')
+    expect(formatOperandValue([1, 2], 60)).toBe('Array(2)')
+    expect(formatOperandValue(new User(1, 'Ada'), 60)).toBe('User {id, name}')
+    expect(formatOperandValue(new Map([[1, 2]]), 60)).toBe('Map(1)')
+    expect(formatOperandValue(undefined, 60)).toBe('undefined')
+    expect(formatOperandValue(function load() {}, 60)).toBe('[Function load]')
+  })
+
+  it('truncates long descriptions', () => {
+    expect(formatOperandValue('abcdefghij', 6)).toBe('"abcd…')
+  })
+})
+
+describe('readOperand', () => {
+  it('redacts names matching a pattern without calling the getter', () => {
+    const getter = vi.fn(() => 'hunter2')
+    expect(readOperand('user.passwordHash', getter, DEFAULT_OPERAND_CAPTURE)).toBe('[redacted]')
+    expect(getter).not.toHaveBeenCalled()
+  })
+
+  it('describes a getter that throws', () => {
+    const getter = () => {
+      throw new TypeError('boom')
+    }
+    expect(readOperand('user.name', getter, DEFAULT_OPERAND_CAPTURE)).toBe('[threw TypeError]')
+  })
+})
+
+describe('addOperandSample', () => {
+  it('keeps at most reservoirSize samples per outcome and counts every evaluation', () => {
+    const config = { ...DEFAULT_OPERAND_CAPTURE, reservoirSize: 2 }
+    const samples = createOperandSamples(['items.length'])
+    for (let i = 0; i < 50; i++) addOperandSample(samples, i % 5 !== 0, [() => i], config)
+
+    expect(samples.whenTrue).toMatchObject({ seen: 40 })
+    expect(samples.whenTrue.samples).toHaveLength(2)
+    expect(samples.whenFalse).toMatchObject({ seen: 10 })
+    expect(samples.whenFalse.samples.flat().every(value => Number(value) % 5 === 0)).toBe(true)
+  })
+
+  it('reads operands only for kept samples', () => {
+    const config = { ...DEFAULT_OPERAND_CAPTURE, reservoirSize: 1 }
+    const samples = createOperandSamples(['a'])
+    const getter = vi.fn(() => 1)
+    vi.spyOn(Math, 'random').mockReturnValue(0.99)
+
+    for (let i = 0; i < 5; i++) addOperandSample(samples, true, [getter], config)
+    expect(getter).toHaveBeenCalledTimes(1)
+    vi.restoreAllMocks()
+  })
+})
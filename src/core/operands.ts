@@ -0,0 +1,84 @@
+import { OperandCaptureConfig, OperandReservoir, OperandSamples, RuntimeCoverageConfig } from '../types'
+
+export const DEFAULT_OPERAND_CAPTURE: OperandCaptureConfig = {
+  reservoirSize: 10,
+  maxValueLength: 60,
+  redactPatterns: ['password', 'passwd', 'secret', 'token', 'auth', 'cookie', 'session', 'ssn', 'card', 'cvv', 'email', 'phone']
+}
+
+export function resolveOperandCapture(config: RuntimeCoverageConfig): OperandCaptureConfig | null {
+  if (!config.captureOperands) return null
+  return config.captureOperands === true
+    ? DEFAULT_OPERAND_CAPTURE
+    : { ...DEFAULT_OPERAND_CAPTURE, ...config.captureOperands }
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
+
+/**
+ * Turns a value into a short description. Samples never hold references, so
+ * they can't keep objects alive or leak their contents.
+ */
+export function formatOperandValue(value: unknown, maxLength: number): string {
+  if (typeof value === 'string') return truncate(JSON.stringify(value), maxLength)
+  if (typeof value === 'bigint') return `${value}n`
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`
+  if (typeof value === 'symbol') return truncate(value.toString(), maxLength)
+  if (value === null || typeof value !== 'object') return String(value)
+  if (Array.isArray(value)) return `Array(${value.length})`
+  if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+  if (value instanceof Map || value instanceof Set) return `${value.constructor.name}(${value.size})`
+
+  const keys = Object.keys(value)
+  const name = value.constructor?.name || 'Object'
+  return truncate(`${name} {${keys.slice(0, 3).join(', ')}${keys.length > 3 ? ', …' : ''}}`, maxLength)
+}
+
+// Formats a value unless its name matches a redact pattern; a getter that throws is described instead
+export function readOperand(name: string, getter: () => unknown, config: OperandCaptureConfig): string {
+  const lowerName = name.toLowerCase()
+  if (config.redactPatterns.some(pattern => lowerName.includes(pattern.toLowerCase()))) {
+    return '[redacted]'
+  }
+
+  try {
+    return formatOperandValue(getter(), config.maxValueLength)
+  } catch (error) {
+    return `[threw ${(error as any)?.constructor?.name || 'error'}]`
+  }
+}
+
+export function createOperandSamples(operands: string[]): OperandSamples {
+  return {
+    operands,
+    whenTrue: { seen: 0, samples: [] },
+    whenFalse: { seen: 0, samples: [] }
+  }
+}
+
+/**
+ * Reservoir sampling (algorithm R): every evaluation with a given outcome has
+ * the same chance of being among the kept samples, and the operands are only
+ * read when the evaluation is kept.
+ */
+export function addOperandSample(
+  samples: OperandSamples,
+  outcome: boolean,
+  getters: Array<() => unknown>,
+  config: OperandCaptureConfig
+) {
+  const reservoir: OperandReservoir = outcome ? samples.whenTrue : samples.whenFalse
+  reservoir.seen++
+
+  let slot = reservoir.samples.length
+  if (slot >= config.reservoirSize) {
+    slot = Math.floor(Math.random() * reservoir.seen)
+    if (slot >= config.reservoirSize) return
+  }
+
+  reservoir.samples[slot] = getters.map((getter, index) =>
+    readOperand(samples.operands[index] || `operand ${index + 1}`, getter, config)
+  )
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { RenderStats } from '../types'
+import { isRepeatedRender, isWastedRender, mergeRenderStats, shallowEqual } from './renders'
+
+describe('shallowEqual', () => {
+  it('compares own keys by identity', () => {
+    const items: string[] = []
+    expect(shallowEqual({ items, page: 1 }, { items, page: 1 })).toBe(true)
+    expect(shallowEqual({ items }, { items: [] })).toBe(false)
+    expect(shallowEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false)
+  })
+})
+
+describe('render classification', () => {
+  const previous = { props: { id: 1 }, state: [false], renders: 1 }
+
+  it('skips a StrictMode repeat that reuses the props object and state', () => {
+    expect(isRepeatedRender(previous, previous.props, [false])).toBe(true)
+    expect(isRepeatedRender(previous, { id: 1 }, [false])).toBe(false)
+    expect(isRepeatedRender(undefined, previous.props, [false])).toBe(false)
+  })
+
+  it('flags re-renders where props and state are shallow-equal to the last render', () => {
+    expect(isWastedRender(previous, { id: 1 }, [false])).toBe(true)
+    expect(isWastedRender(previous, { id: 2 }, [false])).toBe(false)
+    expect(isWastedRender(previous, { id: 1 }, [true])).toBe(false)
+    expect(isWastedRender(undefined, { id: 1 }, [false])).toBe(false)
+  })
+})
+
+describe('mergeRenderStats', () => {
+  it('adds counts and keeps the larger per-instance maximum', () => {
+    const stats: RenderStats = {
+      componentId: 'src/App.tsx:render:a', component: 'App', file: 'src/App.tsx', line: 3,
+      renders: 4, wastedRenders: 1, instances: 2, maxInstanceRenders: 3, lastRender: 10
+    }
+    expect(mergeRenderStats(stats, { ...stats, renders: 2, maxInstanceRenders: 2, lastRender: 20 })).toMatchObject({
+      renders: 6, wastedRenders: 2, instances: 4, maxInstanceRenders: 3, lastRender: 20
+    })
+  })
+})
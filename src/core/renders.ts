@@ -0,0 +1,49 @@
+import { RenderStats } from '../types'
+
+// What the previous render of one component instance saw
+export interface RenderSnapshot {
+  props: unknown
+  state: unknown[]
+  renders: number
+}
+
+export function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false
+
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  return keysA.length === keysB.length &&
+    keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is((a as any)[key], (b as any)[key]))
+}
+
+export function sameValues(a: unknown[], b: unknown[]): boolean {
+  return a.length === b.length && a.every((value, index) => Object.is(value, b[index]))
+}
+
+/**
+ * StrictMode renders each update twice with the very same props object and
+ * hook state. The repeat isn't a render the app caused, so it isn't counted.
+ */
+export function isRepeatedRender(previous: RenderSnapshot | undefined, props: unknown, state: unknown[]): boolean {
+  return !!previous && previous.props === props && sameValues(previous.state, state)
+}
+
+/**
+ * A re-render that could have been skipped: nothing the component reads from
+ * its props or state hooks changed since the instance last rendered.
+ */
+export function isWastedRender(previous: RenderSnapshot | undefined, props: unknown, state: unknown[]): boolean {
+  return !!previous && shallowEqual(previous.props, props) && sameValues(previous.state, state)
+}
+
+export function mergeRenderStats(into: RenderStats, from: RenderStats): RenderStats {
+  return {
+    ...into,
+    renders: into.renders + from.renders,
+    wastedRenders: into.wastedRenders + from.wastedRenders,
+    instances: into.instances + from.instances,
+    maxInstanceRenders: Math.max(into.maxInstanceRenders, from.maxInstanceRenders),
+    lastRender: Math.max(into.lastRender, from.lastRender)
+  }
+}
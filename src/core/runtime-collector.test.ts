@@ -0,0 +1,737 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createTestCollector, evaluate, instrument } from '../test/helpers'
+import {
+  AsyncSite,
+  HandlerSite,
+  HookSite,
+  StateHookSite,
+  StateUpdateSite,
+  SuspenderSite,
+  SuspenseBoundarySite
+} from '../types'
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('branch manifest', () => {
+  const CHECKOUT = `
+    function checkout(cart) {
+      if (cart.items.length === 0) return 'empty'
+      return cart.coupon ? 'discounted' : 'full price'
+    }
+  `
+
+  it('reports branches that never ran with zero counts', () => {
+    const collector = createTestCollector()
+    const { code, manifest } = instrument(CHECKOUT)
+    const checkout = evaluate(code, 'checkout')
+
+    const stats = collector.getBranchStats()
+    expect(Object.keys(stats).sort()).toEqual(manifest.map(entry => entry.branchId).sort())
+    expect(Object.values(stats).every(branch => branch.hitCount === 0 && branch.missCount === 0)).toBe(true)
+
+    checkout({ items: [] })
+    const ifBranch = manifest.find(entry => entry.type === 'if' && !entry.arm)!
+    const ternary = manifest.find(entry => entry.type === 'ternary' && !entry.arm)!
+    expect(collector.getBranchStats()[ifBranch.branchId]).toMatchObject({ hitCount: 1, missCount: 0, line: 3 })
+    expect(collector.getBranchStats()[ternary.branchId]).toMatchObject({ hitCount: 0, missCount: 0, line: 4 })
+  })
+
+  it('registers modules that loaded before the collector', () => {
+    vi.stubGlobal('window', globalThis)
+    delete (globalThis as any).__RUNTIME_COVERAGE_MANIFEST_QUEUE__
+    const { code, manifest } = instrument(CHECKOUT)
+    evaluate(code, 'checkout')
+
+    const collector = createTestCollector()
+    expect(Object.keys(collector.getBranchStats())).toHaveLength(manifest.length)
+  })
+
+  it('keeps runtime counts when the manifest arrives later', () => {
+    const collector = createTestCollector()
+    collector.recordBranchHit('src/App.jsx:if:a', 'if', 'user', true)
+    collector.loadManifest({
+      branches: [{ branchId: 'src/App.jsx:if:a', file: 'src/App.jsx', line: 3, column: 0, type: 'if', condition: 'user' }]
+    })
+
+    expect(collector.getBranchStats()['src/App.jsx:if:a']).toMatchObject({ hitCount: 1, missCount: 0 })
+  })
+})
+
+describe('per-arm coverage', () => {
+  // Hit counts of the arms of the given branch type, as `line kind: hits`
+  function armHits(collector: ReturnType<typeof createTestCollector>, type: string) {
+    return Object.values(collector.getBranchStats())
+      .filter(branch => branch.arm && branch.type === type)
+      .sort((a, b) => a.line - b.line || a.arm!.index - b.arm!.index)
+      .map(branch => `${branch.line} ${branch.arm!.kind}: ${branch.hitCount}`)
+  }
+
+  it('counts if arms separately, including an implicit else', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(`
+      function describe(user) {
+        if (user.admin) {
+          return 'admin'
+        } else if (user.guest) {
+          return 'guest'
+        }
+        return 'member'
+      }
+    `)
+    const describe = evaluate(code, 'describe')
+
+    describe({ admin: true })
+    describe({ guest: true })
+    describe({})
+    describe({})
+
+    expect(armHits(collector, 'if')).toEqual([
+      '3 consequent: 1',
+      '5 consequent: 1', // the else-if's own consequent
+      '5 alternate: 3',
+      '7 implicit-else: 2'
+    ])
+  })
+
+  it('counts ternary arms', () => {
+    const collector = createTestCollector()
+    const { code } = instrument('function sign(n) { return n < 0 ? -1 : 1 }')
+    const sign = evaluate(code, 'sign')
+
+    ;[-2, 3, 4].forEach(n => sign(n))
+    expect(armHits(collector, 'ternary')).toEqual(['1 consequent: 1', '1 alternate: 2'])
+  })
+
+  it('counts switch cases, the default and fall-through entries', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(`
+      function size(kind) {
+        let result = ''
+        switch (kind) {
+          case 'xl':
+            result += 'x'
+          case 'l':
+            result += 'l'
+            break
+          default:
+            result = 'm'
+        }
+        return result
+      }
+    `)
+    const size = evaluate(code, 'size')
+
+    expect(['xl', 'l', 's', 'l'].map(size)).toEqual(['xl', 'l', 'm', 'l'])
+    const arms = Object.values(collector.getBranchStats()).filter(branch => branch.arm)
+    const byIndex = Object.fromEntries(arms.map(branch => [branch.arm!.index, branch]))
+
+    expect(byIndex[0]).toMatchObject({ hitCount: 1, arm: { kind: 'case' } })
+    expect(byIndex[1]).toMatchObject({ hitCount: 3, fallThroughCount: 1, arm: { kind: 'case' } })
+    expect(byIndex[2]).toMatchObject({ hitCount: 1, arm: { kind: 'default' } })
+  })
+})
+
+describe('nullish guards', () => {
+  // [hitCount, missCount] by condition; a hit means the value was null or undefined
+  function outcomes(collector: ReturnType<typeof createTestCollector>) {
+    return Object.fromEntries(Object.values(collector.getBranchStats()).map(branch => [branch.condition, [branch.hitCount, branch.missCount]]))
+  }
+
+  it('counts short-circuits of ??, ?. and ??= without changing results', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(`
+      function title(post, options) {
+        options.count ??= 0
+        return (post?.author?.name ?? 'anonymous') + ' #' + options.count
+      }
+    `)
+    const title = evaluate(code, 'title')
+
+    expect(title({ author: { name: 'Ada' } }, { count: 2 })).toBe('Ada #2')
+    expect(title({}, {})).toBe('anonymous #0')
+    expect(title(null, {})).toBe('anonymous #0')
+
+    expect(outcomes(collector)).toEqual({
+      'options.count ??= 0': [2, 1],
+      "post?.author?.name ?? 'anonymous'": [2, 1],
+      'post?.author?.name': [2, 1],
+      'post?.author': [1, 2]
+    })
+  })
+
+  it('counts guards nested in branch conditions once per evaluation', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(`
+      function pick(o) {
+        if (o.a ?? 0) return o?.b ? 1 : 2
+        return 3
+      }
+    `)
+    const pick = evaluate(code, 'pick')
+
+    expect([pick({ a: 1, b: 1 }), pick({ a: 1 })]).toEqual([1, 2])
+    expect(outcomes(collector)).toMatchObject({
+      'o.a ?? 0': [0, 2],
+      'o?.b': [0, 2]
+    })
+  })
+
+  it('evaluates conditions with side effects once', () => {
+    createTestCollector()
+    const { code } = instrument(`
+      function drain(items) {
+        let i = 0
+        const seen = []
+        while (i < items.length) {
+          if (items[i++] > 0) seen.push(i)
+        }
+        return items.length > 0 && seen.shift() ? seen.length : -1
+      }
+    `)
+    const drain = evaluate(code, 'drain')
+
+    expect(drain([1, 2, 3])).toBe(2)
+    expect(drain([])).toBe(-1)
+  })
+
+  it('counts whether a parameter default was used', () => {
+    const collector = createTestCollector()
+    const { code } = instrument("function greet({ name = 'there' } = {}) { return 'Hi ' + name }")
+    const greet = evaluate(code, 'greet')
+
+    expect([greet({ name: 'Ada' }), greet({}), greet()]).toEqual(['Hi Ada', 'Hi there', 'Hi there'])
+    expect(outcomes(collector)).toEqual({
+      "name = 'there'": [2, 1],
+      "{ name = 'there' } = {}": [1, 2]
+    })
+  })
+})
+
+describe('loops', () => {
+  it('records entered and skipped loops with an iteration histogram', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(`
+      function total(rows) {
+        let sum = 0
+        for (let i = 0; i < rows.length; i++) {
+          if (rows[i] < 0) continue
+          sum += rows[i]
+        }
+        return sum
+      }
+    `)
+    const total = evaluate(code, 'total')
+
+    expect([total([]), total([1, -1, 2]), total(Array(30).fill(1))]).toEqual([0, 3, 30])
+    const loop = Object.values(collector.getBranchStats()).find(branch => branch.type === 'loop')!
+
+    expect(loop).toMatchObject({ hitCount: 2, missCount: 1 })
+    expect(loop.loop).toEqual({
+      kind: 'for',
+      executions: 3,
+      totalIterations: 33,
+      maxIterations: 30,
+      histogram: { '0': 1, '2-5': 1, '21-100': 1 }
+    })
+  })
+
+  it('keeps recursive runs of the same loop apart', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(`
+      function count(node) {
+        let nodes = 1
+        let i = 0
+        while (i < node.children.length) nodes += count(node.children[i++])
+        return nodes
+      }
+    `)
+    const count = evaluate(code, 'count')
+
+    expect(count({ children: [{ children: [] }, { children: [{ children: [] }] }] })).toBe(4)
+    const loop = Object.values(collector.getBranchStats()).find(branch => branch.type === 'loop')!
+    expect(loop.loop).toMatchObject({ kind: 'while', executions: 4, totalIterations: 3, maxIterations: 2 })
+  })
+
+  it('counts array callback iterations from the array length', () => {
+    const collector = createTestCollector()
+    const { code } = instrument('function names(users) { return users.filter(user => user).map(user => user.name) }')
+    const names = evaluate(code, 'names')
+
+    expect(names([{ name: 'a' }, null, { name: 'b' }])).toEqual(['a', 'b'])
+    const loops = Object.values(collector.getBranchStats()).filter(branch => branch.type === 'loop')
+    expect(loops.map(branch => [branch.loop!.kind, branch.loop!.totalIterations]).sort()).toEqual([
+      ['array-callback', 2],
+      ['array-callback', 3]
+    ])
+  })
+})
+
+describe('error paths', () => {
+  const LOAD = `
+    function load(raw) {
+      try {
+        if (!raw) throw new TypeError('empty')
+        return JSON.parse(raw)
+      } catch (error) {
+        return null
+      }
+    }
+  `
+
+  it('counts catch blocks against entries into their try block, by error type', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(LOAD)
+    const load = evaluate(code, 'load')
+
+    expect(['{"a":1}', '', '{oops', '[]'].map(load)).toEqual([{ a: 1 }, null, null, []])
+    const stats = Object.values(collector.getBranchStats())
+    const catchBranch = stats.find(branch => branch.type === 'catch')!
+    const throwSite = stats.find(branch => branch.type === 'throw')!
+
+    expect(catchBranch).toMatchObject({ hitCount: 2, missCount: 2, tryEntries: 4, errorTypes: { TypeError: 1, SyntaxError: 1 } })
+    expect(throwSite).toMatchObject({ hitCount: 1, errorTypes: { TypeError: 1 } })
+  })
+
+  it('reports a guarded block that never failed as an unreached catch', () => {
+    const collector = createTestCollector()
+    const { code } = instrument(LOAD)
+    evaluate(code, 'load')('{}')
+
+    const catchBranch = Object.values(collector.getBranchStats()).find(branch => branch.type === 'catch')!
+    expect(catchBranch).toMatchObject({ hitCount: 0, missCount: 1, tryEntries: 1 })
+  })
+})
+
+
+describe('renders', () => {
+  const ID = 'src/List.tsx:render:a'
+
+  it('counts renders per instance and flags wasted ones', () => {
+    const collector = createTestCollector()
+    const first = {}
+    const second = {}
+    const props = { items: [1] }
+
+    collector.recordRender(ID, 'List', 3, first, props, [false])
+    collector.recordRender(ID, 'List', 3, first, props, [false]) // StrictMode repeat
+    collector.recordRender(ID, 'List', 3, first, { items: props.items }, [false])
+    collector.recordRender(ID, 'List', 3, first, { items: [2] }, [false])
+    collector.recordRender(ID, 'List', 3, second, props, [true])
+
+    expect(collector.getRenderStats()).toEqual([
+      expect.objectContaining({ component: 'List', file: 'src/List.tsx', renders: 4, wastedRenders: 1, instances: 2, maxInstanceRenders: 3 })
+    ])
+    expect(collector.getExecutionSummary().mostRerenderedComponents).toEqual([
+      { component: 'List', file: 'src/List.tsx', line: 3, rerenders: 2, wastedRenders: 1, instances: 2 }
+    ])
+  })
+})
+
+describe('hook audit', () => {
+  const site = (hook: HookSite['hook'], dependencies?: string[]): HookSite =>
+    ({ hookId: `src/Cart.tsx:hook:${hook}`, hook, file: 'src/Cart.tsx', line: 5, column: 2, dependencies })
+
+  it('attributes re-runs to the dependencies that changed', () => {
+    const collector = createTestCollector()
+    const effect = site('useEffect', ['total', 'options'])
+    const instance = {}
+
+    collector.recordHookDeps(effect, instance, [1, { page: 1 }])
+    const options = { page: 1 }
+    collector.recordHookDeps(effect, instance, [1, options])
+    collector.recordHookDeps(effect, instance, [1, options]) // nothing changed, no run
+    expect(collector.recordHookDeps(effect, instance, [2, options])).toEqual([2, options])
+
+    expect(collector.getHookStats()[0]).toMatchObject({
+      runs: 3,
+      instances: 1,
+      dependencies: [
+        { name: 'total', changes: 1, identityOnlyChanges: 0 },
+        { name: 'options', changes: 1, identityOnlyChanges: 1 }
+      ]
+    })
+  })
+
+  it('flags hooks without a deps array', () => {
+    const collector = createTestCollector()
+    const memo = site('useMemo')
+    const instance = {}
+    collector.recordHookDeps(memo, instance, undefined)
+    collector.recordHookDeps(memo, instance, undefined)
+
+    expect(collector.getHookStats()[0]).toMatchObject({ runs: 2, withoutDependencies: true })
+  })
+
+  it('counts an effect that re-runs in a rapid burst as a suspected loop', () => {
+    const collector = createTestCollector()
+    const effect = site('useEffect', ['count'])
+    const instance = {}
+    for (let count = 0; count < 50; count++) collector.recordHookDeps(effect, instance, [count])
+
+    expect(collector.getHookStats()[0]).toMatchObject({ runs: 50, suspectedLoops: 1 })
+  })
+})
+
+describe('state update causes', () => {
+  const site = (setter: string, state?: string): StateUpdateSite => ({
+    siteId: `src/Cart.tsx:update:${setter}`, kind: 'useState', setter, state, file: 'src/Cart.tsx', line: 6, column: 4,
+    owner: { functionName: 'handleAdd', kind: 'handler', component: 'Cart', handler: 'handleAdd' }
+  })
+
+  it('groups the updates of one DOM event and the renders that followed', () => {
+    const collector = createTestCollector()
+    vi.stubGlobal('event', new Event('click'))
+
+    expect(collector.recordStateUpdate(site('setCount', 'count'), [2])).toEqual([2])
+    collector.recordStateUpdate(site('setOpen', 'open'), [true])
+    vi.stubGlobal('event', undefined)
+    collector.recordRender('src/Cart.tsx:render:a', 'Cart', 3, {}, {}, [2, true])
+
+    const [cause] = collector.getCausalEvents()
+    expect(collector.getCausalEvents()).toHaveLength(1)
+    expect(cause).toMatchObject({ kind: 'event', label: 'click', renders: [{ component: 'Cart', count: 1 }] })
+    expect(cause.updates.map(update => [update.state, update.value])).toEqual([['count', '2'], ['open', 'true']])
+  })
+
+  it('starts a new cause for each async callback', async () => {
+    const collector = createTestCollector()
+    collector.recordStateUpdate(site('setCount', 'count'), [1])
+    collector.recordStateUpdate(site('setOpen', 'open'), [false])
+    await Promise.resolve()
+    collector.recordStateUpdate(site('setCount', 'count'), [2])
+
+    expect(collector.getCausalEvents().map(cause => [cause.kind, cause.label, cause.updates.length])).toEqual([
+      ['async', 'handleAdd', 1],
+      ['async', 'handleAdd', 2]
+    ])
+  })
+})
+
+describe('async flow', () => {
+  const SITE: AsyncSite = { siteId: 'src/User.tsx:async:a', kind: 'await', code: 'fetchUser(id)', file: 'src/User.tsx', line: 7, column: 20 }
+
+  function deferred() {
+    let resolve!: (value: string) => void
+    const promise = new Promise<string>(done => { resolve = done })
+    return { promise, resolve }
+  }
+
+  it('flags results that arrive after the component unmounted', async () => {
+    const collector = createTestCollector()
+    const instance = {}
+    const unmount = collector.trackMount(instance)
+    const request = deferred()
+
+    expect(collector.trackAsync(SITE, instance, request.promise)).toBe(request.promise)
+    expect(collector.getPendingAsync()).toEqual([expect.objectContaining({ siteId: SITE.siteId, mounted: true })])
+    unmount()
+    request.resolve('user')
+    await request.promise
+
+    expect(collector.getPendingAsync()).toEqual([])
+    expect(collector.getAsyncStats()[0]).toMatchObject({ started: 1, settled: 1, afterUnmount: 1, stale: 0 })
+    expect(collector.getAsyncIssues()).toEqual([expect.objectContaining({ siteId: SITE.siteId, issue: 'after-unmount', line: 7 })])
+  })
+
+  it('flags a response superseded by a newer call from the same instance', async () => {
+    const collector = createTestCollector()
+    const instance = {}
+    collector.trackMount(instance)
+    const first = deferred()
+    const second = deferred()
+
+    collector.trackAsync(SITE, instance, first.promise)
+    collector.trackAsync(SITE, instance, second.promise)
+    second.resolve('new')
+    first.resolve('old')
+    await Promise.all([first.promise, second.promise])
+
+    expect(collector.getAsyncStats()[0]).toMatchObject({ started: 2, settled: 2, stale: 1, afterUnmount: 0 })
+    expect(collector.getAsyncIssues().map(issue => issue.issue)).toEqual(['stale'])
+  })
+
+  it('counts rejections and passes plain values through untracked', async () => {
+    const collector = createTestCollector()
+    const failing = Promise.reject(new Error('offline'))
+
+    expect(collector.trackAsync(SITE, {}, 42)).toBe(42)
+    collector.trackAsync(SITE, {}, failing)
+    await failing.catch(() => {})
+
+    expect(collector.getAsyncStats()[0]).toMatchObject({ started: 1, rejected: 1, afterUnmount: 0, stale: 0 })
+  })
+})
+
+describe('event traces', () => {
+  const site = (prop: string, element: string, handler: string): HandlerSite => ({
+    siteId: `src/Row.tsx:handler:${element}`, prop, element, handler, phase: 'bubble', file: 'src/Row.tsx', line: 4, column: 8
+  })
+
+  it('records the handlers one event reached in order, with the branches they took', () => {
+    const collector = createTestCollector()
+    const { code } = instrument('function open(row) { if (row.locked) return false; return true }')
+    const open = evaluate(code, 'open')
+    const onLink = collector.traceHandler(site('onClick', 'a', '(inline)'), (event: Event) => {
+      event.preventDefault()
+      open({ locked: true })
+    })
+    const onRow = collector.traceHandler(site('onClick', 'li', 'handleClick'), (event: Event) => event.stopPropagation())
+
+    const click = new Event('click', { cancelable: true })
+    onLink(click)
+    onRow(click)
+    onRow(new Event('click'))
+
+    const [second, first] = collector.getEventTraces()
+    expect(second.handlers).toHaveLength(1)
+    expect(first).toMatchObject({ type: 'click' })
+    expect(first.handlers.map(call => [call.element, call.preventedDefault, call.stoppedPropagation])).toEqual([
+      ['a', true, false],
+      ['li', false, true]
+    ])
+    expect(first.handlers[0].branches).toEqual([expect.objectContaining({ condition: '(row.locked)', taken: true })])
+    expect(first.handlers[1].branches).toEqual([])
+  })
+
+  it('passes through calls without an event and values that are not functions', () => {
+    const collector = createTestCollector()
+    const handler = collector.traceHandler(site('onSelect', 'li', 'select'), (id: number) => id * 2)
+
+    expect(handler(21)).toBe(42)
+    expect(collector.traceHandler(site('onClick', 'li', 'undefined'), undefined)).toBeUndefined()
+    expect(collector.getEventTraces()).toEqual([])
+  })
+})
+
+describe('suspense', () => {
+  const boundary = (siteId: string): SuspenseBoundarySite => ({ siteId, fallback: '<Spinner />', file: 'src/Page.tsx', line: 6, column: 4 })
+  const suspender: SuspenderSite = { siteId: 'src/Page.tsx:suspender:a', kind: 'use', code: 'use(dataPromise)', file: 'src/Page.tsx', line: 5, column: 2 }
+
+  it('records what a boundary waited on and links boundaries revealed by another', async () => {
+    const collector = createTestCollector()
+    const data = Promise.resolve('rows')
+
+    expect(collector.trackSuspender(suspender, data)).toBe(data)
+    const resolvePage = collector.recordSuspense(boundary('page'), {})
+    await data
+
+    // The page's content renders the chart's fallback in the same commit
+    resolvePage()
+    const resolveChart = collector.recordSuspense(boundary('chart'), {})
+    await Promise.resolve()
+    resolveChart()
+
+    const [chart, page] = collector.getSuspenseEpisodes()
+    expect(page.waitedOn).toEqual([expect.objectContaining({ kind: 'use', code: 'use(dataPromise)', settledAt: expect.any(Number) })])
+    expect(chart).toMatchObject({ siteId: 'chart', after: page.episodeId, waitedOn: [] })
+  })
+
+  it('keeps one episode across a StrictMode effect re-run', () => {
+    const collector = createTestCollector()
+    const instance = {}
+    collector.recordSuspense(boundary('page'), instance)()
+    collector.recordSuspense(boundary('page'), instance)
+
+    expect(collector.getSuspenseEpisodes()).toHaveLength(1)
+    expect(collector.getSuspenseEpisodes()[0].resolvedAt).toBeUndefined()
+  })
+})
+
+describe('web vitals', () => {
+  // Stands in for the browser's PerformanceObserver; `deliver` hands it entries of one type
+  class FakeObserver {
+    static supportedEntryTypes = ['largest-contentful-paint', 'layout-shift', 'event', 'longtask']
+    static observers: FakeObserver[] = []
+    type?: string
+    constructor(private callback: (list: { getEntries(): PerformanceEntry[] }) => void) {
+      FakeObserver.observers.push(this)
+    }
+    observe(options: { type: string }) {
+      this.type = options.type
+    }
+    disconnect() {
+      FakeObserver.observers = FakeObserver.observers.filter(observer => observer !== this)
+    }
+    static deliver(type: string, entry: object) {
+      FakeObserver.observers.filter(observer => observer.type === type).forEach(observer => observer.callback({ getEntries: () => [entry as PerformanceEntry] }))
+    }
+  }
+
+  it('attributes entries to the components and branches that ran just before', () => {
+    vi.stubGlobal('PerformanceObserver', FakeObserver)
+    const collector = createTestCollector({ trackVitals: true })
+    collector.recordRender('src/Hero.tsx:render:a', 'Hero', 3, {}, {}, [])
+    collector.recordBranchHit('src/Hero.tsx:if:a', 'if', 'img', true)
+
+    const now = performance.now()
+    FakeObserver.deliver('largest-contentful-paint', { startTime: now, duration: 0 })
+    FakeObserver.deliver('event', { startTime: now, duration: 60, interactionId: 7 })
+    FakeObserver.deliver('event', { startTime: now, duration: 120, interactionId: 7 })
+
+    const [interaction, paint] = collector.getVitalEntries()
+    expect(paint).toMatchObject({ metric: 'lcp', components: ['Hero'], branches: [{ branchId: 'src/Hero.tsx:if:a', taken: true, hits: 1 }] })
+    expect(interaction).toMatchObject({ metric: 'inp', value: 120, interactionId: 7 })
+    expect(collector.getVitalEntries()).toHaveLength(2)
+    expect(collector.getExecutionSummary().uxMetrics).toMatchObject({ lcp: now, inp: 120, cls: 0 })
+
+    collector.updateConfig({ trackVitals: false })
+    expect(FakeObserver.observers).toEqual([])
+  })
+})
+
+describe('style tracing', () => {
+  // styled-components stand-ins: a template keeps its interpolations so the test can call them
+  const FAKE_STYLED = 'const styled = { button: (strings, ...parts) => parts }; const css = styles => styles'
+
+  function instrumentStyles(source: string) {
+    const { code } = instrument(`import styled, { css } from 'styled-components'\n${source}`, { traceStyles: true })
+    return code.replace(/^import styled.*$/m, FAKE_STYLED)
+  }
+
+  it('records each distinct outcome of a style function with the branches it took', () => {
+    const collector = createTestCollector()
+    const parts = evaluate(instrumentStyles(`
+      const Button = styled.button\`
+        color: \${props => props.primary ? 'white' : 'black'};
+      \`
+    `), 'Button')
+    const [color, marker] = parts
+
+    expect([color({ primary: true }), marker()]).toEqual(['white', ';--frontsense-' + collector.getStyleSites()[0].marker + '-0:1;'])
+    expect([color({ primary: false }), marker()]).toEqual(['black', expect.stringMatching(/-0:2;$/)])
+    color({ primary: true })
+    expect(marker()).toMatch(/-0:1;$/)
+
+    const [site] = collector.getStyleSites()
+    expect(site).toMatchObject({ kind: 'styled', target: 'button', name: 'Button', functions: [{ marked: true }] })
+  })
+
+  it('marks the results of style functions passed to css()', () => {
+    const collector = createTestCollector()
+    const toolbar = evaluate(instrumentStyles('const toolbar = css(({ dense }) => dense ? { padding: 2 } : { padding: 8 })'), 'toolbar')
+    const { marker } = collector.getStyleSites()[0]
+
+    expect(toolbar({ dense: true })).toEqual({ padding: 2, [`--frontsense-${marker}`]: '1', [`--frontsense-${marker}-0`]: '1' })
+  })
+})
+
+describe('coverage scopes', () => {
+  const owner = (component: string) => ({ functionName: component, kind: 'component' as const, component })
+  const entry = (branchId: string, component: string) =>
+    ({ branchId, file: 'src/App.tsx', line: 3, column: 0, type: 'if' as const, condition: branchId, owner: owner(component) })
+
+  function scopedCollector(scopeMode?: 'tag' | 'limit') {
+    const collector = createTestCollector({ trackScopes: true, scopeMode })
+    collector.loadManifest({ branches: [entry('total', 'Checkout'), entry('user', 'Header')] })
+    return collector
+  }
+
+  it('tags branches with the scopes their component renders under', () => {
+    const collector = scopedCollector()
+    collector.enterScope(['app', 'checkout'], 'Checkout')
+    collector.recordBranchHit('total', 'if', 'total', true)
+    collector.enterScope(null, 'Header')
+    collector.recordBranchHit('user', 'if', 'user', true)
+    // A handler of Checkout, run after Header rendered
+    collector.recordBranchHit('total', 'if', 'total', false)
+
+    expect(collector.getBranchStats().total).toMatchObject({ hitCount: 1, missCount: 1, scopes: ['app', 'checkout'] })
+    expect(collector.getBranchStats().user.scopes).toBeUndefined()
+    expect(collector.getScopes()).toEqual([
+      { name: 'app', enabled: true, components: ['Checkout'] },
+      { name: 'checkout', enabled: true, components: ['Checkout'] }
+    ])
+  })
+
+  it('stops tagging with a scope turned off at runtime', () => {
+    const collector = scopedCollector()
+    expect(collector.scope('checkout', false)).toEqual([{ name: 'checkout', enabled: false, components: [] }])
+
+    collector.enterScope(['checkout'], 'Checkout')
+    collector.recordBranchHit('total', 'if', 'total', true)
+    expect(collector.getBranchStats().total).toMatchObject({ hitCount: 1 })
+    expect(collector.getBranchStats().total.scopes).toBeUndefined()
+  })
+
+  it("records only branches under an enabled scope in 'limit' mode", () => {
+    const collector = scopedCollector('limit')
+    collector.enterScope(['checkout'], 'Checkout')
+    collector.recordBranchHit('total', 'if', 'total', true)
+    collector.enterScope(null, 'Header')
+    collector.recordBranchHit('user', 'if', 'user', true)
+
+    expect(collector.getBranchStats().total.hitCount).toBe(1)
+    expect(collector.getBranchStats().user.hitCount).toBe(0)
+
+    collector.scope('checkout', false)
+    collector.enterScope(['checkout'], 'Checkout')
+    collector.recordBranchHit('total', 'if', 'total', true)
+    expect(collector.getBranchStats().total.hitCount).toBe(1)
+  })
+})
+
+describe('state history', () => {
+  const site: StateHookSite = {
+    siteId: 'src/Wizard.tsx:state:step', hook: 'useState', state: 'step', file: 'src/Wizard.tsx', line: 4, column: 8,
+    owner: { functionName: 'Wizard', kind: 'component', component: 'Wizard' }
+  }
+
+  it('records the values each instance renders with, skipping repeats', () => {
+    const collector = createTestCollector({ recordStateHistory: true })
+    const first = {}
+    const state = { step: 1 }
+    collector.recordState(site, first, state)
+    collector.recordState(site, first, state)
+    collector.recordState(site, {}, { step: 1 })
+    state.step = 2 // Mutating after recording doesn't change the copy
+
+    expect(collector.getStateHistory().map(entry => [entry.index, entry.instanceId, entry.value])).toEqual([
+      [0, 'Wizard#1', { step: 1 }],
+      [1, 'Wizard#2', { step: 1 }]
+    ])
+  })
+
+  it('diffs the states at two points with the branch outcomes that changed', () => {
+    const collector = createTestCollector({ recordStateHistory: true })
+    const instance = {}
+    collector.recordState(site, instance, { step: 1, items: [] })
+    collector.recordBranchHit('src/Wizard.tsx:if:a', 'if', 'items.length', false)
+    collector.recordState(site, instance, { step: 2, items: ['a'] })
+    collector.recordBranchHit('src/Wizard.tsx:if:a', 'if', 'items.length', true)
+
+    expect(collector.getStateAt(0).map(entry => entry.value)).toEqual([{ step: 1, items: [] }])
+    expect(collector.diffStateHistory(0, 1)).toEqual({
+      from: 0,
+      to: 1,
+      changes: [
+        { instanceId: 'Wizard#1', state: 'step', siteId: site.siteId, path: 'step', kind: 'changed', before: 1, after: 2 },
+        { instanceId: 'Wizard#1', state: 'step', siteId: site.siteId, path: 'items[0]', kind: 'added', after: 'a' }
+      ],
+      branches: [expect.objectContaining({ branchId: 'src/Wizard.tsx:if:a', condition: 'items.length', before: false, after: true })]
+    })
+    expect(collector.diffStateHistory(0, 9)).toBeUndefined()
+  })
+
+  it('records nothing unless recordStateHistory is on', () => {
+    const collector = createTestCollector()
+    collector.recordState(site, {}, 1)
+    expect(collector.getStateHistory()).toEqual([])
+  })
+})
+
+describe('render risks', () => {
+  it('keeps the risks modules register across clearStats', () => {
+    const collector = createTestCollector()
+    const { code } = instrument('function List({ items }) { return <ul>{items.map((item, i) => <li key={i}>{item}</li>)}</ul> }', {
+      analyzeRenderRisks: true,
+      onRenderRisks: () => {}
+    })
+    // Only the registration runs; the component itself needs React
+    new Function(code.slice(0, code.indexOf('function List')))()
+
+    collector.clearStats()
+    expect(collector.getRenderRisks()).toEqual([expect.objectContaining({ kind: 'unstable-key', prop: 'key', value: 'index' })])
+  })
+})
@@ -1,21 +1,222 @@
-import { BranchHit, BranchStats, SamplingConfig, AnalyticsEvent, RuntimeCoverageConfig } from '../types'
+import { createFileMatcher } from '../utils/glob'
+import { getOwnerName } from '../utils/owners'
+import { analyzeConditions, vectorKey } from './mcdc'
+import { AsyncOperation, MAX_ASYNC_ISSUES, createAsyncIssue, createAsyncStats, isThenable, mergeAsyncStats } from './async'
+import { MAX_SUSPENSE_EPISODES, findSuspenseWaterfalls, nextEpisodeId } from './suspense'
+import {
+  MAX_STYLE_CALLS,
+  collectPageRules,
+  createCallMarker,
+  describeDeclarations,
+  describeStyleResult,
+  getSelectorClasses,
+  markStyleResult,
+  matchRule,
+  readStyleMarkers
+} from './styles'
+import { MAX_STATE_CHANGES, MAX_STATE_HISTORY, cloneState, diffValues, getLatestStates, getOutcomesAt } from './state-history'
+import {
+  ActivityLog,
+  MAX_VITAL_ATTRIBUTION,
+  MAX_VITAL_ENTRIES,
+  VitalReading,
+  createActivityLog,
+  findElementSource,
+  logActivity,
+  observeVitals,
+  readActivity,
+  readVitalEntry,
+  summarizeVitals
+} from './vitals'
+import {
+  MAX_EVENT_TRACES,
+  MAX_HANDLER_BRANCHES,
+  createEventTrace,
+  createHandlerCall,
+  getNativeEvent,
+  isDefaultPrevented,
+  isPropagationStopped
+} from './events'
+import {
+  DEPENDENCY_WINDOW_MS,
+  MAX_NETWORK_REQUESTS,
+  WATERFALL_GAP_MS,
+  findWaterfalls,
+  getRequestTokens,
+  patchNetwork,
+  usesResponse
+} from './network'
+import { MAX_CAUSAL_EVENTS, RENDER_ATTRIBUTION_MS, createCausalEvent, describeEventTarget, getCurrentDomEvent } from './causality'
+import { EFFECT_LOOP_RUNS, EFFECT_LOOP_WINDOW_MS, HookSnapshot, createHookStats, deepEqual, isEffectHook, mergeHookStats } from './hooks'
+import { findMigrationTarget, mergeBranchHits } from './merge'
+import { DEFAULT_OPERAND_CAPTURE, addOperandSample, createOperandSamples, readOperand, resolveOperandCapture } from './operands'
+import { RenderSnapshot, isRepeatedRender, isWastedRender, mergeRenderStats } from './renders'
+import { addTimingSample, createTimingStats } from './timing'
+import {
+  AsyncIssue,
+  AsyncIssueKind,
+  AsyncSite,
+  AsyncStats,
+  BranchArmKind,
+  BranchHit,
+  BranchStats,
+  BranchManifest,
+  BranchManifestEntry,
+  CausalEvent,
+  CoverageScopeInfo,
+  DecisionVector,
+  EventTrace,
+  FetchWaterfall,
+  HandlerBranch,
+  HandlerCall,
+  HandlerSite,
+  HookSite,
+  HookStats,
+  LoopKind,
+  McdcReport,
+  NetworkApi,
+  NetworkRequest,
+  OperandCaptureConfig,
+  PendingAsync,
+  RenderRisk,
+  RenderStats,
+  RequestInitiator,
+  SamplingConfig,
+  SkippedFile,
+  StateChange,
+  StateDiff,
+  StateHistoryEntry,
+  StateHookSite,
+  StateUpdateSite,
+  StyleCall,
+  StyleRuleMatch,
+  StyleSite,
+  SuspendedOn,
+  SuspenderSite,
+  SuspenseBoundarySite,
+  SuspenseEpisode,
+  SuspenseWaterfall,
+  UxMetrics,
+  VitalBranch,
+  VitalEntry,
+  VitalMetric,
+  AnalyticsEvent,
+  RuntimeCoverageConfig
+} from '../types'
+
+// Upper bounds (inclusive) of the iteration-count histogram buckets
+const ITERATION_BUCKETS: Array<[number, string]> = [
+  [0, '0'],
+  [1, '1'],
+  [5, '2-5'],
+  [20, '6-20'],
+  [100, '21-100'],
+  [1000, '101-1000'],
+  [Infinity, '1000+']
+]
+
+function getIterationBucket(iterations: number): string {
+  return ITERATION_BUCKETS.find(([max]) => iterations <= max)![1]
+}
 
 class RuntimeCoverageCollector {
   private branchStats: BranchStats = {}
+  private manifestEntries: Record<string, BranchManifestEntry> = {}
+  private skippedFiles: Record<string, SkippedFile> = {}
+  private renderRisks: Record<string, RenderRisk> = {}
+  private getSkipReason: (file: string) => SkippedFile | undefined
+  private operandCapture: OperandCaptureConfig | null
   private samplingConfig: SamplingConfig
   private config: RuntimeCoverageConfig
   private sampleCounter = 0
   private lastSampleTime = 0
+  private pendingFallThrough: string | null = null
+  private pendingDefaultParams = new Set<string>()
+  private openDecisions: Record<string, Array<boolean | null>> = {}
+  private decisionVectors: Record<string, Record<string, DecisionVector>> = {}
+  private loopFrames: Record<string, number[]> = {}
+  private renderStats: Record<string, RenderStats> = {}
+  // Keyed by the ref each tracked component instance holds, so unmounted instances are collected
+  private renderInstances = new WeakMap<object, RenderSnapshot>()
+  private hookStats: Record<string, HookStats> = {}
+  private hookInstances = new WeakMap<object, HookSnapshot>()
+  private causalEvents: CausalEvent[] = []
+  private eventCauses = new WeakMap<Event, CausalEvent>()
+  private asyncCause: CausalEvent | null = null
+  // The cause renders are attributed to, until `until`
+  private renderCause: { cause: CausalEvent; until: number } | null = null
+  private asyncStats: Record<string, AsyncStats> = {}
+  private pendingAsync = new Set<AsyncOperation>()
+  private asyncIssues: AsyncIssue[] = []
+  private unmountedInstances = new WeakSet<object>()
+  // Latest call number per instance and site
+  private asyncCalls = new WeakMap<object, Record<string, number>>()
+  private eventTraces: EventTrace[] = []
+  private eventTraceByEvent = new WeakMap<Event, EventTrace>()
+  // Traced handlers running right now, innermost last
+  private activeHandlers: HandlerCall[] = []
+  private networkRequests: NetworkRequest[] = []
+  // Response text of requests that ended within the dependency window
+  private recentResponses = new Map<NetworkRequest, Promise<string | undefined>>()
+  // trackNetwork: the branch that ran last in the current synchronous task
+  private lastBranchId: string | undefined
+  private requestCounter = 0
+  private restoreNetwork?: () => void
+  private suspenseEpisodes: SuspenseEpisode[] = []
+  // Pending promises that may suspend a boundary, until a fallback shows
+  private unclaimedSuspenders: SuspendedOn[] = []
+  private trackedSuspenders = new WeakSet<object>()
+  // Fallback instance -> the episode it is showing for
+  private openEpisodes = new WeakMap<object, SuspenseEpisode>()
+  private resolvedThisCommit: SuspenseEpisode[] = []
+  private vitalEntries: VitalEntry[] = []
+  // trackVitals: recent renders and branch outcomes, while the observers run
+  private vitalsActivity: ActivityLog | null = null
+  private vitalCounter = 0
+  private stopVitals?: () => void
+  // traceStyles: call sites by marker, and style function outcomes by signature and id
+  private styleSites: Record<string, StyleSite> = {}
+  private styleCalls = new Map<string, StyleCall>()
+  private styleCallsById: Record<string, StyleCall> = {}
+  // Latest outcome per site and function, for the marker that follows it in the template
+  private lastStyleCalls: Record<string, StyleCall> = {}
+  // Branches of the style functions running right now, innermost last
+  private activeStyleCalls: HandlerBranch[][] = []
+  // trackScopes: <CoverageScope>s by name, and every scope each component has rendered under
+  private scopes: Record<string, CoverageScopeInfo> = {}
+  private componentScopes: Record<string, string[]> = {}
+  // The component that entered its render last, and its scopes
+  private renderingScope: { component: string; scopes: string[] } | null = null
+  // recordStateHistory: recorded values, and the branch outcomes seen after each (same order)
+  private stateHistory: StateHistoryEntry[] = []
+  private historyOutcomes: Array<Record<string, boolean>> = []
+  // Latest outcomes from before the oldest entry kept
+  private baseOutcomes: Record<string, boolean> = {}
+  private stateHistoryCounter = 0
+  // Instance ref -> `Owner#n` and the values it last recorded, by site
+  private stateInstances = new WeakMap<object, { instanceId: string; values: Record<string, unknown> }>()
+  private instanceCounters: Record<string, number> = {}
   private sessionId: string
   
   constructor(config: RuntimeCoverageConfig) {
     this.config = config
     this.samplingConfig = config.sampling
+    this.getSkipReason = createFileMatcher(config)
+    this.operandCapture = resolveOperandCapture(config)
     this.sessionId = this.generateSessionId()
     
     // Initialize global interface
     this.initializeGlobalInterface()
+    this.drainManifestQueue()
     
+    // Seed never-reached branches from the build-time manifest
+    if (config.manifestUrl) {
+      this.fetchManifest(config.manifestUrl)
+    }
+    
+    this.syncNetworkTracking()
+    this.syncVitalsTracking()
+
     // Set up periodic analytics sending
     if (config.sendToAnalytics && config.analyticsEndpoint) {
       this.startAnalyticsReporting()
@@ -29,20 +230,165 @@ class RuntimeCoverageCollector {
   private initializeGlobalInterface() {
     ;(window as any).__RUNTIME_COVERAGE__ = {
       recordBranchHit: this.recordBranchHit.bind(this),
+      recordArmHit: this.recordArmHit.bind(this),
+      recordFallThrough: this.recordFallThrough.bind(this),
+      recordNullishCheck: this.recordNullishCheck.bind(this),
+      markDefaultParam: this.markDefaultParam.bind(this),
+      settleDefaultParam: this.settleDefaultParam.bind(this),
+      recordCondition: this.recordCondition.bind(this),
+      recordDecision: this.recordDecision.bind(this),
+      getMcdcCoverage: this.getMcdcCoverage.bind(this),
+      beginLoop: this.beginLoop.bind(this),
+      recordLoopIteration: this.recordLoopIteration.bind(this),
+      endLoop: this.endLoop.bind(this),
+      recordArrayLoop: this.recordArrayLoop.bind(this),
+      startTiming: this.startTiming.bind(this),
+      recordTiming: this.recordTiming.bind(this),
+      recordTryEnter: this.recordTryEnter.bind(this),
+      recordCatch: this.recordCatch.bind(this),
+      recordThrow: this.recordThrow.bind(this),
+      recordRender: this.recordRender.bind(this),
+      getRenderStats: this.getRenderStats.bind(this),
+      recordHookDeps: this.recordHookDeps.bind(this),
+      getHookStats: this.getHookStats.bind(this),
+      recordStateUpdate: this.recordStateUpdate.bind(this),
+      getCausalEvents: this.getCausalEvents.bind(this),
+      trackMount: this.trackMount.bind(this),
+      trackAsync: this.trackAsync.bind(this),
+      getAsyncStats: this.getAsyncStats.bind(this),
+      getPendingAsync: this.getPendingAsync.bind(this),
+      getAsyncIssues: this.getAsyncIssues.bind(this),
+      traceHandler: this.traceHandler.bind(this),
+      getEventTraces: this.getEventTraces.bind(this),
+      getNetworkRequests: this.getNetworkRequests.bind(this),
+      getFetchWaterfalls: this.getFetchWaterfalls.bind(this),
+      trackSuspender: this.trackSuspender.bind(this),
+      recordSuspense: this.recordSuspense.bind(this),
+      getSuspenseEpisodes: this.getSuspenseEpisodes.bind(this),
+      getSuspenseWaterfalls: this.getSuspenseWaterfalls.bind(this),
+      getVitalEntries: this.getVitalEntries.bind(this),
+      getUxMetrics: this.getUxMetrics.bind(this),
+      registerStyle: this.registerStyle.bind(this),
+      traceStyleFunction: this.traceStyleFunction.bind(this),
+      styleMarker: this.styleMarker.bind(this),
+      inspectStyles: this.inspectStyles.bind(this),
+      getStyleSites: this.getStyleSites.bind(this),
+      enterScope: this.enterScope.bind(this),
+      scope: this.scope.bind(this),
+      getScopes: this.getScopes.bind(this),
+      recordState: this.recordState.bind(this),
+      getStateHistory: this.getStateHistory.bind(this),
+      getStateAt: this.getStateAt.bind(this),
+      diffStateHistory: this.diffStateHistory.bind(this),
       getBranchStats: this.getBranchStats.bind(this),
+      getSkippedFiles: this.getSkippedFiles.bind(this),
+      getRenderRisks: this.getRenderRisks.bind(this),
       getExecutionSummary: this.getExecutionSummary.bind(this),
       clearStats: this.clearStats.bind(this),
-      updateConfig: this.updateConfig.bind(this)
+      updateConfig: this.updateConfig.bind(this),
+      loadManifest: this.loadManifest.bind(this),
+      exportData: this.exportData.bind(this),
+      importData: this.importData.bind(this)
+    }
+  }
+
+  // Modules push their branch entries, or an object with their render risks too (analyzeRenderRisks)
+  private drainManifestQueue() {
+    const queue = (window as any).__RUNTIME_COVERAGE_MANIFEST_QUEUE__
+    if (Array.isArray(queue)) {
+      queue.forEach((manifest: BranchManifestEntry[] | Partial<BranchManifest>) => this.loadManifest(manifest))
+    }
+
+    // Modules loaded from now on register straight into the collector
+    ;(window as any).__RUNTIME_COVERAGE_MANIFEST_QUEUE__ = {
+      push: (manifest: BranchManifestEntry[] | Partial<BranchManifest>) => this.loadManifest(manifest)
     }
   }
 
-  recordBranchHit(
+  private fetchManifest(url: string) {
+    fetch(url)
+      .then(response => response.ok ? response.json() : null)
+      .then(manifest => {
+        if (manifest) {
+          this.loadManifest(manifest)
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load branch manifest:', error)
+      })
+  }
+
+  loadManifest(manifest: Partial<BranchManifest> | BranchManifestEntry[]) {
+    const entries = Array.isArray(manifest) ? manifest : manifest.branches || []
+
+    entries.forEach(entry => {
+      this.manifestEntries[entry.branchId] = entry
+    })
+
+    if (!Array.isArray(manifest)) {
+      manifest.skippedFiles?.forEach(skipped => {
+        this.skippedFiles[skipped.file] = skipped
+      })
+      manifest.renderRisks?.forEach(risk => {
+        this.renderRisks[risk.riskId] = risk
+      })
+    }
+
+    this.seedFromManifest()
+  }
+
+  /**
+   * Build-time details that a branch created on first hit should still carry.
+   * Ids are content hashes, so the position only comes from the manifest; the
+   * file is the id's first segment.
+   */
+  private getBranchDetails(branchId: string): Pick<BranchHit, 'file' | 'line' | 'column' | 'owner' | 'label' | 'expectedDead'> {
+    const entry = this.manifestEntries[branchId]
+    if (!entry) return { file: branchId.split(':')[0], line: 0, column: 0 }
+    return {
+      file: entry.file,
+      line: entry.line,
+      column: entry.column,
+      ...(entry.owner && { owner: entry.owner }),
+      ...(entry.label && { label: entry.label }),
+      ...(entry.expectedDead && { expectedDead: true })
+    }
+  }
+
+  private seedFromManifest() {
+    Object.values(this.manifestEntries).forEach(entry => {
+      // Runtime data wins; the manifest only fills in branches that have not run yet
+      if (this.branchStats[entry.branchId]) return
+
+      this.branchStats[entry.branchId] = {
+        ...entry,
+        hitCount: 0,
+        missCount: 0,
+        timestamp: 0
+      }
+    })
+  }
+
+  recordBranchHit<T>(
     branchId: string, 
     type: string, 
     conditionCode: string, 
-    conditionResult: boolean,
-    collectExecutionTime: boolean = false
-  ): boolean {
+    conditionResult: T,
+    operandGetters?: Array<() => unknown>
+  ): T {
+    this.recordHandlerBranch(branchId, conditionCode, !!conditionResult)
+    this.recordStyleBranch(branchId, conditionCode, !!conditionResult)
+    this.noteBranchForRequests(branchId)
+    if (this.vitalsActivity) logActivity(this.vitalsActivity, { at: performance.now(), branchId, taken: !!conditionResult })
+    if (this.config.recordStateHistory) {
+      (this.historyOutcomes[this.historyOutcomes.length - 1] || this.baseOutcomes)[branchId] = !!conditionResult
+    }
+
+    const scopes = this.renderingScope ? this.getBranchScopes(branchId) : []
+    if (this.config.scopeMode === 'limit' && scopes.length === 0) {
+      return conditionResult
+    }
+
     // Apply sampling if enabled
     if (this.samplingConfig.enabled && !this.shouldSample()) {
       return conditionResult
@@ -55,17 +401,10 @@ class RuntimeCoverageCollector {
       return conditionResult
     }
 
-    // Extract file info from branchId
-    const [filePath, line, column, branchType] = branchId.split(':')
-    const lineNum = parseInt(line, 10)
-    const colNum = parseInt(column, 10)
-
     if (!this.branchStats[branchId]) {
       this.branchStats[branchId] = {
         branchId,
-        file: filePath,
-        line: lineNum,
-        column: colNum,
+        ...this.getBranchDetails(branchId),
         type: type as any,
         condition: conditionCode,
         hitCount: 0,
@@ -81,16 +420,1122 @@ class RuntimeCoverageCollector {
     } else {
       branch.missCount++
     }
-    
-    if (collectExecutionTime) {
-      branch.executionTime = performance.now() - now
-    }
 
     branch.timestamp = now
+    this.tagScopes(branch, scopes)
+
+    if (operandGetters && this.operandCapture) {
+      if (!branch.operandSamples) {
+        branch.operandSamples = createOperandSamples(this.manifestEntries[branchId]?.operands || [])
+      }
+      addOperandSample(branch.operandSamples, !!conditionResult, operandGetters, this.operandCapture)
+    }
 
     return conditionResult
   }
 
+  recordArmHit(
+    armId: string,
+    type: string,
+    conditionCode: string,
+    parentBranchId: string,
+    kind: BranchArmKind,
+    index: number
+  ) {
+    const viaFallThrough = this.pendingFallThrough === armId
+    this.pendingFallThrough = null
+
+    // An arm right after its own decision adds nothing; switch cases only report arms
+    const handlerBranches = this.activeHandlers[this.activeHandlers.length - 1]?.branches
+    if (handlerBranches?.[handlerBranches.length - 1]?.branchId !== parentBranchId) {
+      this.recordHandlerBranch(armId, conditionCode, true)
+    }
+    const styleBranches = this.activeStyleCalls[this.activeStyleCalls.length - 1]
+    if (styleBranches?.[styleBranches.length - 1]?.branchId !== parentBranchId) {
+      this.recordStyleBranch(armId, conditionCode, true)
+    }
+    this.noteBranchForRequests(armId)
+    if (this.vitalsActivity) logActivity(this.vitalsActivity, { at: performance.now(), branchId: armId, taken: true })
+
+    const scopes = this.renderingScope ? this.getBranchScopes(armId) : []
+    if (this.config.scopeMode === 'limit' && scopes.length === 0) {
+      return
+    }
+
+    if (this.samplingConfig.enabled && !this.shouldSample()) {
+      return
+    }
+
+    if (!this.branchStats[armId]) {
+      this.branchStats[armId] = {
+        branchId: armId,
+        ...this.getBranchDetails(armId),
+        type: type as any,
+        condition: conditionCode,
+        hitCount: 0,
+        missCount: 0,
+        timestamp: performance.now(),
+        arm: { kind, index, parentBranchId }
+      }
+    }
+
+    const arm = this.branchStats[armId]
+    arm.hitCount++
+    arm.timestamp = performance.now()
+    this.tagScopes(arm, scopes)
+
+    if (viaFallThrough) {
+      arm.fallThroughCount = (arm.fallThroughCount || 0) + 1
+    }
+  }
+
+  recordFallThrough(nextArmId: string) {
+    // The next case's arm call runs immediately after this one, so a single slot is enough
+    this.pendingFallThrough = nextArmId
+  }
+
+  /**
+   * Records whether a `??` / `?.` operand was null or undefined (a hit means the
+   * short-circuit or fallback was taken) and passes the value through unchanged.
+   */
+  recordNullishCheck<T>(branchId: string, type: string, conditionCode: string, value: T): T {
+    this.recordBranchHit(branchId, type, conditionCode, value === null || value === undefined)
+    return value
+  }
+
+  markDefaultParam(branchId: string) {
+    this.pendingDefaultParams.add(branchId)
+  }
+
+  settleDefaultParam(branchId: string, conditionCode: string): boolean {
+    // The default expression ran just before the function body started if it was marked
+    const usedDefault = this.pendingDefaultParams.delete(branchId)
+    return this.recordBranchHit(branchId, 'default-param', conditionCode, usedDefault)
+  }
+
+  recordCondition<T>(decisionId: string, index: number, value: T): T {
+    if (!this.openDecisions[decisionId]) {
+      this.openDecisions[decisionId] = []
+    }
+    this.openDecisions[decisionId][index] = !!value
+    return value
+  }
+
+  /**
+   * Closes the evaluation vector that recordCondition filled in while the decision
+   * was evaluated; operands that never ran were short-circuited.
+   */
+  recordDecision<T>(decisionId: string, value: T): T {
+    const evaluated = this.openDecisions[decisionId] || []
+    delete this.openDecisions[decisionId]
+
+    const conditionCount = this.manifestEntries[decisionId]?.conditions?.length ?? evaluated.length
+    const conditions = Array.from({ length: conditionCount }, (_, index) => evaluated[index] ?? null)
+    const outcome = !!value
+    const key = vectorKey(conditions, outcome)
+
+    if (!this.decisionVectors[decisionId]) {
+      this.decisionVectors[decisionId] = {}
+    }
+    const vectors = this.decisionVectors[decisionId]
+    if (!vectors[key]) {
+      vectors[key] = { conditions, outcome, count: 0 }
+    }
+    vectors[key].count++
+
+    return value
+  }
+
+  getMcdcCoverage(): McdcReport[] {
+    const decisionIds = new Set([
+      ...Object.values(this.manifestEntries).filter(entry => entry.conditions).map(entry => entry.branchId),
+      ...Object.keys(this.decisionVectors)
+    ])
+
+    return Array.from(decisionIds).map(decisionId => {
+      const entry = this.manifestEntries[decisionId]
+      const vectors = Object.values(this.decisionVectors[decisionId] || {})
+      const conditions = entry?.conditions ||
+        (vectors[0]?.conditions || []).map((_, index) => `condition ${index + 1}`)
+      const analysis = analyzeConditions(conditions, vectors)
+      const coveredConditions = analysis.filter(condition => condition.independent).length
+      const { file, line } = this.getBranchDetails(decisionId)
+
+      return {
+        decisionId,
+        file,
+        line,
+        decision: entry?.condition || this.branchStats[decisionId]?.condition || decisionId,
+        conditions: analysis,
+        coveredConditions,
+        coverageRate: conditions.length > 0 ? coveredConditions / conditions.length : 0
+      }
+    })
+  }
+
+  beginLoop(branchId: string) {
+    // A stack per loop keeps recursive calls through the same loop apart
+    if (!this.loopFrames[branchId]) {
+      this.loopFrames[branchId] = []
+    }
+    this.loopFrames[branchId].push(0)
+  }
+
+  recordLoopIteration(branchId: string) {
+    const frames = this.loopFrames[branchId]
+    if (frames && frames.length > 0) {
+      frames[frames.length - 1]++
+    }
+  }
+
+  endLoop(branchId: string, kind: LoopKind, conditionCode: string) {
+    const iterations = this.loopFrames[branchId]?.pop() ?? 0
+    this.recordLoopExecution(branchId, kind, conditionCode, iterations)
+  }
+
+  recordArrayLoop<T>(branchId: string, conditionCode: string, receiver: T): T {
+    const length = (receiver as any)?.length
+    if (typeof length === 'number') {
+      this.recordLoopExecution(branchId, 'array-callback', conditionCode, length)
+    }
+    return receiver
+  }
+
+  private recordLoopExecution(branchId: string, kind: LoopKind, conditionCode: string, iterations: number) {
+    const previous = this.branchStats[branchId]
+    const recordedBefore = previous ? previous.hitCount + previous.missCount : 0
+
+    // Entered vs skipped are the loop's hit and miss counts
+    this.recordBranchHit(branchId, 'loop', conditionCode, iterations > 0)
+
+    // Nothing was recorded when this execution was sampled out
+    const branch = this.branchStats[branchId]
+    if (!branch || branch.hitCount + branch.missCount === recordedBefore) return
+
+    if (!branch.loop) {
+      branch.loop = { kind, executions: 0, totalIterations: 0, maxIterations: 0, histogram: {} }
+    }
+
+    const loop = branch.loop
+    const bucket = getIterationBucket(iterations)
+    loop.executions++
+    loop.totalIterations += iterations
+    loop.maxIterations = Math.max(loop.maxIterations, iterations)
+    loop.histogram[bucket] = (loop.histogram[bucket] || 0) + 1
+  }
+
+  startTiming(): number {
+    return performance.now()
+  }
+
+  /**
+   * Adds the time spent in a taken arm since `start`. Timing can be switched
+   * off at runtime through updateConfig without rebuilding.
+   */
+  recordTiming(armId: string, start: number) {
+    const duration = performance.now() - start
+    const branch = this.branchStats[armId]
+    if (!branch || !this.samplingConfig.collectExecutionTime) return
+
+    if (!branch.timing) {
+      branch.timing = createTimingStats()
+    }
+    addTimingSample(branch.timing, duration)
+    branch.executionTime = branch.timing.mean
+  }
+
+  // Error paths are rare and the point is to catch every one, so they bypass sampling
+  recordTryEnter(branchId: string, conditionCode: string) {
+    const branch = this.ensureBranch(branchId, 'catch', conditionCode)
+    branch.tryEntries = (branch.tryEntries || 0) + 1
+    branch.missCount = Math.max(0, branch.tryEntries - branch.hitCount)
+  }
+
+  recordCatch(branchId: string, conditionCode: string, error: unknown) {
+    const branch = this.ensureBranch(branchId, 'catch', conditionCode)
+    branch.hitCount++
+    branch.missCount = Math.max(0, (branch.tryEntries || 0) - branch.hitCount)
+    this.countErrorType(branch, error)
+  }
+
+  recordThrow<T>(branchId: string, conditionCode: string, error: T): T {
+    const branch = this.ensureBranch(branchId, 'throw', conditionCode)
+    branch.hitCount++
+    this.countErrorType(branch, error)
+
+    // A thrown promise suspends the nearest Suspense boundary
+    if (isThenable(error)) {
+      const { file, line, column, owner } = branch
+      this.trackSuspender({ siteId: branchId, kind: 'throw', code: conditionCode, file, line, column, ...(owner && { owner }) }, error)
+    }
+    return error
+  }
+
+  private countErrorType(branch: BranchHit, error: unknown) {
+    const errorType = error === null || error === undefined
+      ? String(error)
+      : (error as any).constructor?.name || typeof error
+
+    if (!branch.errorTypes) {
+      branch.errorTypes = {}
+    }
+    branch.errorTypes[errorType] = (branch.errorTypes[errorType] || 0) + 1
+  }
+
+  private ensureBranch(branchId: string, type: string, conditionCode: string): BranchHit {
+    if (!this.branchStats[branchId]) {
+      this.branchStats[branchId] = {
+        branchId,
+        ...this.getBranchDetails(branchId),
+        type: type as BranchHit['type'],
+        condition: conditionCode,
+        hitCount: 0,
+        missCount: 0,
+        timestamp: performance.now()
+      }
+    }
+
+    const branch = this.branchStats[branchId]
+    branch.timestamp = performance.now()
+    return branch
+  }
+
+  /**
+   * Counts one render of a tracked component (trackRenders), called as the
+   * component returns. `instance` is a ref the instrumented body holds, so it is
+   * stable per mounted instance; `state` holds the values its state hooks returned.
+   */
+  recordRender(componentId: string, component: string, line: number, instance: object, props: unknown, state: unknown[]) {
+    const previous = this.renderInstances.get(instance)
+    if (isRepeatedRender(previous, props, state)) return
+
+    if (!this.renderStats[componentId]) {
+      this.renderStats[componentId] = {
+        componentId,
+        component,
+        file: componentId.split(':')[0],
+        line,
+        renders: 0,
+        wastedRenders: 0,
+        instances: 0,
+        maxInstanceRenders: 0,
+        lastRender: 0
+      }
+    }
+
+    const stats = this.renderStats[componentId]
+    const renders = (previous?.renders || 0) + 1
+    stats.renders++
+    stats.lastRender = performance.now()
+    if (this.vitalsActivity) logActivity(this.vitalsActivity, { at: stats.lastRender, component })
+    stats.maxInstanceRenders = Math.max(stats.maxInstanceRenders, renders)
+
+    if (!previous) {
+      stats.instances++
+    } else if (isWastedRender(previous, props, state)) {
+      stats.wastedRenders++
+    }
+
+    this.renderInstances.set(instance, { props, state, renders })
+
+    if (this.renderCause && stats.lastRender <= this.renderCause.until) {
+      const causalRenders = this.renderCause.cause.renders
+      const causalRender = causalRenders.find(render => render.componentId === componentId)
+      if (causalRender) {
+        causalRender.count++
+      } else {
+        causalRenders.push({ componentId, component, count: 1 })
+      }
+    }
+  }
+
+  // Tracked components in files the current patterns cover, most renders first
+  getRenderStats(): RenderStats[] {
+    return Object.values(this.renderStats)
+      .filter(stats => !this.getSkipReason(stats.file))
+      .sort((a, b) => b.renders - a.renders)
+  }
+
+  /**
+   * Audits one call of a useEffect/useLayoutEffect/useMemo/useCallback site
+   * (auditHooks) and passes its deps through. The hook re-runs when React's
+   * Object.is comparison finds a changed dependency, so the same comparison
+   * here attributes each re-run to the dependencies that caused it.
+   */
+  recordHookDeps<T>(site: HookSite, instance: object, deps: T): T {
+    if (!this.hookStats[site.hookId]) {
+      this.hookStats[site.hookId] = createHookStats(site)
+    }
+
+    const stats = this.hookStats[site.hookId]
+    const values = Array.isArray(deps) ? deps : undefined
+    const previous = this.hookInstances.get(instance)
+    let runs = !previous || !values || !previous.deps || previous.deps.length !== values.length
+
+    if (!previous) stats.instances++
+    if (!values) stats.withoutDependencies = true
+
+    if (previous?.deps && values) {
+      values.forEach((value, index) => {
+        const before = previous.deps![index]
+        if (Object.is(before, value)) return
+
+        runs = true
+        if (!stats.dependencies[index]) {
+          stats.dependencies[index] = { name: `[${index}]`, changes: 0, identityOnlyChanges: 0 }
+        }
+        stats.dependencies[index].changes++
+        if (deepEqual(before, value)) {
+          stats.dependencies[index].identityOnlyChanges++
+        }
+      })
+    }
+
+    const now = performance.now()
+    let recentRuns = previous?.recentRuns || []
+    if (runs) {
+      stats.runs++
+      stats.timestamp = now
+
+      if (isEffectHook(site)) {
+        recentRuns = [...recentRuns.filter(time => now - time < EFFECT_LOOP_WINDOW_MS), now]
+        // Counted once as a burst crosses the threshold
+        if (recentRuns.length === EFFECT_LOOP_RUNS) {
+          stats.suspectedLoops++
+        }
+      }
+    }
+
+    this.hookInstances.set(instance, { deps: values, recentRuns })
+    return deps
+  }
+
+  // Audited hooks in files the current patterns cover, most runs first
+  getHookStats(): HookStats[] {
+    return Object.values(this.hookStats)
+      .filter(stats => !this.getSkipReason(stats.file))
+      .sort((a, b) => b.runs - a.runs)
+  }
+
+  /**
+   * Records a traced state update (traceStateUpdates) under the DOM event or
+   * async callback running it, and passes the update's arguments through.
+   * Renders that follow shortly after are attributed to the same cause.
+   */
+  recordStateUpdate(site: StateUpdateSite, args: unknown[]): unknown[] {
+    const cause = this.getCurrentCause(site)
+    const now = performance.now()
+
+    cause.updates.push({
+      siteId: site.siteId,
+      kind: site.kind,
+      setter: site.setter,
+      ...(site.state && { state: site.state }),
+      file: site.file,
+      line: site.line,
+      ...(site.owner && { owner: site.owner }),
+      value: readOperand(site.state || site.setter, () => args[0], this.operandCapture || DEFAULT_OPERAND_CAPTURE),
+      timestamp: now
+    })
+    this.renderCause = { cause, until: now + RENDER_ATTRIBUTION_MS }
+
+    return args
+  }
+
+  // Updates run by one DOM event share its cause; otherwise, those run by one async callback do
+  private getCurrentCause(site: StateUpdateSite): CausalEvent {
+    const event = getCurrentDomEvent()
+    if (event) {
+      let cause = this.eventCauses.get(event)
+      if (!cause) {
+        cause = this.addCause(createCausalEvent('event', event.type, describeEventTarget(event.target)))
+        this.eventCauses.set(event, cause)
+      }
+      return cause
+    }
+
+    if (!this.asyncCause) {
+      this.asyncCause = this.addCause(createCausalEvent('async', site.owner?.functionName || site.setter))
+      // The callback that is running now ends before the next microtask
+      queueMicrotask(() => {
+        this.asyncCause = null
+      })
+    }
+    return this.asyncCause
+  }
+
+  private addCause(cause: CausalEvent): CausalEvent {
+    this.causalEvents.push(cause)
+    if (this.causalEvents.length > MAX_CAUSAL_EVENTS) {
+      this.causalEvents.shift()
+    }
+    return cause
+  }
+
+  // Most recent first
+  getCausalEvents(): CausalEvent[] {
+    return [...this.causalEvents].reverse()
+  }
+
+  /**
+   * Called from a tracked component's or hook's mount effect (trackAsync). The
+   * returned cleanup marks the instance unmounted; StrictMode's remount clears it.
+   */
+  trackMount(instance: object): () => void {
+    this.unmountedInstances.delete(instance)
+    return () => {
+      this.unmountedInstances.add(instance)
+    }
+  }
+
+  /**
+   * Observes an awaited value or promise chain started by a tracked component
+   * or hook (trackAsync) and passes it through unchanged. When it settles after
+   * the instance unmounted, or after a newer call from the same site and
+   * instance started, the continuation works with a result nobody should use.
+   */
+  trackAsync<T>(site: AsyncSite, instance: object, value: T): T {
+    if (!isThenable(value)) return value
+
+    if (!this.asyncStats[site.siteId]) {
+      this.asyncStats[site.siteId] = createAsyncStats(site)
+    }
+    const stats = this.asyncStats[site.siteId]
+    stats.started++
+
+    const calls = this.asyncCalls.get(instance) || {}
+    this.asyncCalls.set(instance, calls)
+    calls[site.siteId] = (calls[site.siteId] || 0) + 1
+
+    const operation: AsyncOperation = { site, instance, call: calls[site.siteId], startedAt: performance.now() }
+    this.pendingAsync.add(operation)
+
+    const settle = (rejected: boolean) => {
+      const now = performance.now()
+      this.pendingAsync.delete(operation)
+      stats.settled++
+      stats.timestamp = now
+      if (rejected) stats.rejected++
+
+      if (this.unmountedInstances.has(instance)) {
+        stats.afterUnmount++
+        this.addAsyncIssue(operation, 'after-unmount', now)
+      } else if (operation.call < (this.asyncCalls.get(instance)?.[site.siteId] || 0)) {
+        stats.stale++
+        this.addAsyncIssue(operation, 'stale', now)
+      }
+    }
+
+    // Observing a rejection handles it, so a detached chain's rejection is rethrown to stay reported
+    value.then(() => settle(false), error => {
+      settle(true)
+      if (site.detached) throw error
+    })
+
+    return value
+  }
+
+  private addAsyncIssue(operation: AsyncOperation, issue: AsyncIssueKind, settledAt: number) {
+    this.asyncIssues.push(createAsyncIssue(operation, issue, settledAt))
+    if (this.asyncIssues.length > MAX_ASYNC_ISSUES) {
+      this.asyncIssues.shift()
+    }
+  }
+
+  // Observed async sites in files the current patterns cover, most issues first
+  getAsyncStats(): AsyncStats[] {
+    return Object.values(this.asyncStats)
+      .filter(stats => !this.getSkipReason(stats.file))
+      .sort((a, b) => (b.afterUnmount + b.stale) - (a.afterUnmount + a.stale) || b.started - a.started)
+  }
+
+  getPendingAsync(): PendingAsync[] {
+    return Array.from(this.pendingAsync).map(operation => ({
+      ...operation.site,
+      startedAt: operation.startedAt,
+      mounted: !this.unmountedInstances.has(operation.instance)
+    }))
+  }
+
+  // Most recent first
+  getAsyncIssues(): AsyncIssue[] {
+    return [...this.asyncIssues].reverse()
+  }
+
+  /**
+   * Wraps a DOM element's `on*` handler (traceEvents). Each call is appended,
+   * in dispatch order, to the trace of the native event that reached it, with
+   * whether it stopped propagation or prevented the default and the branches
+   * it took before returning.
+   */
+  traceHandler<T>(site: HandlerSite, handler: T): T {
+    if (typeof handler !== 'function') return handler
+
+    const collector = this
+    return function (this: unknown, ...args: unknown[]) {
+      const event: any = args[0]
+      const nativeEvent = getNativeEvent(event)
+      if (!nativeEvent) return handler.apply(this, args)
+
+      let trace = collector.eventTraceByEvent.get(nativeEvent)
+      if (!trace) {
+        trace = createEventTrace(nativeEvent)
+        collector.eventTraceByEvent.set(nativeEvent, trace)
+        collector.eventTraces.push(trace)
+        if (collector.eventTraces.length > MAX_EVENT_TRACES) {
+          collector.eventTraces.shift()
+        }
+      }
+
+      const call = createHandlerCall(site, event)
+      trace.handlers.push(call)
+      const stoppedBefore = isPropagationStopped(event)
+      const preventedBefore = isDefaultPrevented(event)
+
+      collector.activeHandlers.push(call)
+      try {
+        return handler.apply(this, args)
+      } finally {
+        collector.activeHandlers.pop()
+        call.duration = performance.now() - call.timestamp
+        call.stoppedPropagation = !stoppedBefore && isPropagationStopped(event)
+        call.preventedDefault = !preventedBefore && isDefaultPrevented(event)
+      }
+    } as unknown as T
+  }
+
+  private recordHandlerBranch(branchId: string, condition: string, taken: boolean) {
+    const call = this.activeHandlers[this.activeHandlers.length - 1]
+    if (call && call.branches.length < MAX_HANDLER_BRANCHES) {
+      call.branches.push({ branchId, condition, taken })
+    }
+  }
+
+  // Most recent first
+  getEventTraces(): EventTrace[] {
+    return [...this.eventTraces].reverse()
+  }
+
+  private noteBranchForRequests(branchId: string) {
+    if (!this.restoreNetwork) return
+    if (this.lastBranchId === undefined) {
+      // A request started by a later task wasn't decided by this branch
+      queueMicrotask(() => {
+        this.lastBranchId = undefined
+      })
+    }
+    this.lastBranchId = branchId
+  }
+
+  private getRequestInitiator(): RequestInitiator | undefined {
+    if (this.lastBranchId) {
+      const { file, line, owner } = this.getBranchDetails(this.lastBranchId)
+      const condition = this.branchStats[this.lastBranchId]?.condition
+      return { file, line, ...(owner && { owner }), branchId: this.lastBranchId, ...(condition && { condition }) }
+    }
+
+    const handler = this.activeHandlers[this.activeHandlers.length - 1]
+    return handler && { file: handler.file, line: handler.line, ...(handler.owner && { owner: handler.owner }) }
+  }
+
+  /**
+   * A request starting (trackNetwork). Once the earlier responses have been
+   * read, it records which of them it uses and is linked to the latest one
+   * that arrived within WATERFALL_GAP_MS before it and that it doesn't use.
+   */
+  private startRequest(api: NetworkApi, method: string, url: string, body: unknown): NetworkRequest {
+    const now = performance.now()
+    const initiator = this.getRequestInitiator()
+    const request: NetworkRequest = {
+      requestId: `request_${++this.requestCounter}`,
+      api,
+      method,
+      url,
+      startedAt: now,
+      ...(initiator && { initiator })
+    }
+
+    const recent: NetworkRequest[] = []
+    this.recentResponses.forEach((_, candidate) => {
+      if (now - candidate.endedAt! > DEPENDENCY_WINDOW_MS) {
+        this.recentResponses.delete(candidate)
+      } else {
+        recent.push(candidate)
+      }
+    })
+
+    const tokens = getRequestTokens(url, body)
+    Promise.all(recent.map(candidate => this.recentResponses.get(candidate))).then(texts => {
+      const used = recent.filter((candidate, index) => usesResponse(tokens, candidate, texts[index]))
+      if (used.length > 0) request.dependsOn = used.map(candidate => candidate.requestId)
+
+      const previous = recent
+        .filter(candidate => now - candidate.endedAt! <= WATERFALL_GAP_MS && !used.includes(candidate))
+        .sort((a, b) => b.endedAt! - a.endedAt!)[0]
+      if (previous) request.after = previous.requestId
+    })
+
+    this.networkRequests.push(request)
+    if (this.networkRequests.length > MAX_NETWORK_REQUESTS) {
+      this.networkRequests.shift()
+    }
+    return request
+  }
+
+  private endRequest(request: NetworkRequest, status: number | undefined, failed: boolean, responseText: Promise<string | undefined>) {
+    request.endedAt = performance.now()
+    if (status !== undefined) request.status = status
+    if (failed) request.failed = true
+    this.recentResponses.set(request, responseText)
+  }
+
+  // Most recent first
+  getNetworkRequests(): NetworkRequest[] {
+    return [...this.networkRequests].reverse()
+  }
+
+  // Largest savings first
+  getFetchWaterfalls(): FetchWaterfall[] {
+    return findWaterfalls(this.networkRequests)
+  }
+
+  /**
+   * Notes a promise that may suspend a boundary (trackSuspense) and passes it
+   * through. It waits, unclaimed, until a fallback shows or it settles; the
+   * same promise passed to `use()` on every retry is only noted once.
+   */
+  trackSuspender<T>(site: SuspenderSite, value: T): T {
+    if (!isThenable(value) || this.trackedSuspenders.has(value)) return value
+    this.trackedSuspenders.add(value)
+
+    const { column, ...details } = site
+    const suspendedOn: SuspendedOn = { ...details, startedAt: performance.now() }
+    this.unclaimedSuspenders.push(suspendedOn)
+
+    const settle = (rejected: boolean) => {
+      suspendedOn.settledAt = performance.now()
+      if (rejected) suspendedOn.rejected = true
+      this.unclaimedSuspenders = this.unclaimedSuspenders.filter(pending => pending !== suspendedOn)
+    }
+    value.then(() => settle(false), () => settle(true))
+
+    return value
+  }
+
+  /**
+   * Called from a wrapped fallback's layout effect (trackSuspense): the
+   * boundary suspended, waiting on the promises noted since the last fallback
+   * showed. The returned cleanup runs when the content is revealed. A fallback
+   * that shows in the same commit another boundary resolves in is nested in
+   * that boundary's content.
+   */
+  recordSuspense(site: SuspenseBoundarySite, instance: object): () => void {
+    let episode = this.openEpisodes.get(instance)
+
+    // StrictMode runs the effect again right after its cleanup; that's still the same episode
+    if (episode && this.resolvedThisCommit.includes(episode)) {
+      delete episode.resolvedAt
+      this.resolvedThisCommit = this.resolvedThisCommit.filter(resolved => resolved !== episode)
+    } else {
+      const { column, ...details } = site
+      const revealedBy = this.resolvedThisCommit[this.resolvedThisCommit.length - 1]
+      episode = {
+        ...details,
+        episodeId: nextEpisodeId(),
+        suspendedAt: performance.now(),
+        waitedOn: this.unclaimedSuspenders.splice(0),
+        ...(revealedBy && { after: revealedBy.episodeId })
+      }
+      this.openEpisodes.set(instance, episode)
+      this.suspenseEpisodes.push(episode)
+      if (this.suspenseEpisodes.length > MAX_SUSPENSE_EPISODES) {
+        this.suspenseEpisodes.shift()
+      }
+    }
+
+    const current = episode
+    return () => {
+      current.resolvedAt = performance.now()
+      if (this.resolvedThisCommit.length === 0) {
+        // Effects of one commit run synchronously
+        queueMicrotask(() => {
+          this.resolvedThisCommit = []
+        })
+      }
+      this.resolvedThisCommit.push(current)
+    }
+  }
+
+  // Most recent first
+  getSuspenseEpisodes(): SuspenseEpisode[] {
+    return [...this.suspenseEpisodes].reverse()
+  }
+
+  // Largest savings first
+  getSuspenseWaterfalls(): SuspenseWaterfall[] {
+    return findSuspenseWaterfalls(this.suspenseEpisodes)
+  }
+
+  /**
+   * An observed performance entry (trackVitals). Only the latest LCP candidate
+   * is kept, and for an interaction only its slowest event.
+   */
+  private recordVital(metric: VitalMetric, performanceEntry: PerformanceEntry) {
+    const reading = readVitalEntry(metric, performanceEntry)
+    if (!reading) return
+
+    const superseded = this.vitalEntries.findIndex(entry =>
+      metric === 'lcp' ? entry.metric === 'lcp' : !!reading.interactionId && entry.interactionId === reading.interactionId
+    )
+    if (superseded !== -1) {
+      if (metric === 'inp' && this.vitalEntries[superseded].value >= reading.value) return
+      this.vitalEntries.splice(superseded, 1)
+    }
+
+    this.vitalEntries.push({
+      entryId: `vital_${++this.vitalCounter}`,
+      metric,
+      value: reading.value,
+      startTime: reading.startTime,
+      duration: reading.duration,
+      ...(reading.interactionId && { interactionId: reading.interactionId }),
+      ...this.attributeVital(reading)
+    })
+    if (this.vitalEntries.length > MAX_VITAL_ENTRIES) {
+      this.vitalEntries.shift()
+    }
+  }
+
+  // The element an entry points at, and the components and branches that ran in its window
+  private attributeVital(reading: VitalReading): Pick<VitalEntry, 'element' | 'source' | 'components' | 'branches'> {
+    const element = reading.node ? describeEventTarget(reading.node) : undefined
+    const source = findElementSource(reading.node)
+    const components: string[] = []
+    const branches: VitalBranch[] = []
+
+    const recent = this.vitalsActivity ? readActivity(this.vitalsActivity, reading.from, reading.to) : []
+    recent.forEach(activity => {
+      let component = activity.component
+      if (activity.branchId) {
+        const { file, line, owner } = this.getBranchDetails(activity.branchId)
+        component = component || getOwnerName({ owner })
+        const existing = branches.find(branch => branch.branchId === activity.branchId && branch.taken === activity.taken)
+        if (existing) {
+          existing.hits++
+        } else if (branches.length < MAX_VITAL_ATTRIBUTION) {
+          const condition = this.branchStats[activity.branchId]?.condition || this.manifestEntries[activity.branchId]?.condition || ''
+          branches.push({ branchId: activity.branchId, condition, taken: !!activity.taken, file, line, hits: 1 })
+        }
+      }
+      if (component && !components.includes(component) && components.length < MAX_VITAL_ATTRIBUTION) {
+        components.push(component)
+      }
+    })
+
+    return { ...(element && { element }), ...(source && { source }), components, branches }
+  }
+
+  // Most recent first
+  getVitalEntries(): VitalEntry[] {
+    return [...this.vitalEntries].reverse()
+  }
+
+  getUxMetrics(): UxMetrics {
+    return summarizeVitals(this.vitalEntries)
+  }
+
+  /**
+   * Passes a styled component or css result through, noting its call site
+   * (traceStyles) so rules carrying the site's marker map back to it.
+   */
+  registerStyle<T>(site: StyleSite, value: T): T {
+    this.styleSites[site.marker] = site
+    return value
+  }
+
+  /**
+   * Wraps a style function (traceStyles) to record the branches each call
+   * takes and what it returns. Each distinct outcome gets an id, which the
+   * function's marker in the template, or with `markResult` the returned
+   * styles themselves, carries into the generated rule.
+   */
+  traceStyleFunction<T>(site: StyleSite, index: number, fn: T, markResult = false): T {
+    if (typeof fn !== 'function') return fn
+    this.styleSites[site.marker] = site
+    const collector = this
+
+    return function (this: unknown, ...args: unknown[]) {
+      const branches: HandlerBranch[] = []
+      collector.activeStyleCalls.push(branches)
+      let result: unknown
+      try {
+        result = fn.apply(this, args)
+      } finally {
+        collector.activeStyleCalls.pop()
+      }
+
+      const call = collector.recordStyleCall(site, index, branches, result)
+      return markResult && call ? markStyleResult(result, site.marker, call) : result
+    } as T
+  }
+
+  // The interpolation a template has after a style function: a declaration naming the function's latest outcome
+  styleMarker(site: StyleSite, index: number): () => string {
+    return () => {
+      const call = this.lastStyleCalls[`${site.siteId}:${index}`]
+      return call ? createCallMarker(call, site.marker) : ''
+    }
+  }
+
+  private recordStyleCall(site: StyleSite, index: number, branches: HandlerBranch[], result: unknown): StyleCall | undefined {
+    const key = `${site.siteId}:${index}`
+    const text = describeStyleResult(result)
+    const signature = [key, text, ...branches.map(branch => `${branch.branchId}:${branch.taken}`)].join('\0')
+
+    let call = this.styleCalls.get(signature)
+    if (!call) {
+      if (this.styleCalls.size >= MAX_STYLE_CALLS) {
+        delete this.lastStyleCalls[key]
+        return undefined
+      }
+      call = { callId: String(this.styleCalls.size + 1), siteId: site.siteId, index, branches, result: text }
+      this.styleCalls.set(signature, call)
+      this.styleCallsById[call.callId] = call
+    }
+
+    this.lastStyleCalls[key] = call
+    return call
+  }
+
+  private recordStyleBranch(branchId: string, condition: string, taken: boolean) {
+    const branches = this.activeStyleCalls[this.activeStyleCalls.length - 1]
+    if (branches && branches.length < MAX_HANDLER_BRANCHES) {
+      branches.push({ branchId, condition, taken })
+    }
+  }
+
+  /**
+   * The rules an element gets from the page's stylesheets (traceStyles), each
+   * with the call sites whose markers it carries and the style function
+   * outcomes that chose it. Nested rules (`&:hover`) carry no marker and are
+   * attributed through a class they share with a marked rule.
+   */
+  inspectStyles(element: Element): StyleRuleMatch[] {
+    if (typeof document === 'undefined') return []
+    const sitesByClass: Record<string, StyleSite[]> = {}
+    const matches: StyleRuleMatch[] = []
+
+    collectPageRules(document).forEach(({ rule, stylesheet, media }) => {
+      const markers = readStyleMarkers(rule.style)
+      const sites = Array.from(new Set(markers.map(marker => this.styleSites[marker.marker]).filter(Boolean)))
+      const calls = markers
+        .map(marker => marker.callId ? this.styleCallsById[marker.callId] : undefined)
+        .filter((call): call is StyleCall => !!call)
+
+      if (sites.length > 0) {
+        getSelectorClasses(rule.selectorText).forEach(className => {
+          sitesByClass[className] = Array.from(new Set([...(sitesByClass[className] || []), ...sites]))
+        })
+      }
+
+      const state = matchRule(element, rule.selectorText)
+      if (!state) return
+      matches.push({
+        selector: rule.selectorText,
+        declarations: describeDeclarations(rule.style),
+        stylesheet,
+        ...(media && { media }),
+        pseudo: state === 'pseudo',
+        sites,
+        calls,
+        inferred: false
+      })
+    })
+
+    // Once every marked rule's classes are known
+    matches.filter(match => match.sites.length === 0).forEach(match => {
+      match.sites = Array.from(new Set(getSelectorClasses(match.selector).flatMap(className => sitesByClass[className] || [])))
+      match.inferred = match.sites.length > 0
+    })
+    return matches
+  }
+
+  getStyleSites(): StyleSite[] {
+    return Object.values(this.styleSites)
+  }
+
+  private registerScope(name: string): CoverageScopeInfo {
+    this.scopes[name] = this.scopes[name] || { name, enabled: true, components: [] }
+    return this.scopes[name]
+  }
+
+  /**
+   * trackScopes: called first thing in each render of a tracked component,
+   * with the names of the <CoverageScope>s around it (null outside any).
+   */
+  enterScope(scopes: string[] | null, component: string) {
+    const names = scopes || []
+    this.renderingScope = { component, scopes: names }
+
+    names.forEach(name => {
+      const scope = this.registerScope(name)
+      if (!scope.components.includes(component)) scope.components.push(component)
+    })
+    const known = this.componentScopes[component] || []
+    if (names.some(name => !known.includes(name))) {
+      this.componentScopes[component] = [...known, ...names.filter(name => !known.includes(name))]
+    }
+  }
+
+  /**
+   * Enabled scopes a branch runs under. During its component's render, those
+   * of the instance rendering; otherwise (handlers, effects) every scope its
+   * component has rendered under. Branches outside any component take the
+   * scopes of whatever rendered last.
+   */
+  private getBranchScopes(branchId: string): string[] {
+    const component = getOwnerName({ owner: this.manifestEntries[branchId]?.owner })
+    const rendering = this.renderingScope
+    const scopes = rendering && (!component || rendering.component === component)
+      ? rendering.scopes
+      : (component && this.componentScopes[component]) || []
+    return scopes.filter(name => this.scopes[name]?.enabled)
+  }
+
+  private tagScopes(branch: BranchHit, scopes: string[]) {
+    scopes.forEach(name => {
+      if (!branch.scopes) branch.scopes = []
+      if (!branch.scopes.includes(name)) branch.scopes.push(name)
+    })
+  }
+
+  /**
+   * Lists the <CoverageScope>s seen so far. With a name, registers that scope
+   * and, given `enabled`, turns it on or off without a rebuild: a disabled
+   * scope stops tagging branches, and under scopeMode 'limit' stops them
+   * being recorded.
+   */
+  scope(name?: string, enabled?: boolean): CoverageScopeInfo[] {
+    if (name !== undefined) {
+      const scope = this.registerScope(name)
+      if (enabled !== undefined) scope.enabled = enabled
+    }
+    return this.getScopes()
+  }
+
+  getScopes(): CoverageScopeInfo[] {
+    return Object.values(this.scopes).map(scope => ({ ...scope, components: [...scope.components] }))
+  }
+
+  /**
+   * recordStateHistory: adds a state value an instance renders with to the
+   * history, unless it's the value that instance recorded last. Recording
+   * can be switched off at runtime through updateConfig.
+   */
+  recordState(site: StateHookSite, instance: object, value: unknown) {
+    if (!this.config.recordStateHistory) return
+
+    let recorded = this.stateInstances.get(instance)
+    if (!recorded) {
+      const owner = getOwnerName(site) || 'anonymous'
+      this.instanceCounters[owner] = (this.instanceCounters[owner] || 0) + 1
+      recorded = { instanceId: `${owner}#${this.instanceCounters[owner]}`, values: {} }
+      this.stateInstances.set(instance, recorded)
+    }
+    if (site.siteId in recorded.values && Object.is(recorded.values[site.siteId], value)) return
+    recorded.values[site.siteId] = value
+
+    const clone = cloneState(value)
+    this.stateHistory.push({
+      index: this.stateHistoryCounter++,
+      siteId: site.siteId,
+      hook: site.hook,
+      state: site.state,
+      instanceId: recorded.instanceId,
+      file: site.file,
+      line: site.line,
+      ...(site.owner && { owner: site.owner }),
+      value: clone.value,
+      ...(clone.truncated && { truncated: true }),
+      timestamp: Date.now()
+    })
+    this.historyOutcomes.push({})
+
+    if (this.stateHistory.length > MAX_STATE_HISTORY) {
+      this.stateHistory.shift()
+      Object.assign(this.baseOutcomes, this.historyOutcomes.shift())
+    }
+  }
+
+  // Oldest first, as a timeline
+  getStateHistory(): StateHistoryEntry[] {
+    return [...this.stateHistory]
+  }
+
+  // Where the entry with this index is in stateHistory; indexes of dropped entries have none
+  private getHistoryPosition(index: number): number | undefined {
+    const position = index - (this.stateHistory[0]?.index ?? 0)
+    return position >= 0 && position < this.stateHistory.length ? position : undefined
+  }
+
+  // Every recorded state as it was right after the entry with this index
+  getStateAt(index: number): StateHistoryEntry[] {
+    const position = this.getHistoryPosition(index)
+    return position === undefined ? [] : Array.from(getLatestStates(this.stateHistory, position).values())
+  }
+
+  /**
+   * The structural differences between the recorded states at two entries,
+   * and the branches whose latest outcome differs between them. A state
+   * first recorded in between shows up as added.
+   */
+  diffStateHistory(from: number, to: number): StateDiff | undefined {
+    const fromPosition = this.getHistoryPosition(from)
+    const toPosition = this.getHistoryPosition(to)
+    if (fromPosition === undefined || toPosition === undefined) return undefined
+
+    const before = getLatestStates(this.stateHistory, fromPosition)
+    const after = getLatestStates(this.stateHistory, toPosition)
+    const changes: StateChange[] = []
+    new Set([...before.keys(), ...after.keys()]).forEach(key => {
+      const fromEntry = before.get(key)
+      const toEntry = after.get(key)
+      const { instanceId, state, siteId } = (toEntry || fromEntry)!
+      if (!fromEntry) {
+        changes.push({ instanceId, state, siteId, path: '', kind: 'added', after: toEntry!.value })
+      } else if (!toEntry) {
+        changes.push({ instanceId, state, siteId, path: '', kind: 'removed', before: fromEntry.value })
+      } else {
+        diffValues(fromEntry.value, toEntry.value).forEach(change => changes.push({ instanceId, state, siteId, ...change }))
+      }
+    })
+
+    const outcomesBefore = getOutcomesAt(this.baseOutcomes, this.historyOutcomes, fromPosition)
+    const outcomesAfter = getOutcomesAt(this.baseOutcomes, this.historyOutcomes, toPosition)
+    const branches = Array.from(new Set([...Object.keys(outcomesBefore), ...Object.keys(outcomesAfter)]))
+      .filter(branchId => outcomesBefore[branchId] !== outcomesAfter[branchId])
+      .map(branchId => {
+        const { file, line, owner } = this.getBranchDetails(branchId)
+        return {
+          branchId,
+          condition: this.branchStats[branchId]?.condition || this.manifestEntries[branchId]?.condition || '',
+          file,
+          line,
+          ...(owner && { owner }),
+          ...(branchId in outcomesBefore && { before: outcomesBefore[branchId] }),
+          ...(branchId in outcomesAfter && { after: outcomesAfter[branchId] })
+        }
+      })
+
+    return {
+      from,
+      to,
+      changes: changes.slice(0, MAX_STATE_CHANGES),
+      branches,
+      ...(changes.length > MAX_STATE_CHANGES && { truncated: true })
+    }
+  }
+
   private shouldSample(): boolean {
     this.sampleCounter++
     return (this.sampleCounter * this.samplingConfig.sampleRate) % 1 < this.samplingConfig.sampleRate
@@ -108,36 +1553,45 @@ class RuntimeCoverageCollector {
     return false
   }
 
+  /**
+   * Branches in files the current include/exclude patterns still cover.
+   * Patterns narrowed through updateConfig hide data without discarding it.
+   */
   getBranchStats(): BranchStats {
-    return { ...this.branchStats }
+    return Object.fromEntries(
+      Object.entries(this.branchStats).filter(([_, branch]) => !this.getSkipReason(branch.file))
+    )
+  }
+
+  /**
+   * Files with no coverage and why: skipped at build time (from the manifest)
+   * or hidden at runtime by the current patterns.
+   */
+  getSkippedFiles(): SkippedFile[] {
+    const skipped = { ...this.skippedFiles }
+    Object.values(this.branchStats).forEach(branch => {
+      const reason = this.getSkipReason(branch.file)
+      if (reason && !skipped[reason.file]) skipped[reason.file] = reason
+    })
+    return Object.values(skipped)
+  }
+
+  // Found at build time (analyzeRenderRisks), so kept across clearStats
+  getRenderRisks(): RenderRisk[] {
+    return Object.values(this.renderRisks).filter(risk => !this.getSkipReason(risk.file))
   }
 
   getExecutionSummary() {
-    const stats = Object.values(this.branchStats)
+    const stats = Object.values(this.getBranchStats())
     const totalBranches = stats.length
     const hitBranches = stats.filter(b => b.hitCount > 0).length
     const coldBranches = stats.filter(b => b.hitCount > 0 && b.hitCount < 5).length
     const hotBranches = stats.filter(b => b.hitCount > 100).length
     const deadBranches = stats.filter(b => b.hitCount === 0).length
 
-    const fileStats = stats.reduce((acc, branch) => {
-      if (!acc[branch.file]) {
-        acc[branch.file] = { total: 0, hit: 0, dead: 0, hot: 0, cold: 0 }
-      }
-      acc[branch.file].total++
-      
-      if (branch.hitCount === 0) {
-        acc[branch.file].dead++
-      } else if (branch.hitCount > 100) {
-        acc[branch.file].hot++
-      } else if (branch.hitCount < 5) {
-        acc[branch.file].cold++
-      } else {
-        acc[branch.file].hit++
-      }
-      
-      return acc
-    }, {} as Record<string, { total: number; hit: number; dead: number; hot: number; cold: number }>)
+    const fileStats = this.groupStats(stats, branch => branch.file)
+    const componentStats = this.groupStats(stats, getOwnerName)
+    const labelStats = this.groupStats(stats, branch => branch.label)
 
     return {
       summary: {
@@ -159,19 +1613,131 @@ class RuntimeCoverageCollector {
         .filter(([_, stats]) => stats.hot > 0)
         .sort(([_, a], [__, b]) => b.hot - a.hot)
         .slice(0, 10)
-        .map(([file, stats]) => ({ file, hotBranches: stats.hot, totalBranches: stats.total }))
+        .map(([file, stats]) => ({ file, hotBranches: stats.hot, totalBranches: stats.total })),
+
+      componentStats,
+      topDeadCodeComponents: Object.entries(componentStats)
+        .filter(([_, stats]) => stats.dead > 0)
+        .sort(([_, a], [__, b]) => b.dead - a.dead)
+        .slice(0, 10)
+        .map(([component, stats]) => ({ component, deadBranches: stats.dead, totalBranches: stats.total })),
+
+      labelStats,
+
+      // Renders beyond each instance's first (mount) render
+      mostRerenderedComponents: this.getRenderStats()
+        .filter(stats => stats.renders > stats.instances)
+        .sort((a, b) => (b.renders - b.instances) - (a.renders - a.instances))
+        .slice(0, 10)
+        .map(stats => ({
+          component: stats.component,
+          file: stats.file,
+          line: stats.line,
+          rerenders: stats.renders - stats.instances,
+          wastedRenders: stats.wastedRenders,
+          instances: stats.instances
+        })),
+
+      // trackNetwork: requests that waited for one another without needing to
+      fetchWaterfalls: this.getFetchWaterfalls().slice(0, 10),
+
+      // trackVitals: LCP, CLS, INP and long tasks, with the components and branches behind them
+      uxMetrics: this.getUxMetrics()
     }
   }
 
+  private groupStats(stats: BranchHit[], keyOf: (branch: BranchHit) => string | undefined) {
+    return stats.reduce((acc, branch) => {
+      const key = keyOf(branch)
+      if (!key) return acc
+
+      if (!acc[key]) {
+        acc[key] = { total: 0, hit: 0, dead: 0, hot: 0, cold: 0 }
+      }
+      acc[key].total++
+      
+      if (branch.hitCount === 0) {
+        acc[key].dead++
+      } else if (branch.hitCount > 100) {
+        acc[key].hot++
+      } else if (branch.hitCount < 5) {
+        acc[key].cold++
+      } else {
+        acc[key].hit++
+      }
+      
+      return acc
+    }, {} as Record<string, { total: number; hit: number; dead: number; hot: number; cold: number }>)
+  }
+
   clearStats() {
     this.branchStats = {}
     this.sampleCounter = 0
     this.lastSampleTime = 0
+    this.pendingFallThrough = null
+    this.pendingDefaultParams.clear()
+    this.openDecisions = {}
+    this.decisionVectors = {}
+    this.loopFrames = {}
+    this.renderStats = {}
+    this.renderInstances = new WeakMap()
+    this.hookStats = {}
+    this.hookInstances = new WeakMap()
+    this.causalEvents = []
+    this.asyncCause = null
+    this.renderCause = null
+    this.asyncStats = {}
+    this.asyncIssues = []
+    this.eventTraces = []
+    this.networkRequests = []
+    this.recentResponses.clear()
+    this.suspenseEpisodes = []
+    this.vitalEntries = []
+    this.stateHistory = []
+    this.historyOutcomes = []
+    this.baseOutcomes = {}
+    this.stateHistoryCounter = 0
+    this.stateInstances = new WeakMap()
+    this.instanceCounters = {}
+    // Style calls stay: their ids name rules already in the page. So do scopes and whether they're on.
+    this.seedFromManifest()
   }
 
   updateConfig(newConfig: Partial<RuntimeCoverageConfig>) {
     this.config = { ...this.config, ...newConfig }
     this.samplingConfig = { ...this.samplingConfig, ...(newConfig.sampling || {}) }
+    this.getSkipReason = createFileMatcher(this.config)
+    this.operandCapture = resolveOperandCapture(this.config)
+    this.syncNetworkTracking()
+    this.syncVitalsTracking()
+  }
+
+  // Wraps or restores fetch and XMLHttpRequest to match `trackNetwork`
+  private syncNetworkTracking() {
+    if (this.config.trackNetwork && !this.restoreNetwork && typeof window !== 'undefined') {
+      this.restoreNetwork = patchNetwork({
+        // The collector's own requests aren't the app's
+        ignore: url => url === this.config.manifestUrl || url === this.config.analyticsEndpoint,
+        start: this.startRequest.bind(this),
+        end: this.endRequest.bind(this)
+      })
+    } else if (!this.config.trackNetwork && this.restoreNetwork) {
+      this.restoreNetwork()
+      this.restoreNetwork = undefined
+      this.lastBranchId = undefined
+    }
+  }
+
+  // Starts or stops the performance observers to match `trackVitals`
+  private syncVitalsTracking() {
+    if (this.config.trackVitals && !this.stopVitals && typeof window !== 'undefined') {
+      this.vitalsActivity = createActivityLog()
+      this.stopVitals = observeVitals(this.recordVital.bind(this))
+    } else if (!this.config.trackVitals && this.stopVitals) {
+      this.stopVitals()
+      this.stopVitals = undefined
+      this.vitalsActivity = null
+    }
   }
 
   private startAnalyticsReporting() {
@@ -181,9 +1747,10 @@ class RuntimeCoverageCollector {
 
       const event: AnalyticsEvent = {
         type: 'execution-summary',
-        data: this.branchStats,
+        data: this.getBranchStats(),
         timestamp: Date.now(),
-        sessionId: this.sessionId
+        sessionId: this.sessionId,
+        ...(this.config.trackVitals && { uxMetrics: this.getUxMetrics() })
       }
 
       this.sendToAnalytics(event)
@@ -194,9 +1761,10 @@ class RuntimeCoverageCollector {
       if (Object.keys(this.branchStats).length > 0) {
         const event: AnalyticsEvent = {
           type: 'execution-summary',
-          data: this.branchStats,
+          data: this.getBranchStats(),
           timestamp: Date.now(),
-          sessionId: this.sessionId
+          sessionId: this.sessionId,
+          ...(this.config.trackVitals && { uxMetrics: this.getUxMetrics() })
         }
 
         this.sendToAnalytics(event)
@@ -222,14 +1790,69 @@ class RuntimeCoverageCollector {
   exportData() {
     return {
       branchStats: this.getBranchStats(),
+      skippedFiles: this.getSkippedFiles(),
+      renderRisks: this.getRenderRisks(),
+      renderStats: this.getRenderStats(),
+      hookStats: this.getHookStats(),
+      causalEvents: this.getCausalEvents(),
+      asyncStats: this.getAsyncStats(),
+      asyncIssues: this.getAsyncIssues(),
+      eventTraces: this.getEventTraces(),
+      networkRequests: this.getNetworkRequests(),
+      suspenseEpisodes: this.getSuspenseEpisodes(),
+      vitalEntries: this.getVitalEntries(),
+      styleCalls: Array.from(this.styleCalls.values()),
+      scopes: this.getScopes(),
+      stateHistory: this.getStateHistory(),
       executionSummary: this.getExecutionSummary(),
+      mcdc: this.config.mcdc ? this.getMcdcCoverage() : undefined,
       config: this.config,
       sessionId: this.sessionId
     }
   }
 
-  importData(data: { branchStats: BranchStats }) {
-    this.branchStats = { ...this.branchStats, ...data.branchStats }
+  /**
+   * Adds exported stats (another session or deploy) to the current ones.
+   * Imported branches whose id no longer exists are migrated to the matching
+   * branch of the current build when there is one, and kept as-is otherwise.
+   */
+  importData(data: { branchStats: BranchStats; renderStats?: RenderStats[]; hookStats?: HookStats[]; asyncStats?: AsyncStats[] }) {
+    const imported = Object.values(data.branchStats)
+    const isKnown = (branchId: string) => !!(this.manifestEntries[branchId] || this.branchStats[branchId])
+
+    // Exact id matches first, so migration can't take a branch that has its own data
+    const claimed = new Set(imported.filter(branch => isKnown(branch.branchId)).map(branch => branch.branchId))
+    const candidates = Object.values(this.manifestEntries)
+
+    imported.forEach(branch => {
+      let targetId = branch.branchId
+      if (!isKnown(branch.branchId)) {
+        const target = findMigrationTarget(branch, candidates, claimed)
+        if (target) {
+          targetId = target.branchId
+          claimed.add(targetId)
+        }
+      }
+
+      // Manifest branches are always seeded, so a migrated branch lands on its current entry
+      const existing = this.branchStats[targetId]
+      this.branchStats[targetId] = existing ? mergeBranchHits(existing, branch) : branch
+    })
+
+    data.renderStats?.forEach(stats => {
+      const existing = this.renderStats[stats.componentId]
+      this.renderStats[stats.componentId] = existing ? mergeRenderStats(existing, stats) : stats
+    })
+
+    data.hookStats?.forEach(stats => {
+      const existing = this.hookStats[stats.hookId]
+      this.hookStats[stats.hookId] = existing ? mergeHookStats(existing, stats) : stats
+    })
+
+    data.asyncStats?.forEach(stats => {
+      const existing = this.asyncStats[stats.siteId]
+      this.asyncStats[stats.siteId] = existing ? mergeAsyncStats(existing, stats) : stats
+    })
   }
 }
 
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { StateHistoryEntry } from '../types'
+import { MAX_STATE_DEPTH, MAX_STATE_STRING_LENGTH, TRUNCATED_VALUE, cloneState, diffValues, getLatestStates, getOutcomesAt } from './state-history'
+
+describe('cloneState', () => {
+  it('copies values into JSON-safe data', () => {
+    const value = { when: new Date(0), tags: new Set(['a']), byId: new Map([[1, 'x']]), onSave: function save() {}, big: 2n }
+    expect(cloneState(value)).toEqual({
+      value: { when: '1970-01-01T00:00:00.000Z', tags: ['a'], byId: [[1, 'x']], onSave: '[Function save]', big: '2n' },
+      truncated: false
+    })
+  })
+
+  it('replaces cycles and keeps shared references', () => {
+    const shared = { id: 1 }
+    const value: any = { a: shared, b: shared }
+    value.self = value
+    expect(cloneState(value).value).toEqual({ a: { id: 1 }, b: { id: 1 }, self: '[Circular]' })
+  })
+
+  it('cuts long strings, deep nesting and large collections and says so', () => {
+    let deep: any = 'leaf'
+    for (let i = 0; i < MAX_STATE_DEPTH + 2; i++) deep = { deep }
+
+    expect(cloneState('x'.repeat(MAX_STATE_STRING_LENGTH + 1))).toEqual({ value: `${'x'.repeat(MAX_STATE_STRING_LENGTH)}…`, truncated: true })
+    expect(JSON.stringify(cloneState(deep).value)).toContain(JSON.stringify(TRUNCATED_VALUE))
+    expect(cloneState(Array(1000).fill(0))).toMatchObject({ truncated: true })
+    expect((cloneState(Array(1000).fill(0)).value as unknown[]).length).toBeLessThan(1000)
+  })
+})
+
+describe('diffValues', () => {
+  it('lists changed, added and removed leaves by path', () => {
+    expect(diffValues({ step: 1, cart: { items: [1, 2] } }, { step: 2, cart: { items: [1], coupon: 'X' } })).toEqual([
+      { path: 'step', kind: 'changed', before: 1, after: 2 },
+      { path: 'cart.items[1]', kind: 'removed', before: 2 },
+      { path: 'cart.coupon', kind: 'added', after: 'X' }
+    ])
+  })
+
+  it('reports a value that changed shape as a whole', () => {
+    expect(diffValues([1], { 0: 1 })).toEqual([{ path: '', kind: 'changed', before: [1], after: { 0: 1 } }])
+  })
+})
+
+describe('history positions', () => {
+  const entry = (index: number, instanceId: string, value: unknown): StateHistoryEntry =>
+    ({ index, siteId: 'step', hook: 'useState', state: 'step', instanceId, file: 'src/Wizard.tsx', line: 4, value, timestamp: 0 })
+
+  it('finds the latest state of each instance at a position', () => {
+    const entries = [entry(0, 'Wizard#1', 1), entry(1, 'Wizard#2', 1), entry(2, 'Wizard#1', 2)]
+    expect(Array.from(getLatestStates(entries, 1).values()).map(latest => latest.value)).toEqual([1, 1])
+    expect(getLatestStates(entries, 2).get('Wizard#1\0step')?.value).toBe(2)
+  })
+
+  it('layers branch outcomes up to a position over the base', () => {
+    expect(getOutcomesAt({ a: true }, [{ b: true }, { a: false }], 0)).toEqual({ a: true, b: true })
+    expect(getOutcomesAt({ a: true }, [{ b: true }, { a: false }], 1)).toEqual({ a: false, b: true })
+  })
+})
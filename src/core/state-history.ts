@@ -0,0 +1,122 @@
+import { StateChange, StateHistoryEntry } from '../types'
+
+// Entries kept for the timeline; older ones are dropped first
+export const MAX_STATE_HISTORY = 500
+
+// Values copied per recorded state, counting every object, array and leaf
+export const MAX_STATE_NODES = 500
+
+// Nesting copied per recorded state
+export const MAX_STATE_DEPTH = 8
+
+// Characters kept per string
+export const MAX_STATE_STRING_LENGTH = 500
+
+// Changes listed per diff
+export const MAX_STATE_CHANGES = 200
+
+// What's left of a value past the caps
+export const TRUNCATED_VALUE = '[…]'
+
+export type ValueChange = Pick<StateChange, 'path' | 'kind' | 'before' | 'after'>
+
+function isContainer(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object'
+}
+
+/**
+ * A JSON-safe structural copy of a state value, like structuredClone but
+ * capped in size. Functions, symbols and bigints become descriptions, Maps
+ * and Sets become arrays, and DOM nodes and cycles become placeholders.
+ * Anything past the node, depth or string caps is cut and reported.
+ */
+export function cloneState(value: unknown): { value: unknown; truncated: boolean } {
+  let nodes = 0
+  let truncated = false
+  const ancestors: object[] = []
+
+  const copy = (current: unknown, depth: number): unknown => {
+    if (++nodes > MAX_STATE_NODES || depth > MAX_STATE_DEPTH) {
+      truncated = true
+      return TRUNCATED_VALUE
+    }
+    if (typeof current === 'string') {
+      if (current.length <= MAX_STATE_STRING_LENGTH) return current
+      truncated = true
+      return `${current.slice(0, MAX_STATE_STRING_LENGTH)}…`
+    }
+    if (typeof current === 'function') return `[Function ${current.name || 'anonymous'}]`
+    if (typeof current === 'symbol') return current.toString()
+    if (typeof current === 'bigint') return `${current}n`
+    if (!current || typeof current !== 'object') return current
+    if (ancestors.includes(current)) return '[Circular]'
+    if (current instanceof Date) return isNaN(current.getTime()) ? 'Invalid Date' : current.toISOString()
+    if (typeof Node !== 'undefined' && current instanceof Node) return `[${current.nodeName}]`
+
+    // Past the node cap the rest would only become TRUNCATED_VALUE
+    const items = (list: unknown[]) => list.slice(0, MAX_STATE_NODES - nodes + 1).map(item => copy(item, depth + 1))
+    ancestors.push(current)
+    try {
+      if (current instanceof Map) return items(Array.from(current.entries()))
+      if (current instanceof Set) return items(Array.from(current))
+      if (Array.isArray(current)) return items(current)
+
+      const result: Record<string, unknown> = {}
+      Object.keys(current).slice(0, MAX_STATE_NODES - nodes + 1).forEach(key => {
+        try {
+          result[key] = copy((current as Record<string, unknown>)[key], depth + 1)
+        } catch {
+          result[key] = '[getter threw]'
+        }
+      })
+      return result
+    } finally {
+      ancestors.pop()
+    }
+  }
+
+  return { value: copy(value, 0), truncated }
+}
+
+// The differences between two cloned values, leaves first in key order
+export function diffValues(before: unknown, after: unknown, path = '', changes: ValueChange[] = []): ValueChange[] {
+  if (changes.length > MAX_STATE_CHANGES) return changes
+
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    keys.forEach(key => {
+      const childPath = Array.isArray(before) ? `${path}[${key}]` : path ? `${path}.${key}` : key
+      if (!(key in before)) {
+        changes.push({ path: childPath, kind: 'added', after: after[key] })
+      } else if (!(key in after)) {
+        changes.push({ path: childPath, kind: 'removed', before: before[key] })
+      } else {
+        diffValues(before[key], after[key], childPath, changes)
+      }
+    })
+  } else if (!Object.is(before, after)) {
+    changes.push({ path, kind: 'changed', before, after })
+  }
+
+  return changes
+}
+
+// The latest entry of each instance's state, up to and including `position` in `entries`
+export function getLatestStates(entries: StateHistoryEntry[], position: number): Map<string, StateHistoryEntry> {
+  const latest = new Map<string, StateHistoryEntry>()
+  entries.slice(0, position + 1).forEach(entry => latest.set(`${entry.instanceId}\0${entry.siteId}`, entry))
+  return latest
+}
+
+/**
+ * Each branch's latest outcome as of `position`. `outcomes[i]` holds the
+ * outcomes seen after entry i was recorded, so they include the render that
+ * used the entry's value.
+ */
+export function getOutcomesAt(
+  base: Record<string, boolean>,
+  outcomes: Array<Record<string, boolean>>,
+  position: number
+): Record<string, boolean> {
+  return Object.assign({}, base, ...outcomes.slice(0, position + 1))
+}
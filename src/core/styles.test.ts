@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { StyleCall } from '../types'
+import { describeDeclarations, describeStyleResult, getSelectorClasses, markStyleResult, readStyleMarkers } from './styles'
+
+const CALL: StyleCall = { callId: '4', siteId: 'src/Button.tsx:style:a', index: 0, branches: [], result: 'white' }
+
+// A CSSStyleDeclaration as the browser exposes it: indexed property names plus lookups
+function declaration(properties: Record<string, string>, important: string[] = []): CSSStyleDeclaration {
+  return Object.assign(Object.keys(properties), {
+    getPropertyValue: (property: string) => properties[property],
+    getPropertyPriority: (property: string) => (important.includes(property) ? 'important' : '')
+  }) as unknown as CSSStyleDeclaration
+}
+
+describe('describeStyleResult', () => {
+  it('turns strings, css`` results and objects into one line of text', () => {
+    expect(describeStyleResult('\n  color: red;\n  margin: 0;\n')).toBe('color: red; margin: 0;')
+    expect(describeStyleResult(['color: ', 'red', () => 'x'])).toBe('color: red')
+    expect(describeStyleResult({ color: 'red' })).toBe('{"color":"red"}')
+    expect(describeStyleResult(false)).toBe('false')
+  })
+})
+
+describe('markStyleResult', () => {
+  it('adds the site and call markers to CSS strings and style objects', () => {
+    expect(markStyleResult('color: red', 'abc', CALL)).toBe('color: red;--frontsense-abc:1;--frontsense-abc-0:4;')
+    expect(markStyleResult({ color: 'red' }, 'abc', CALL)).toEqual({ color: 'red', '--frontsense-abc': '1', '--frontsense-abc-0': '4' })
+  })
+
+  it('leaves other results alone', () => {
+    const parts = ['color: red']
+    expect(markStyleResult(parts, 'abc', CALL)).toBe(parts)
+    expect(markStyleResult(undefined, 'abc', CALL)).toBeUndefined()
+  })
+})
+
+describe('rule markers', () => {
+  const style = declaration({ 'color': 'white', '--frontsense-abc': '1', '--frontsense-abc-0': ' 4', 'margin': '0' }, ['margin'])
+
+  it('reads the site and call markers of a rule', () => {
+    expect(readStyleMarkers(style)).toEqual([{ marker: 'abc' }, { marker: 'abc', index: 0, callId: '4' }])
+  })
+
+  it('describes the declarations without the markers', () => {
+    expect(describeDeclarations(style)).toBe('color: white; margin: 0 !important')
+  })
+})
+
+describe('getSelectorClasses', () => {
+  it('lists the class names in a selector', () => {
+    expect(getSelectorClasses('.sc-a.hover:hover > .b-1, ._c')).toEqual(['sc-a', 'hover', 'b-1', '_c'])
+  })
+})
@@ -0,0 +1,135 @@
+import { StyleCall } from '../types'
+
+// Distinct style function outcomes kept; later ones go unmarked
+export const MAX_STYLE_CALLS = 1000
+
+// Characters of a style function's result kept for display
+export const MAX_STYLE_RESULT_LENGTH = 200
+
+// Custom properties the Babel plugin (traceStyles) adds: `--frontsense-<site>` and `--frontsense-<site>-<function>`
+export const STYLE_MARKER_PREFIX = '--frontsense-'
+
+export interface StyleMarker {
+  marker: string
+  index?: number
+  callId?: string
+}
+
+// A rule from the page's stylesheets, with where it came from
+export interface PageRule {
+  rule: CSSStyleRule
+  stylesheet: string
+  media?: string
+}
+
+// What a style function returned, as text: a CSS string, a css`` result or a style object
+export function describeStyleResult(result: unknown): string {
+  let text: string
+  if (typeof result === 'string') {
+    text = result
+  } else if (Array.isArray(result)) {
+    text = result.filter(part => typeof part === 'string').join('')
+  } else if (result && typeof result === 'object') {
+    try {
+      text = JSON.stringify(result)
+    } catch {
+      text = '[object]'
+    }
+  } else {
+    text = String(result)
+  }
+  return text.replace(/\s+/g, ' ').trim().slice(0, MAX_STYLE_RESULT_LENGTH)
+}
+
+// The declaration naming a style function's outcome, as its templates and results carry it
+export function createCallMarker(call: StyleCall, marker: string): string {
+  return `;${STYLE_MARKER_PREFIX}${marker}-${call.index}:${call.callId};`
+}
+
+/**
+ * Adds the site's and the call's markers to what a style function passed as
+ * an argument returned: properties of a style object, or declarations after
+ * a CSS string. Other results are returned unchanged.
+ */
+export function markStyleResult(result: unknown, marker: string, call: StyleCall): unknown {
+  if (typeof result === 'string') {
+    return `${result};${STYLE_MARKER_PREFIX}${marker}:1${createCallMarker(call, marker)}`
+  }
+  if (result && typeof result === 'object' && Object.getPrototypeOf(result) === Object.prototype) {
+    return { ...result, [`${STYLE_MARKER_PREFIX}${marker}`]: '1', [`${STYLE_MARKER_PREFIX}${marker}-${call.index}`]: call.callId }
+  }
+  return result
+}
+
+export function readStyleMarkers(style: CSSStyleDeclaration): StyleMarker[] {
+  const markers: StyleMarker[] = []
+  for (let i = 0; i < style.length; i++) {
+    const property = style[i]
+    if (!property.startsWith(STYLE_MARKER_PREFIX)) continue
+    const [marker, index] = property.slice(STYLE_MARKER_PREFIX.length).split('-')
+    markers.push(index === undefined
+      ? { marker }
+      : { marker, index: Number(index), callId: style.getPropertyValue(property).trim() })
+  }
+  return markers
+}
+
+// The rule's declarations without the markers
+export function describeDeclarations(style: CSSStyleDeclaration): string {
+  const declarations: string[] = []
+  for (let i = 0; i < style.length; i++) {
+    const property = style[i]
+    if (property.startsWith(STYLE_MARKER_PREFIX)) continue
+    const priority = style.getPropertyPriority(property)
+    declarations.push(`${property}: ${style.getPropertyValue(property)}${priority ? ` !${priority}` : ''}`)
+  }
+  return declarations.join('; ')
+}
+
+export function getSelectorClasses(selector: string): string[] {
+  return Array.from(selector.matchAll(/\.(-?[_a-zA-Z][\w-]*)/g), match => match[1])
+}
+
+/**
+ * Style rules of every sheet the page can read, including those inside
+ * @media and @supports. Cross-origin sheets throw on access and are skipped.
+ */
+export function collectPageRules(root: Document): PageRule[] {
+  const rules: PageRule[] = []
+  const walk = (list: CSSRuleList, stylesheet: string, media?: string) => {
+    Array.from(list).forEach(rule => {
+      if ('selectorText' in rule) {
+        rules.push({ rule: rule as CSSStyleRule, stylesheet, ...(media && { media }) })
+      } else if ('cssRules' in rule) {
+        const conditionText = (rule as CSSMediaRule).media?.mediaText ?? (rule as CSSSupportsRule).conditionText
+        walk((rule as CSSGroupingRule).cssRules, stylesheet, conditionText || media)
+      }
+    })
+  }
+
+  Array.from(root.styleSheets).forEach(sheet => {
+    try {
+      walk(sheet.cssRules, sheet.href || '<style>')
+    } catch {
+      // Cross-origin
+    }
+  })
+  return rules
+}
+
+/**
+ * Whether the element gets the rule: 'match' when it applies now, 'pseudo'
+ * when it would in some state (`:hover`) or applies to a pseudo-element.
+ */
+export function matchRule(element: Element, selector: string): 'match' | 'pseudo' | undefined {
+  return selector.split(',').reduce<'match' | 'pseudo' | undefined>((found, part) => {
+    if (found === 'match') return found
+    try {
+      if (element.matches(part)) return 'match'
+      const stateless = part.replace(/::?[\w-]+(\([^)]*\))?/g, '').trim()
+      return stateless && stateless !== part.trim() && element.matches(stateless) ? 'pseudo' : found
+    } catch {
+      return found
+    }
+  }, undefined)
+}
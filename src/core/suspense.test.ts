@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { SuspenseEpisode } from '../types'
+import { findSuspenseWaterfalls } from './suspense'
+
+function episode(episodeId: string, suspendedAt: number, resolvedAt?: number, after?: string): SuspenseEpisode {
+  return { episodeId, siteId: episodeId, fallback: '<Spinner />', file: 'src/Page.tsx', line: 1, suspendedAt, resolvedAt, waitedOn: [], after }
+}
+
+describe('findSuspenseWaterfalls', () => {
+  it('reports nested boundaries that loaded one after another', () => {
+    const [waterfall] = findSuspenseWaterfalls([episode('page', 0, 300), episode('chart', 300, 500, 'page')])
+
+    expect(waterfall.episodes.map(item => item.episodeId)).toEqual(['page', 'chart'])
+    expect(waterfall).toMatchObject({ duration: 500, parallelDuration: 300, savings: 200 })
+  })
+
+  it('ignores boundaries that are still suspended', () => {
+    expect(findSuspenseWaterfalls([episode('page', 0, 300), episode('chart', 300, undefined, 'page')])).toEqual([])
+  })
+})
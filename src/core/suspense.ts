@@ -0,0 +1,29 @@
+import { SuspenseEpisode, SuspenseWaterfall } from '../types'
+import { collectChains } from './chains'
+
+// Episodes kept for the panel; older ones are dropped first
+export const MAX_SUSPENSE_EPISODES = 200
+
+let episodeCounter = 0
+
+export function nextEpisodeId(): string {
+  return `suspense_${++episodeCounter}`
+}
+
+/**
+ * Chains of boundaries where each one's fallback appeared in the commit that
+ * revealed the previous one's content: nested boundaries that only started
+ * loading once their parent had finished.
+ */
+export function findSuspenseWaterfalls(episodes: SuspenseEpisode[]): SuspenseWaterfall[] {
+  const resolved = episodes.filter(episode => episode.resolvedAt !== undefined)
+
+  return collectChains(resolved, episode => episode.episodeId)
+    .map(chain => {
+      const duration = chain[chain.length - 1].resolvedAt! - chain[0].suspendedAt
+      const parallelDuration = Math.max(...chain.map(episode => episode.resolvedAt! - episode.suspendedAt))
+      return { episodes: chain, duration, parallelDuration, savings: duration - parallelDuration }
+    })
+    .filter(waterfall => waterfall.savings > 0)
+    .sort((a, b) => b.savings - a.savings)
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { addTimingSample, createTimingStats, mergeTimingStats } from './timing'
+
+function timingOf(durations: number[]) {
+  const stats = createTimingStats()
+  durations.forEach(duration => addTimingSample(stats, duration))
+  return stats
+}
+
+describe('addTimingSample', () => {
+  it('keeps count, total, min, max and mean', () => {
+    expect(timingOf([2, 4, 9])).toMatchObject({ count: 3, total: 15, min: 2, max: 9, mean: 5 })
+  })
+
+  it('counts each sample in a log2 bucket', () => {
+    const stats = timingOf([1, 1, 3])
+    expect(stats.buckets).toHaveLength(25)
+    expect(stats.buckets.reduce((sum, count) => sum + count, 0)).toBe(3)
+    expect(stats.buckets[10]).toBe(2) // (0.5ms, 1ms]
+    expect(stats.buckets[12]).toBe(1) // (2ms, 4ms]
+  })
+
+  it('estimates percentiles as bucket upper bounds within the observed range', () => {
+    const stats = timingOf([...Array(90).fill(1), ...Array(9).fill(5), 100])
+
+    expect(stats.p50).toBe(1)
+    expect(stats.p90).toBe(1)
+    expect(stats.p99).toBe(8)
+  })
+
+  it('clamps estimates to the slowest sample', () => {
+    expect(timingOf([3]).p99).toBe(3)
+  })
+})
+
+describe('mergeTimingStats', () => {
+  it('combines buckets and re-estimates percentiles', () => {
+    const merged = mergeTimingStats(timingOf([1, 1]), timingOf([30, 30, 30]))
+
+    expect(merged).toMatchObject({ count: 5, total: 92, min: 1, max: 30 })
+    expect(merged.mean).toBeCloseTo(18.4)
+    expect(merged.p50).toBe(30)
+    expect(merged.buckets[10]).toBe(2)
+  })
+})
@@ -0,0 +1,74 @@
+import { TimingStats } from '../types'
+
+// Log2 buckets from ~1µs (bucket 0) up to ~16s (last bucket), in milliseconds
+const MIN_BUCKET_MS = 2 ** -10
+const BUCKET_COUNT = 25
+
+function getBucket(duration: number): number {
+  if (duration <= MIN_BUCKET_MS) return 0
+  return Math.min(BUCKET_COUNT - 1, Math.ceil(Math.log2(duration / MIN_BUCKET_MS)))
+}
+
+/**
+ * Estimates a percentile from the bucket counts without keeping raw samples.
+ * The estimate is the upper bound of the bucket holding the percentile,
+ * clamped to the observed min/max.
+ */
+function estimatePercentile(stats: TimingStats, quantile: number): number {
+  const target = Math.ceil(stats.count * quantile)
+  let seen = 0
+
+  for (let bucket = 0; bucket < stats.buckets.length; bucket++) {
+    seen += stats.buckets[bucket]
+    if (seen >= target) {
+      const upperBound = MIN_BUCKET_MS * 2 ** bucket
+      return Math.min(stats.max, Math.max(stats.min, upperBound))
+    }
+  }
+
+  return stats.max
+}
+
+export function createTimingStats(): TimingStats {
+  return {
+    count: 0,
+    total: 0,
+    min: Infinity,
+    max: 0,
+    mean: 0,
+    p50: 0,
+    p90: 0,
+    p99: 0,
+    buckets: new Array(BUCKET_COUNT).fill(0)
+  }
+}
+
+export function addTimingSample(stats: TimingStats, duration: number) {
+  stats.count++
+  stats.total += duration
+  stats.min = Math.min(stats.min, duration)
+  stats.max = Math.max(stats.max, duration)
+  stats.mean = stats.total / stats.count
+  stats.buckets[getBucket(duration)]++
+
+  stats.p50 = estimatePercentile(stats, 0.5)
+  stats.p90 = estimatePercentile(stats, 0.9)
+  stats.p99 = estimatePercentile(stats, 0.99)
+}
+
+export function mergeTimingStats(into: TimingStats, from: TimingStats): TimingStats {
+  const merged: TimingStats = {
+    ...into,
+    count: into.count + from.count,
+    total: into.total + from.total,
+    min: Math.min(into.min, from.min),
+    max: Math.max(into.max, from.max),
+    buckets: into.buckets.map((count, bucket) => count + (from.buckets[bucket] || 0))
+  }
+
+  merged.mean = merged.count > 0 ? merged.total / merged.count : 0
+  merged.p50 = estimatePercentile(merged, 0.5)
+  merged.p90 = estimatePercentile(merged, 0.9)
+  merged.p99 = estimatePercentile(merged, 0.99)
+  return merged
+}
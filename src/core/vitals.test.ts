@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { VitalEntry } from '../types'
+import { MAX_VITAL_ACTIVITY, VITAL_LOOKBACK_MS, createActivityLog, logActivity, readActivity, readVitalEntry, summarizeVitals } from './vitals'
+
+function entry(metric: VitalEntry['metric'], value: number, startTime = 0, overrides: Partial<VitalEntry> = {}): VitalEntry {
+  return { entryId: `${metric}_${startTime}`, metric, value, startTime, duration: 0, components: [], branches: [], ...overrides }
+}
+
+describe('activity log', () => {
+  it('returns the activity in a window, most recent first', () => {
+    const log = createActivityLog()
+    ;[10, 20, 30, 40].forEach(at => logActivity(log, { at, component: `C${at}` }))
+    expect(readActivity(log, 15, 35).map(activity => activity.component)).toEqual(['C30', 'C20'])
+  })
+
+  it('keeps only the latest entries', () => {
+    const log = createActivityLog()
+    for (let at = 0; at < MAX_VITAL_ACTIVITY + 5; at++) logActivity(log, { at })
+
+    const kept = readActivity(log, 0, Infinity)
+    expect(kept).toHaveLength(MAX_VITAL_ACTIVITY)
+    expect(kept[0].at).toBe(MAX_VITAL_ACTIVITY + 4)
+    expect(kept[kept.length - 1].at).toBe(5)
+  })
+})
+
+describe('readVitalEntry', () => {
+  it('looks back before paints and shifts', () => {
+    expect(readVitalEntry('lcp', { startTime: 900, duration: 0 } as PerformanceEntry)).toMatchObject({
+      value: 900, from: 900 - VITAL_LOOKBACK_MS, to: 900
+    })
+  })
+
+  it('skips shifts right after input and events outside an interaction', () => {
+    expect(readVitalEntry('cls', { startTime: 5, value: 0.2, hadRecentInput: true } as any)).toBeUndefined()
+    expect(readVitalEntry('inp', { startTime: 5, duration: 80, interactionId: 0 } as any)).toBeUndefined()
+    expect(readVitalEntry('inp', { startTime: 5, duration: 80, interactionId: 3 } as any)).toMatchObject({ value: 80, from: 5, to: 85 })
+  })
+})
+
+describe('summarizeVitals', () => {
+  it('uses the worst layout shift session and counts blocking time', () => {
+    const metrics = summarizeVitals([
+      entry('cls', 0.1, 0),
+      entry('cls', 0.1, 500),
+      entry('cls', 0.15, 3000),
+      entry('long-task', 120, 100, { duration: 120 }),
+      entry('long-task', 60, 400, { duration: 60 })
+    ])
+
+    expect(metrics.cls).toBeCloseTo(0.2)
+    expect(metrics).toMatchObject({ longTasks: 2, totalBlockingTime: 80 })
+    expect(metrics).not.toHaveProperty('lcp')
+  })
+
+  it('takes the latest LCP and the interaction percentile', () => {
+    const interactions = Array.from({ length: 60 }, (_, index) => entry('inp', index + 1, index, { interactionId: index + 1 }))
+    const metrics = summarizeVitals([entry('lcp', 800), entry('lcp', 1200), ...interactions])
+
+    expect(metrics.lcp).toBe(1200)
+    expect(metrics.inp).toBe(59) // The slowest is ignored once there are 50 or more
+  })
+
+  it('ranks the components and branches entries were attributed to', () => {
+    const branch = { branchId: 'src/Hero.tsx:if:a', condition: 'img', taken: true, file: 'src/Hero.tsx', line: 4, hits: 2 }
+    const metrics = summarizeVitals([
+      entry('lcp', 800, 0, { source: { component: 'Hero', file: 'src/Hero.tsx', line: 3 }, components: ['Page'], branches: [branch] }),
+      entry('long-task', 90, 5, { duration: 90, components: ['Hero'], branches: [branch] })
+    ])
+
+    expect(metrics.topComponents).toEqual([
+      { component: 'Hero', entries: 2, metrics: ['lcp', 'long-task'] },
+      { component: 'Page', entries: 1, metrics: ['lcp'] }
+    ])
+    expect(metrics.topBranches).toEqual([{ branchId: branch.branchId, condition: 'img', taken: true, file: 'src/Hero.tsx', line: 4, entries: 2 }])
+  })
+})
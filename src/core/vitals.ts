@@ -0,0 +1,183 @@
+import { ElementSource, UxMetrics, VitalBranch, VitalEntry, VitalMetric } from '../types'
+
+// Entries kept for the summary; older ones are dropped first
+export const MAX_VITAL_ENTRIES = 200
+
+// Renders and branch outcomes kept for attribution. Observers deliver entries a
+// frame or more after they happen, so this has to cover a busy second or two.
+export const MAX_VITAL_ACTIVITY = 2000
+
+// LCP and layout shifts come after the render that caused them, so what ran this long before counts too
+export const VITAL_LOOKBACK_MS = 500
+
+// Components and branches attributed to each entry, most recent first
+export const MAX_VITAL_ATTRIBUTION = 10
+
+// Interactions faster than this aren't reported (the browser's minimum is 16)
+export const INTERACTION_THRESHOLD_MS = 40
+
+// Long task time beyond this counts as blocking
+export const BLOCKING_THRESHOLD_MS = 50
+
+// Set on DOM elements by the Babel plugin (trackVitals) as `Component@file:line`
+export const ELEMENT_SOURCE_ATTRIBUTE = 'data-frontsense'
+
+const ENTRY_METRICS: Record<string, VitalMetric> = {
+  'largest-contentful-paint': 'lcp',
+  'layout-shift': 'cls',
+  'event': 'inp',
+  'longtask': 'long-task'
+}
+
+// A tracked render or branch outcome, at `performance.now()` time
+export interface Activity {
+  at: number
+  component?: string
+  branchId?: string
+  taken?: boolean
+}
+
+// Ring buffer of the latest activity
+export interface ActivityLog {
+  entries: Activity[]
+  next: number
+}
+
+// What a performance entry measured and the window of activity it is attributed to
+export interface VitalReading {
+  value: number
+  startTime: number
+  duration: number
+  node?: Node | null
+  interactionId?: number
+  from: number
+  to: number
+}
+
+export function createActivityLog(): ActivityLog {
+  return { entries: [], next: 0 }
+}
+
+export function logActivity(log: ActivityLog, activity: Activity) {
+  log.entries[log.next] = activity
+  log.next = (log.next + 1) % MAX_VITAL_ACTIVITY
+}
+
+// Activity between `from` and `to`, most recent first
+export function readActivity(log: ActivityLog, from: number, to: number): Activity[] {
+  const ordered = log.entries.slice(log.next).concat(log.entries.slice(0, log.next))
+  return ordered.filter(activity => activity.at >= from && activity.at <= to).reverse()
+}
+
+/**
+ * Observes LCP candidates, layout shifts, interactions and long tasks,
+ * including the ones buffered before the collector started. Entry types the
+ * browser doesn't support are skipped. Returns a function that disconnects.
+ */
+export function observeVitals(report: (metric: VitalMetric, entry: PerformanceEntry) => void): () => void {
+  if (typeof PerformanceObserver === 'undefined') return () => {}
+  const supported = PerformanceObserver.supportedEntryTypes || []
+
+  const observers = Object.entries(ENTRY_METRICS)
+    .filter(([type]) => supported.includes(type))
+    .map(([type, metric]) => {
+      const observer = new PerformanceObserver(list => list.getEntries().forEach(entry => report(metric, entry)))
+      observer.observe({
+        type,
+        buffered: true,
+        ...(type === 'event' && { durationThreshold: INTERACTION_THRESHOLD_MS })
+      } as PerformanceObserverInit)
+      return observer
+    })
+
+  return () => observers.forEach(observer => observer.disconnect())
+}
+
+// Reads an observed entry; shifts right after input and events outside an interaction don't count
+export function readVitalEntry(metric: VitalMetric, entry: PerformanceEntry): VitalReading | undefined {
+  const timing = entry as any
+  const { startTime, duration } = entry
+
+  switch (metric) {
+    case 'lcp':
+      return { value: startTime, startTime, duration: 0, node: timing.element, from: startTime - VITAL_LOOKBACK_MS, to: startTime }
+    case 'cls': {
+      if (timing.hadRecentInput) return undefined
+      const source = (timing.sources || []).find((shifted: { node?: Node | null }) => shifted.node)
+      return { value: timing.value, startTime, duration: 0, node: source?.node, from: startTime - VITAL_LOOKBACK_MS, to: startTime }
+    }
+    case 'inp':
+      if (!timing.interactionId) return undefined
+      return { value: duration, startTime, duration, node: timing.target, interactionId: timing.interactionId, from: startTime, to: startTime + duration }
+    case 'long-task':
+      return { value: duration, startTime, duration, from: startTime, to: startTime + duration }
+  }
+}
+
+// The nearest instrumented element at or around `node`
+export function findElementSource(node: Node | null | undefined): ElementSource | undefined {
+  const element = node && (node.nodeType === 1 ? node as Element : node.parentElement)
+  const value = element?.closest(`[${ELEMENT_SOURCE_ATTRIBUTE}]`)?.getAttribute(ELEMENT_SOURCE_ATTRIBUTE)
+  const match = value ? /^([^@]*)@(.+):(\d+)$/.exec(value) : null
+  if (!match) return undefined
+  return { ...(match[1] && { component: match[1] }), file: match[2], line: Number(match[3]) }
+}
+
+// The interaction value per the INP definition: the worst, ignoring one per 50 interactions
+function getInteractionPercentile(durations: number[]): number | undefined {
+  const sorted = [...durations].sort((a, b) => b - a)
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length / 50))]
+}
+
+// Shifts less than a second apart form a session, capped at five seconds; CLS is the worst session
+function getLayoutShiftScore(shifts: VitalEntry[]): number {
+  let score = 0
+  let session = 0
+  let sessionStart = 0
+  let previous = -Infinity
+
+  shifts.forEach(shift => {
+    if (shift.startTime - previous > 1000 || shift.startTime - sessionStart > 5000) {
+      session = 0
+      sessionStart = shift.startTime
+    }
+    session += shift.value
+    previous = shift.startTime
+    score = Math.max(score, session)
+  })
+
+  return score
+}
+
+export function summarizeVitals(entries: VitalEntry[]): UxMetrics {
+  const ofMetric = (metric: VitalMetric) => entries.filter(entry => entry.metric === metric)
+  const longTasks = ofMetric('long-task')
+
+  const components: Record<string, UxMetrics['topComponents'][number]> = {}
+  const branches: Record<string, UxMetrics['topBranches'][number]> = {}
+  entries.forEach(entry => {
+    const names = new Set(entry.source?.component ? [entry.source.component, ...entry.components] : entry.components)
+    names.forEach(component => {
+      const stats = components[component] = components[component] || { component, entries: 0, metrics: [] }
+      stats.entries++
+      if (!stats.metrics.includes(entry.metric)) stats.metrics.push(entry.metric)
+    })
+    entry.branches.forEach(({ hits, ...branch }: VitalBranch) => {
+      const key = `${branch.branchId}:${branch.taken}`
+      branches[key] = branches[key] || { ...branch, entries: 0 }
+      branches[key].entries++
+    })
+  })
+
+  const lcp = ofMetric('lcp').pop()?.value
+  const inp = getInteractionPercentile(ofMetric('inp').map(entry => entry.value))
+  return {
+    ...(lcp !== undefined && { lcp }),
+    cls: getLayoutShiftScore(ofMetric('cls')),
+    ...(inp !== undefined && { inp }),
+    longTasks: longTasks.length,
+    totalBlockingTime: longTasks.reduce((sum, task) => sum + Math.max(0, task.duration - BLOCKING_THRESHOLD_MS), 0),
+    topComponents: Object.values(components).sort((a, b) => b.entries - a.entries).slice(0, 10),
+    topBranches: Object.values(branches).sort((a, b) => b.entries - a.entries).slice(0, 10)
+  }
+}
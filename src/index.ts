@@ -6,12 +6,25 @@ export { default as runtimeCoveragePlugin } from './vite-plugin'
 export { default as BranchHeatmap } from './components/BranchHeatmap'
 export { default as ExecutionTree } from './components/ExecutionTree'
 export { default as CoveragePanel } from './components/CoveragePanel'
+export { default as LoopHistogram } from './components/LoopHistogram'
+export { default as BranchDetails } from './components/BranchDetails'
+export { default as RenderTable } from './components/RenderTable'
+export { default as HookTable } from './components/HookTable'
+export { default as CausalChain } from './components/CausalChain'
+export { default as AsyncTable } from './components/AsyncTable'
+export { default as EventLog } from './components/EventLog'
+export { default as SuspenseTimeline } from './components/SuspenseTimeline'
+export { default as StyleInspector } from './components/StyleInspector'
+export { default as StateTimeline } from './components/StateTimeline'
+export { default as CoverageScope } from './components/CoverageScope'
 
 // Types
 export * from './types'
 
 // Utilities
 export { initializeRuntimeCoverage, openCoveragePanel } from './utils/dev-tools'
+export { summarizePerformance, formatFindings, readPerformanceData } from './core/insights'
+export type { PerformanceData, PerformanceSource } from './core/insights'
 
 // Hook for React applications
 export { useRuntimeCoverage } from './utils/react-hook'
\ No newline at end of file
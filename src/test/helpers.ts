@@ -0,0 +1,48 @@
+import { transformSync } from '@babel/core'
+import { vi } from 'vitest'
+import runtimeCoverageBabelPlugin from '../babel-plugin'
+import RuntimeCoverageCollector from '../core/runtime-collector'
+import { BranchManifestEntry, RuntimeCoverageConfig } from '../types'
+
+// Instruments `code` as /app/src/App.jsx, returning the output and the branches it registered
+export function instrument(code: string, options: Record<string, unknown> = {}) {
+  const manifest: BranchManifestEntry[] = []
+  const result = transformSync(code, {
+    filename: '/app/src/App.jsx',
+    babelrc: false,
+    configFile: false,
+    parserOpts: { plugins: ['jsx', 'typescript'] },
+    plugins: [[runtimeCoverageBabelPlugin, {
+      root: '/app',
+      onManifest: (_file: string, entries: BranchManifestEntry[]) => manifest.push(...entries),
+      ...options
+    }]]
+  })
+  return { code: result?.code || '', manifest }
+}
+
+// Runs instrumented plain JS (no imports or JSX) and returns its top-level `name`
+export function evaluate<T = any>(code: string, name: string): T {
+  return new Function(`${code}\nreturn ${name}`)()
+}
+
+export function createTestConfig(overrides: Partial<RuntimeCoverageConfig> = {}): RuntimeCoverageConfig {
+  return {
+    enabled: true,
+    sampling: { enabled: false, sampleRate: 1, maxSamplesPerSecond: 1000, collectExecutionTime: false },
+    excludePatterns: [],
+    includePatterns: ['**/*'],
+    sendToAnalytics: false,
+    visualizationEnabled: false,
+    ...overrides
+  }
+}
+
+/**
+ * A collector registered on a stubbed `window` (the global object), as the
+ * instrumented code and the dev tools expect. Undo with `vi.unstubAllGlobals()`.
+ */
+export function createTestCollector(overrides: Partial<RuntimeCoverageConfig> = {}): RuntimeCoverageCollector {
+  vi.stubGlobal('window', globalThis)
+  return new RuntimeCoverageCollector(createTestConfig(overrides))
+}
@@ -1,14 +1,532 @@
+export type BranchArmKind = 'consequent' | 'alternate' | 'implicit-else' | 'case' | 'default'
+
+export interface BranchArm {
+  kind: BranchArmKind
+  index: number
+  parentBranchId: string
+}
+
+export type BranchOwnerKind = 'component' | 'hook' | 'handler' | 'function'
+
+export interface BranchOwner {
+  functionName: string
+  kind: BranchOwnerKind
+  component?: string
+  hook?: string
+  handler?: string
+}
+
+export type LoopKind = 'for' | 'for-in' | 'for-of' | 'while' | 'do-while' | 'array-callback'
+
+export interface LoopStats {
+  kind: LoopKind
+  executions: number
+  totalIterations: number
+  maxIterations: number
+  histogram: Record<string, number> // iteration-count bucket -> executions
+}
+
+export interface OperandReservoir {
+  seen: number // Evaluations with this outcome offered for sampling
+  samples: string[][] // Each sample holds one formatted value per operand
+}
+
+export interface OperandSamples {
+  operands: string[]
+  whenTrue: OperandReservoir
+  whenFalse: OperandReservoir
+}
+
+export interface OperandCaptureConfig {
+  reservoirSize: number // Samples kept per branch and outcome
+  maxValueLength: number // Characters kept per formatted value
+  redactPatterns: string[] // Operands whose name matches one of these (case-insensitive) are redacted
+}
+
+export interface TimingStats {
+  count: number
+  total: number // ms
+  min: number
+  max: number
+  mean: number
+  p50: number // Percentiles are estimated from log2 buckets
+  p90: number
+  p99: number
+  buckets: number[]
+}
+
 export interface BranchHit {
   branchId: string
   file: string
   line: number
   column: number
-  type: 'if' | 'switch' | 'ternary' | 'logical' | 'jsx-conditional'
+  type:
+    | 'if'
+    | 'switch'
+    | 'switch-case'
+    | 'ternary'
+    | 'logical'
+    | 'jsx-conditional'
+    | 'jsx-ternary'
+    | 'nullish'
+    | 'optional-chain'
+    | 'logical-assignment'
+    | 'default-param'
+    | 'loop'
+    | 'catch'
+    | 'throw'
   condition: string
   hitCount: number
   missCount: number
   timestamp: number
-  executionTime?: number
+  executionTime?: number // Mean ms spent in this arm (same as timing.mean)
+  timing?: TimingStats
+  arm?: BranchArm
+  fallThroughCount?: number
+  owner?: BranchOwner
+  label?: string // From a `frontsense-label:` comment
+  expectedDead?: boolean // From a `frontsense-expect: dead` comment
+  loop?: LoopStats
+  operandSamples?: OperandSamples
+  tryEntries?: number // catch: times the guarded try block was entered
+  errorTypes?: Record<string, number> // catch/throw: error constructor name -> count
+  scopes?: string[] // trackScopes: enabled <CoverageScope>s the branch ran under
+}
+
+export interface RenderStats {
+  componentId: string
+  component: string
+  file: string
+  line: number
+  renders: number
+  wastedRenders: number // Props and hook state shallow-equal to the instance's previous render
+  instances: number // Mounted instances seen rendering
+  maxInstanceRenders: number // Renders of the busiest single instance
+  lastRender: number
+}
+
+export type AuditedHook = 'useEffect' | 'useLayoutEffect' | 'useMemo' | 'useCallback'
+
+// One audited hook call site, as the Babel plugin describes it
+export interface HookSite {
+  hookId: string
+  hook: AuditedHook
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+  dependencies?: string[] // Source of each dependency; absent when the deps aren't an array literal
+}
+
+export interface HookDependencyStats {
+  name: string
+  changes: number // Re-runs this dependency changed in
+  identityOnlyChanges: number // Changes where the new value was deep-equal to the old one
+}
+
+export interface HookStats extends Omit<HookSite, 'dependencies'> {
+  runs: number // Mounts plus re-runs React performs for changed dependencies
+  instances: number
+  dependencies: HookDependencyStats[]
+  withoutDependencies: boolean // Called without a deps array, so it runs on every render
+  suspectedLoops: number // Times one effect instance ran in a rapid burst
+  timestamp: number
+}
+
+export type StateUpdateKind = 'useState' | 'useReducer' | 'setState'
+
+// One traced state setter, dispatch or setState call site
+export interface StateUpdateSite {
+  siteId: string
+  kind: StateUpdateKind
+  setter: string // `setCount`, `dispatch`, `this.setState`
+  state?: string // The state variable a useState/useReducer setter belongs to
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+}
+
+export interface StateUpdate extends Omit<StateUpdateSite, 'column'> {
+  value: string // Formatted first argument: the new value, updater or action
+  timestamp: number
+}
+
+// A destructured useState/useReducer call whose values are recorded (recordStateHistory)
+export interface StateHookSite {
+  siteId: string
+  hook: Exclude<StateUpdateKind, 'setState'>
+  state: string // The state variable
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+}
+
+// A state value as one component or hook instance rendered it
+export interface StateHistoryEntry {
+  index: number // Increases through the session; older entries are dropped first
+  siteId: string
+  hook: StateHookSite['hook']
+  state: string
+  instanceId: string // `Cart#2`: the owner and a per-owner instance number
+  file: string
+  line: number
+  owner?: BranchOwner
+  value: unknown // Structural clone, cut down past the size cap
+  truncated?: boolean
+  timestamp: number
+}
+
+export type StateChangeKind = 'added' | 'removed' | 'changed'
+
+// One difference between two recorded values of a state, at `path` inside it
+export interface StateChange {
+  instanceId: string
+  state: string
+  siteId: string
+  path: string // `items[2].qty`; empty for the whole value
+  kind: StateChangeKind
+  before?: unknown
+  after?: unknown
+}
+
+// A branch whose latest outcome differs between two points of the state history
+export interface BranchOutcomeChange {
+  branchId: string
+  condition: string
+  file: string
+  line: number
+  owner?: BranchOwner
+  before?: boolean // Not run yet when undefined
+  after?: boolean
+}
+
+export interface StateDiff {
+  from: number // Entry indexes
+  to: number
+  changes: StateChange[]
+  branches: BranchOutcomeChange[]
+  truncated?: boolean // More changes than were listed
+}
+
+export interface CausalRender {
+  componentId: string
+  component: string
+  count: number
+}
+
+export type CauseKind = 'event' | 'async'
+
+// A DOM event or async callback and the state updates and renders it caused
+export interface CausalEvent {
+  causeId: string
+  kind: CauseKind
+  label: string // The event type, or the function the first async update ran in
+  target?: string // Element the DOM event fired on (`button#save.primary`)
+  timestamp: number
+  updates: StateUpdate[]
+  renders: CausalRender[] // trackRenders: renders that followed the updates
+}
+
+export type AsyncKind = 'await' | 'promise-chain'
+
+// One awaited expression or promise chain inside a tracked component or hook
+export interface AsyncSite {
+  siteId: string
+  kind: AsyncKind
+  code: string
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+  detached?: boolean // A promise chain whose result is discarded, so nothing else handles its rejection
+}
+
+export interface AsyncStats extends AsyncSite {
+  started: number
+  settled: number
+  rejected: number
+  afterUnmount: number // Settled after the component instance unmounted
+  stale: number // Settled after a newer call from the same site and instance started
+  timestamp: number
+}
+
+export interface PendingAsync extends AsyncSite {
+  startedAt: number
+  mounted: boolean // Whether the instance that started it is still mounted
+}
+
+export type AsyncIssueKind = 'after-unmount' | 'stale'
+
+export interface AsyncIssue extends AsyncSite {
+  issue: AsyncIssueKind
+  startedAt: number
+  settledAt: number
+}
+
+export type EventPhase = 'capture' | 'bubble'
+
+// One `on*` handler prop on a DOM element
+export interface HandlerSite {
+  siteId: string
+  prop: string // `onClick`, `onSubmitCapture`
+  element: string // Tag name of the element the prop is on
+  handler: string // The handler expression, or `(inline)` for an inline function
+  phase: EventPhase
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+}
+
+// A branch outcome recorded while a handler ran synchronously
+export interface HandlerBranch {
+  branchId: string
+  condition: string
+  taken: boolean
+}
+
+export interface HandlerCall extends Omit<HandlerSite, 'column'> {
+  currentTarget?: string // Element whose listener ran the handler
+  stoppedPropagation: boolean // Called stopPropagation()
+  preventedDefault: boolean // Called preventDefault()
+  branches: HandlerBranch[]
+  duration: number
+  timestamp: number
+}
+
+// One dispatched DOM event and the traced handlers it reached, in order
+export interface EventTrace {
+  traceId: string
+  type: string
+  target?: string
+  timestamp: number
+  handlers: HandlerCall[]
+}
+
+export type NetworkApi = 'fetch' | 'xhr'
+
+// Where a request was started: the branch that ran last before it, or the traced handler running it
+export interface RequestInitiator {
+  file: string
+  line: number
+  owner?: BranchOwner
+  branchId?: string
+  condition?: string
+}
+
+export interface NetworkRequest {
+  requestId: string
+  api: NetworkApi
+  method: string
+  url: string
+  status?: number
+  failed?: boolean // The request itself failed (network error or abort), not an HTTP error status
+  startedAt: number
+  endedAt?: number // When the response arrived, or the request failed
+  initiator?: RequestInitiator
+  dependsOn?: string[] // Earlier requests whose response values this one's URL or body contains
+  after?: string // An earlier request that finished just before this one started, whose response this one doesn't use
+}
+
+// Requests that ran one after another although none used the previous one's response
+export interface FetchWaterfall {
+  requests: NetworkRequest[]
+  duration: number // First start to last end
+  parallelDuration: number // How long the chain would take if each request only waited for the responses it uses
+  savings: number
+}
+
+// A `<Suspense>` boundary with a fallback
+export interface SuspenseBoundarySite {
+  siteId: string
+  fallback: string
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+}
+
+export type SuspenderKind = 'use' | 'lazy' | 'throw'
+
+// Code that can suspend: `use(promise)`, a `lazy()` import, or a `throw` of a promise
+export interface SuspenderSite {
+  siteId: string
+  kind: SuspenderKind
+  code: string
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+}
+
+// A promise a boundary waited on
+export interface SuspendedOn extends Omit<SuspenderSite, 'column'> {
+  startedAt: number
+  settledAt?: number
+  rejected?: boolean
+}
+
+// One stretch of a boundary showing its fallback
+export interface SuspenseEpisode extends Omit<SuspenseBoundarySite, 'column'> {
+  episodeId: string
+  suspendedAt: number
+  resolvedAt?: number
+  waitedOn: SuspendedOn[] // Pending promises from instrumented code, thrown before the fallback showed
+  after?: string // The episode whose content revealed this boundary, so it only started suspending then
+}
+
+// Boundaries that suspended one after another, each revealed by the previous one's content
+export interface SuspenseWaterfall {
+  episodes: SuspenseEpisode[]
+  duration: number // First suspension to last resolution
+  parallelDuration: number // The longest episode: how long it would take if all their data loaded at once
+  savings: number
+}
+
+export type StyleKind = 'styled' | 'css'
+
+// A style function passed to a styled or css call, by its position among the call's functions
+export interface StyleFunction {
+  code: string
+  marked: boolean // Its outcome is marked in the rules it produces
+}
+
+// A `styled.x`, `styled(X)` or `css` call from styled-components or Emotion
+export interface StyleSite {
+  siteId: string
+  marker: string // Rules from the site carry `--frontsense-<marker>`
+  kind: StyleKind
+  target?: string // styled: the element or component being styled
+  name?: string // The binding the result is assigned to (`const Button = styled.button`)
+  functions: StyleFunction[]
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner
+}
+
+// One distinct outcome of a style function: the branches it took and what it returned
+export interface StyleCall {
+  callId: string
+  siteId: string
+  index: number
+  branches: HandlerBranch[]
+  result: string
+}
+
+// A CSS rule an element gets, and the call sites and style function outcomes behind it
+export interface StyleRuleMatch {
+  selector: string
+  declarations: string // Without the frontsense markers
+  stylesheet: string // The sheet's URL, or `<style>` for inline sheets
+  media?: string
+  pseudo: boolean // Only applies in a state such as :hover, or to a pseudo-element
+  sites: StyleSite[]
+  calls: StyleCall[]
+  inferred: boolean // Carries no marker itself; attributed through a class it shares with a marked rule
+}
+
+// A `<CoverageScope>` boundary seen at runtime
+export interface CoverageScopeInfo {
+  name: string
+  enabled: boolean // Disabled scopes don't tag branches, and don't count for scopeMode 'limit'
+  components: string[] // Tracked components rendered under it
+}
+
+export type VitalMetric = 'lcp' | 'cls' | 'inp' | 'long-task'
+
+// Where an instrumented DOM element was written, read from its `data-frontsense` attribute
+export interface ElementSource {
+  component?: string
+  file: string
+  line: number
+}
+
+// A branch outcome recorded around a performance entry
+export interface VitalBranch {
+  branchId: string
+  condition: string
+  taken: boolean
+  file: string
+  line: number
+  hits: number
+}
+
+// One LCP candidate, layout shift, interaction or long task, and what ran around it
+export interface VitalEntry {
+  entryId: string
+  metric: VitalMetric
+  value: number // Milliseconds, or the shift score for CLS
+  startTime: number
+  duration: number
+  interactionId?: number // inp: the events of one interaction share it; the slowest is kept
+  element?: string // The LCP element, the node that shifted, or the interaction's target
+  source?: ElementSource
+  components: string[] // Rendered, or ran branches, during the entry (and just before LCP and shifts), most recent first
+  branches: VitalBranch[]
+}
+
+export interface UxMetrics {
+  lcp?: number // Latest LCP candidate
+  cls: number // Largest session window of unexpected shifts
+  inp?: number // 98th percentile of interactions over the reporting threshold
+  longTasks: number
+  totalBlockingTime: number // Long task time beyond 50ms each
+  topComponents: Array<{ component: string; entries: number; metrics: VitalMetric[] }>
+  topBranches: Array<Omit<VitalBranch, 'hits'> & { entries: number }>
+}
+
+export interface BranchManifestEntry {
+  branchId: string
+  file: string
+  line: number
+  column: number
+  type: BranchHit['type']
+  condition: string
+  arm?: BranchArm
+  owner?: BranchOwner
+  label?: string
+  expectedDead?: boolean
+  conditions?: string[]
+  operands?: string[] // captureOperands: source of each captured operand
+}
+
+export type FileSkipReason = 'excluded' | 'not-included' | 'ignore-file'
+
+export interface SkippedFile {
+  file: string
+  reason: FileSkipReason
+  pattern?: string // The exclude pattern that matched
+}
+
+export type RenderRiskKind = 'inline-prop' | 'provider-value' | 'unstable-key'
+
+// What makes a prop, provider value or key different on every render
+export type RenderRiskValue = 'object' | 'array' | 'function' | 'index' | 'random'
+
+// A pattern found at build time that defeats memoization or reconciliation (analyzeRenderRisks)
+export interface RenderRisk {
+  riskId: string
+  kind: RenderRiskKind
+  element: string // `Row`, `ThemeContext.Provider`
+  prop: string // The prop, `value` or `key`
+  value: RenderRiskValue
+  code: string
+  file: string
+  line: number
+  column: number
+  owner?: BranchOwner // Where the JSX is rendered
+  message: string
+}
+
+export interface BranchManifest {
+  version: number
+  generatedAt: string
+  branches: BranchManifestEntry[]
+  skippedFiles?: SkippedFile[]
+  renderRisks?: RenderRisk[]
 }
 
 export interface BranchStats {
@@ -46,17 +564,95 @@ export interface SamplingConfig {
 export interface RuntimeCoverageConfig {
   enabled: boolean
   sampling: SamplingConfig
-  excludePatterns: string[]
+  excludePatterns: string[] // Globs; a later `!pattern` re-includes
   includePatterns: string[]
+  root?: string // Directory patterns are relative to (defaults to process.cwd() at build time)
   sendToAnalytics: boolean
   analyticsEndpoint?: string
   visualizationEnabled: boolean
+  manifestUrl?: string
+  mcdc?: boolean
+  captureOperands?: boolean | Partial<OperandCaptureConfig>
+  trackRenders?: boolean
+  auditHooks?: boolean
+  traceStateUpdates?: boolean
+  trackAsync?: boolean
+  traceEvents?: boolean
+  trackSuspense?: boolean
+  trackNetwork?: boolean // Runtime only: wrap fetch and XMLHttpRequest to find sequential requests
+  trackVitals?: boolean
+  traceStyles?: boolean
+  trackScopes?: boolean
+  recordStateHistory?: boolean
+  analyzeRenderRisks?: boolean // Build only: report props, provider values and keys that change every render
+  scopeMode?: 'tag' | 'limit' // Runtime only: 'limit' records branches only under an enabled scope
+}
+
+export interface DecisionVector {
+  conditions: Array<boolean | null> // null = short-circuited, never evaluated
+  outcome: boolean
+  count: number
+}
+
+export interface ConditionCoverage {
+  index: number
+  condition: string
+  trueCount: number
+  falseCount: number
+  independent: boolean
+  independencePair?: [DecisionVector, DecisionVector]
+}
+
+export interface McdcReport {
+  decisionId: string
+  file: string
+  line: number
+  decision: string
+  conditions: ConditionCoverage[]
+  coveredConditions: number
+  coverageRate: number
 }
 
 export interface InstrumentationContext {
   fileName: string
-  branchCounter: number
+  idOccurrences: Record<string, number> // Branch id hash -> times seen in this file
   config: RuntimeCoverageConfig
+  manifest: BranchManifestEntry[]
+  resolvePosition?: (position: { line: number; column: number }) => { line: number; column: number } | undefined
+  reactImports: Record<string, string> // Hooks imported from react for tracked components, by imported name
+  moduleSites: Array<HookSite | StateUpdateSite | StateHookSite | AsyncSite | HandlerSite | SuspenseBoundarySite | SuspenderSite | StyleSite>
+  moduleSitesName?: string // Local name of the module constant holding moduleSites
+  suspenseFallbackName?: string // Local name of the module's fallback wrapper component (trackSuspense)
+  scopeContextName?: string // Local name of the module constant holding the shared scope context (trackScopes)
+  renderRisks: RenderRisk[] // analyzeRenderRisks
+}
+
+export type FindingSeverity = 'high' | 'medium' | 'low'
+
+export type FindingKind =
+  | 'render-cause'
+  | 'effect-loop'
+  | 'request-waterfall'
+  | 'suspense-waterfall'
+  | 'slow-interaction'
+  | 'slow-handler'
+  | 'long-task'
+  | 'slow-branch'
+  | 'heavy-loop'
+  | 'unstable-dependency'
+  | 'effect-every-render'
+  | 'render-risk'
+
+// A plain-English finding about what's slow and why, with the numbers behind it
+export interface PerformanceFinding {
+  kind: FindingKind
+  severity: FindingSeverity
+  message: string
+  evidence: string[]
+  impact: number // Orders findings of one kind: ms where measured, otherwise a count
+  file?: string
+  line?: number
+  component?: string
 }
 
 export interface AnalyticsEvent {
@@ -65,4 +661,5 @@ export interface AnalyticsEvent {
   timestamp: number
   sessionId: string
   userId?: string
+  uxMetrics?: UxMetrics // trackVitals
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { hashString, normalizeCondition } from './branch-id'
+
+describe('normalizeCondition', () => {
+  it('ignores formatting but keeps spaces between words', () => {
+    expect(normalizeCondition('a  &&\n  b . c')).toBe('a&&b.c')
+    expect(normalizeCondition("typeof  x === 'string'")).toBe("typeof x==='string'")
+  })
+})
+
+describe('hashString', () => {
+  it('is stable and short', () => {
+    expect(hashString('if\0user.admin')).toBe(hashString('if\0user.admin'))
+    expect(hashString('if\0user.admin')).not.toBe(hashString('if\0user.guest'))
+    expect(hashString('x'.repeat(1000))).toMatch(/^[0-9a-z]{1,7}$/)
+  })
+})
@@ -0,0 +1,17 @@
+// FNV-1a; short, stable across runs and platforms, and no Node-only dependencies
+export function hashString(value: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+// Insensitive to reformatting: drops whitespace except between words
+export function normalizeCondition(condition: string): string {
+  return condition
+    .replace(/\s+/g, ' ')
+    .replace(/ ?([^\w$ ]) ?/g, '$1')
+    .trim()
+}
@@ -0,0 +1,34 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { BranchManifestEntry } from '../types'
+
+// The dev tools register themselves on window when the module loads
+let devTools: any
+
+beforeAll(async () => {
+  vi.stubGlobal('window', globalThis)
+  const { initializeRuntimeCoverage } = await import('./dev-tools')
+  initializeRuntimeCoverage({ visualizationEnabled: false })
+  devTools = (window as any).__RUNTIME_COVERAGE_DEV_TOOLS__
+})
+
+function entry(branchId: string, type: BranchManifestEntry['type'], line: number, condition: string): BranchManifestEntry {
+  return { branchId, file: 'src/App.tsx', line, column: 0, type, condition }
+}
+
+describe('generateReport', () => {
+  it('reports a never-run catch once, as unused-catch rather than dead code', () => {
+    // As instrumented modules register their branches
+    ;(window as any).__RUNTIME_COVERAGE_MANIFEST_QUEUE__.push([
+      entry('src/App.tsx:if:a', 'if', 3, 'user'),
+      entry('src/App.tsx:catch:b', 'catch', 8, 'catch (error)'),
+      entry('src/App.tsx:throw:c', 'throw', 12, 'throw new Error()')
+    ])
+
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const report = devTools.generateReport()
+    const about = (type: string) => report.recommendations.filter((r: any) => r.type === type).map((r: any) => r.line)
+
+    expect(about('dead-code')).toEqual([3])
+    expect(about('unused-catch')).toEqual([8])
+  })
+})
@@ -1,6 +1,7 @@
 import React from 'react'
 import { RuntimeCoverageConfig } from '../types'
 import RuntimeCoverageCollector from '../core/runtime-collector'
+import { PerformanceData, formatFindings, readPerformanceData, summarizePerformance } from '../core/insights'
 
 declare global {
   interface Window {
@@ -20,7 +21,7 @@ export function initializeRuntimeCoverage(config: Partial<RuntimeCoverageConfig>
       maxSamplesPerSecond: 1000,
       collectExecutionTime: false
     },
-    excludePatterns: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
+    excludePatterns: ['**/node_modules/**', '**/*.test.*', '**/*.spec.*'],
     includePatterns: ['**/*.{js,jsx,ts,tsx}'],
     sendToAnalytics: false,
     visualizationEnabled: process.env.NODE_ENV === 'development'
@@ -55,6 +56,7 @@ Console commands:
 - window.__RUNTIME_COVERAGE__.getExecutionSummary() - Get execution summary
 - window.__RUNTIME_COVERAGE_DEV__.showSummary() - Show summary in console
 - window.__RUNTIME_COVERAGE_DEV__.exportToFile() - Export data to JSON file
+- window.__RUNTIME_COVERAGE_DEV_TOOLS__.explainPerformance() - What's slow and why
 
 Analytics ${finalConfig.sendToAnalytics ? 'enabled' : 'disabled'}
 Sampling ${finalConfig.sampling.enabled ? `enabled (${finalConfig.sampling.sampleRate * 100}%)` : 'disabled'}
@@ -128,7 +130,7 @@ if (typeof window !== 'undefined') {
       if (!window.__RUNTIME_COVERAGE__) return []
       const stats = window.__RUNTIME_COVERAGE__.getBranchStats()
       return Object.values(stats).filter(branch => 
-        branch.hitCount === 0 && branch.missCount === 0
+        branch.hitCount === 0 && branch.missCount === 0 && !branch.expectedDead
       )
     },
     
@@ -150,7 +152,17 @@ if (typeof window !== 'undefined') {
       })
     },
     
-    generateReport: () => {
+    // Ranked plain-English findings; pass exportData() output to explain a saved session
+    explainPerformance: (data?: PerformanceData, limit?: number) => {
+      const source = data || (window.__RUNTIME_COVERAGE__ && readPerformanceData(window.__RUNTIME_COVERAGE__))
+      if (!source) return []
+
+      const findings = summarizePerformance(source, limit)
+      console.log(`🐢 What's slow and why:\n${formatFindings(findings)}`)
+      return findings
+    },
+
+    generateReport: (frequentThrowThreshold = 10) => {
       if (!window.__RUNTIME_COVERAGE__) return null
       
       const stats = window.__RUNTIME_COVERAGE__.getBranchStats()
@@ -164,16 +176,22 @@ if (typeof window !== 'undefined') {
         hotPathFiles: new Set()
       } as any
 
-      // Analyze dead code
+      // Analyze dead code (branches annotated `frontsense-expect: dead` are meant to stay cold).
+      // Idle catch and throw sites are reported as error paths below, not as dead code.
       Object.values(stats).forEach((branch: any) => {
-        if (branch.hitCount === 0 && branch.missCount === 0) {
+        if (branch.type === 'catch' || branch.type === 'throw') return
+        if (branch.hitCount === 0 && branch.missCount === 0 && !branch.expectedDead) {
           report.deadCodeFiles.add(branch.file)
           report.recommendations.push({
             type: 'dead-code',
             file: branch.file,
             line: branch.line,
             condition: branch.condition,
-            message: `Consider removing unused branch condition: ${branch.condition}`
+            arm: branch.arm,
+            label: branch.label,
+            message: branch.arm
+              ? `The ${branch.arm.kind} arm at line ${branch.line} never ran: ${branch.condition}`
+              : `Consider removing unused branch condition: ${branch.condition}`
           })
         }
       })
@@ -194,6 +212,58 @@ if (typeof window !== 'undefined') {
         }
       })
 
+      // Analyze error paths
+      Object.values(stats).forEach((branch: any) => {
+        if (branch.type === 'catch' && branch.hitCount === 0) {
+          report.recommendations.push({
+            type: 'unused-catch',
+            file: branch.file,
+            line: branch.line,
+            condition: branch.condition,
+            tryEntries: branch.tryEntries || 0,
+            message: `Catch block never ran (guarded block entered ${branch.tryEntries || 0} times): ${branch.condition}`
+          })
+        }
+
+        if (branch.type === 'throw' && branch.hitCount >= frequentThrowThreshold) {
+          const errorTypes = Object.entries(branch.errorTypes || {})
+            .map(([name, count]) => `${name} ×${count}`)
+            .join(', ')
+          report.recommendations.push({
+            type: 'frequent-throw',
+            file: branch.file,
+            line: branch.line,
+            condition: branch.condition,
+            executionCount: branch.hitCount,
+            errorTypes: branch.errorTypes,
+            message: `Throw site fired ${branch.hitCount} times (${errorTypes}): ${branch.condition}`
+          })
+        }
+      })
+
+      // Analyze condition-level (MC/DC) gaps when the build opted in
+      const mcdc = window.__RUNTIME_COVERAGE__.getMcdcCoverage?.() || []
+      mcdc.forEach(decision => {
+        decision.conditions
+          .filter(condition => !condition.independent)
+          .forEach(condition => {
+            const exercised = condition.trueCount > 0 || condition.falseCount > 0
+            report.recommendations.push({
+              type: 'mcdc-gap',
+              file: decision.file,
+              line: decision.line,
+              condition: condition.condition,
+              decision: decision.decision,
+              message: exercised
+                ? `Condition "${condition.condition}" was never shown to independently affect ${decision.decision}`
+                : `Condition "${condition.condition}" in ${decision.decision} was never evaluated`
+            })
+          })
+      })
+
+      // What's slow and why, ranked
+      report.findings = summarizePerformance(readPerformanceData(window.__RUNTIME_COVERAGE__))
+
       report.deadCodeFiles = Array.from(report.deadCodeFiles)
       report.hotPathFiles = Array.from(report.hotPathFiles)
 
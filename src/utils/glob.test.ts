@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { createFileMatcher, expandBraces, findMatchingPattern, matchesGlob, toRootRelative } from './glob'
+
+describe('expandBraces', () => {
+  it('expands nested alternatives and keeps braces without a comma', () => {
+    expect(expandBraces('src/*.{ts,tsx}')).toEqual(['src/*.ts', 'src/*.tsx'])
+    expect(expandBraces('{a,b{1,2}}')).toEqual(['a', 'b1', 'b2'])
+    expect(expandBraces('src/{id}.ts')).toEqual(['src/{id}.ts'])
+  })
+})
+
+describe('matchesGlob', () => {
+  it('keeps * within a segment and lets ** span any number of them', () => {
+    expect(matchesGlob('src/App.tsx', 'src/*.tsx')).toBe(true)
+    expect(matchesGlob('src/pages/Home.tsx', 'src/*.tsx')).toBe(false)
+    expect(matchesGlob('src/pages/Home.tsx', 'src/**/*.tsx')).toBe(true)
+    expect(matchesGlob('src/App.tsx', 'src/**/*.tsx')).toBe(true)
+  })
+
+  it('matches patterns without a slash against the file name', () => {
+    expect(matchesGlob('src/components/Button.stories.tsx', '*.stories.tsx')).toBe(true)
+    expect(matchesGlob('src/components/Button.tsx', '*.stories.tsx')).toBe(false)
+  })
+
+  it('supports ? and character classes', () => {
+    expect(matchesGlob('src/v1.ts', 'src/v?.ts')).toBe(true)
+    expect(matchesGlob('src/v1.ts', 'src/v[!0-9].ts')).toBe(false)
+    expect(matchesGlob('src/va.ts', 'src/v[!0-9].ts')).toBe(true)
+  })
+})
+
+describe('findMatchingPattern', () => {
+  it('lets a later negated pattern take back an earlier match', () => {
+    const patterns = ['src/**', '!src/legacy/**']
+    expect(findMatchingPattern('src/App.tsx', patterns)).toBe('src/**')
+    expect(findMatchingPattern('src/legacy/Old.tsx', patterns)).toBeUndefined()
+  })
+})
+
+describe('toRootRelative', () => {
+  it('drops the root, query strings and Windows separators', () => {
+    expect(toRootRelative('/app/src/App.tsx?v=123', '/app/')).toBe('src/App.tsx')
+    expect(toRootRelative('C:\\app\\src\\App.tsx', 'C:\\app')).toBe('src/App.tsx')
+    expect(toRootRelative('./src/App.tsx')).toBe('src/App.tsx')
+    expect(toRootRelative('/other/App.tsx', '/app')).toBe('/other/App.tsx')
+  })
+})
+
+describe('createFileMatcher', () => {
+  it('gives the reason a file is skipped', () => {
+    const skip = createFileMatcher({ includePatterns: ['src/**'], excludePatterns: ['**/*.test.*'] }, '/app')
+
+    expect(skip('/app/src/App.tsx')).toBeUndefined()
+    expect(skip('/app/src/App.test.tsx')).toEqual({ file: 'src/App.test.tsx', reason: 'excluded', pattern: '**/*.test.*' })
+    expect(skip('/app/scripts/build.ts')).toEqual({ file: 'scripts/build.ts', reason: 'not-included' })
+  })
+
+  it('instruments every file when no patterns are set', () => {
+    expect(createFileMatcher({})('/anywhere/file.js')).toBeUndefined()
+  })
+})
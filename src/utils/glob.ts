@@ -0,0 +1,187 @@
+import { RuntimeCoverageConfig, SkippedFile } from '../types'
+
+// Compiled patterns are reused across every file the plugins see
+const patternCache = new Map<string, RegExp[]>()
+
+function splitAlternatives(body: string): string[] {
+  const alternatives: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (char === '\\') {
+      current += char + (body[++i] ?? '')
+      continue
+    }
+    if (char === '{') depth++
+    if (char === '}') depth--
+    if (char === ',' && depth === 0) {
+      alternatives.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+
+  alternatives.push(current)
+  return alternatives
+}
+
+/**
+ * Expands `{a,b}` alternatives, including nested ones, into plain patterns.
+ * Braces without a comma are kept as literal characters.
+ */
+export function expandBraces(pattern: string): string[] {
+  let depth = 0
+  let start = -1
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      i++
+      continue
+    }
+    if (char === '{') {
+      if (depth++ === 0) start = i
+    } else if (char === '}' && depth > 0 && --depth === 0) {
+      const alternatives = splitAlternatives(pattern.slice(start + 1, i))
+      if (alternatives.length < 2) continue
+
+      const prefix = pattern.slice(0, start)
+      const suffix = pattern.slice(i + 1)
+      return alternatives.flatMap(alternative => expandBraces(prefix + alternative + suffix))
+    }
+  }
+
+  return [pattern]
+}
+
+/**
+ * Converts a brace-free glob to an anchored RegExp. `*` and `?` stay within a
+ * path segment, `**` as a whole segment spans any number of segments
+ * (including none) and `[...]`/`[!...]` are character classes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === '*') {
+      let end = i
+      while (pattern[end] === '*') end++
+
+      const wholeSegment = end - i > 1 && (i === 0 || pattern[i - 1] === '/') && (end === pattern.length || pattern[end] === '/')
+      if (!wholeSegment) {
+        source += '[^/]*'
+      } else if (end === pattern.length) {
+        source += '.*'
+      } else {
+        source += '(?:[^/]*/)*'
+        end++ // The segment's trailing slash is part of the repetition
+      }
+
+      i = end - 1
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const close = pattern.indexOf(']', i + 2)
+      const body = pattern.slice(i + 1, close).replace(/\\/g, '\\\\')
+      source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`
+      i = close
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+function compile(pattern: string): RegExp[] {
+  let compiled = patternCache.get(pattern)
+  if (!compiled) {
+    compiled = expandBraces(pattern).map(globToRegExp)
+    patternCache.set(pattern, compiled)
+  }
+  return compiled
+}
+
+/**
+ * Matches a root-relative, `/`-separated path against one glob. Patterns
+ * without a `/` (like `*.stories.tsx`) are matched against the file name alone.
+ */
+export function matchesGlob(file: string, pattern: string): boolean {
+  const target = pattern.includes('/') ? file : file.slice(file.lastIndexOf('/') + 1)
+  return compile(pattern).some(regex => regex.test(target))
+}
+
+/**
+ * Returns the pattern that decides the file is matched, or undefined.
+ * Patterns apply in order, so a later `!pattern` takes back an earlier match.
+ */
+export function findMatchingPattern(file: string, patterns: string[]): string | undefined {
+  let matched: string | undefined
+
+  patterns.forEach(pattern => {
+    const negated = pattern.startsWith('!')
+    if (matchesGlob(file, negated ? pattern.slice(1) : pattern)) {
+      matched = negated ? undefined : pattern
+    }
+  })
+
+  return matched
+}
+
+/**
+ * Normalizes a module id to the path patterns are written against: query
+ * strings dropped, `/` separators, relative to `root` when inside it.
+ */
+export function toRootRelative(file: string, root?: string): string {
+  let normalized = file.split('?')[0].replace(/\\/g, '/')
+
+  if (root) {
+    const normalizedRoot = root.replace(/\\/g, '/').replace(/\/$/, '')
+    if (normalized.startsWith(`${normalizedRoot}/`)) {
+      normalized = normalized.slice(normalizedRoot.length + 1)
+    }
+  }
+
+  return normalized.replace(/^\.\//, '')
+}
+
+/**
+ * Builds the include/exclude check shared by the Babel plugin, the Vite plugin
+ * and the runtime collector. The returned function gives the reason a file is
+ * skipped, or undefined when it should be instrumented.
+ */
+export function createFileMatcher(
+  config: Partial<Pick<RuntimeCoverageConfig, 'includePatterns' | 'excludePatterns'>>,
+  root?: string
+): (file: string) => SkippedFile | undefined {
+  const includePatterns = config.includePatterns || []
+  const excludePatterns = config.excludePatterns || []
+  const results = new Map<string, SkippedFile | undefined>()
+
+  const check = (relative: string): SkippedFile | undefined => {
+    const excludedBy = findMatchingPattern(relative, excludePatterns)
+    if (excludedBy) {
+      return { file: relative, reason: 'excluded', pattern: excludedBy }
+    }
+
+    if (includePatterns.length > 0 && !findMatchingPattern(relative, includePatterns)) {
+      return { file: relative, reason: 'not-included' }
+    }
+
+    return undefined
+  }
+
+  return (file: string) => {
+    if (!results.has(file)) {
+      results.set(file, check(toRootRelative(file, root)))
+    }
+    return results.get(file)
+  }
+}
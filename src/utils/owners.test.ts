@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest'
+import { getOwnerName } from './owners'
+
+describe('getOwnerName', () => {
+  it('groups by component, then by custom hook', () => {
+    expect(getOwnerName({ owner: { functionName: 'onClick', kind: 'handler', component: 'Cart', hook: 'useCart' } })).toBe('Cart')
+    expect(getOwnerName({ owner: { functionName: 'load', kind: 'function', hook: 'useCart' } })).toBe('useCart')
+    expect(getOwnerName({ owner: { functionName: 'format', kind: 'function' } })).toBeUndefined()
+    expect(getOwnerName({})).toBeUndefined()
+  })
+})
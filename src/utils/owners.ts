@@ -0,0 +1,9 @@
+import { BranchHit } from '../types'
+
+/**
+ * Name used to group a branch by component: the enclosing component, or the
+ * custom hook when the branch lives in a hook outside any component.
+ */
+export function getOwnerName(branch: Pick<BranchHit, 'owner'>): string | undefined {
+  return branch.owner?.component || branch.owner?.hook
+}
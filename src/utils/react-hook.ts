@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'
-import { BranchStats } from '../types'
+import { BranchStats, CoverageScopeInfo } from '../types'
 
 interface RuntimeCoverageHook {
   branchStats: BranchStats
+  scopes: CoverageScopeInfo[]
   summary: any
   isCollecting: boolean
   clearStats: () => void
@@ -10,23 +11,32 @@ interface RuntimeCoverageHook {
   refreshData: () => void
 }
 
-export function useRuntimeCoverage(autoRefresh = true, interval = 2000): RuntimeCoverageHook {
+/**
+ * Live coverage data. With `scope`, branchStats only has the branches tagged
+ * with that <CoverageScope> (trackScopes).
+ */
+export function useRuntimeCoverage(autoRefresh = true, interval = 2000, scope?: string): RuntimeCoverageHook {
   const [branchStats, setBranchStats] = useState<BranchStats>({})
+  const [scopes, setScopes] = useState<CoverageScopeInfo[]>([])
   const [summary, setSummary] = useState<any>(null)
   const [isCollecting, setIsCollecting] = useState(false)
 
   const refreshData = useCallback(() => {
     if (window.__RUNTIME_COVERAGE__) {
-      const stats = window.__RUNTIME_COVERAGE__.getBranchStats()
+      const allStats = window.__RUNTIME_COVERAGE__.getBranchStats()
+      const stats = scope
+        ? Object.fromEntries(Object.entries(allStats).filter(([_, branch]) => branch.scopes?.includes(scope)))
+        : allStats
       const executionSummary = window.__RUNTIME_COVERAGE__.getExecutionSummary()
       
       setBranchStats(stats)
+      setScopes(window.__RUNTIME_COVERAGE__.getScopes?.() || [])
       setSummary(executionSummary)
-      setIsCollecting(Object.keys(stats).length > 0)
+      setIsCollecting(Object.keys(allStats).length > 0)
     } else {
       setIsCollecting(false)
     }
-  }, [])
+  }, [scope])
 
   const clearStats = useCallback(() => {
     if (window.__RUNTIME_COVERAGE__) {
@@ -63,6 +73,7 @@ export function useRuntimeCoverage(autoRefresh = true, interval = 2000): Runtime
 
   return {
     branchStats,
+    scopes,
     summary,
     isCollecting,
     clearStats,
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { createPositionResolver } from './source-map'
+
+describe('createPositionResolver', () => {
+  // Generated line 1 -> original 1:0, line 2 -> 3:4, line 3 -> 3:4 and from column 4 on 3:8
+  const resolve = createPositionResolver({ version: 3, sources: ['App.tsx'], mappings: 'AAAA;AAEI;AAAA,IAAI' })
+
+  it('maps generated positions to the original line and column', () => {
+    expect(resolve({ line: 1, column: 0 })).toEqual({ line: 1, column: 0 })
+    expect(resolve({ line: 2, column: 7 })).toEqual({ line: 3, column: 4 })
+  })
+
+  it('uses the last segment starting at or before the column', () => {
+    expect(resolve({ line: 3, column: 3 })).toEqual({ line: 3, column: 4 })
+    expect(resolve({ line: 3, column: 20 })).toEqual({ line: 3, column: 8 })
+  })
+
+  it('returns undefined for lines the map does not cover', () => {
+    expect(resolve({ line: 9, column: 0 })).toBeUndefined()
+  })
+})
+
+describe('createPositionResolver with several sources', () => {
+  // Generated line 1 -> helpers.js 1:0, line 2 -> App.tsx 3:4, line 3 -> helpers.js 4:4
+  const map = { version: 3, sources: ['../shared/helpers.js', 'App.tsx'], mappings: 'AAAA;ACEI;ADCA' }
+
+  it('keeps only positions in the file being transformed', () => {
+    const resolve = createPositionResolver(map, '/app/src/App.tsx')
+    expect(resolve({ line: 1, column: 0 })).toBeUndefined()
+    expect(resolve({ line: 2, column: 0 })).toEqual({ line: 3, column: 4 })
+    expect(resolve({ line: 3, column: 0 })).toBeUndefined()
+  })
+
+  it('tracks the source index across segments of other sources', () => {
+    const resolve = createPositionResolver(map, '/app/shared/helpers.js')
+    expect(resolve({ line: 1, column: 0 })).toEqual({ line: 1, column: 0 })
+    expect(resolve({ line: 3, column: 0 })).toEqual({ line: 4, column: 4 })
+  })
+})
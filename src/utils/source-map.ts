@@ -0,0 +1,120 @@
+export interface RawSourceMap {
+  version: number
+  sources: string[]
+  mappings: string
+  names?: string[]
+  file?: string
+  sourceRoot?: string
+}
+
+export interface SourcePosition {
+  line: number // 1-based, like Babel's loc
+  column: number // 0-based
+}
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+function decodeVlq(text: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of text) {
+    const digit = BASE64_DIGITS.indexOf(char)
+    value += (digit & 31) << shift
+
+    if (digit & 32) {
+      shift += 5
+    } else {
+      const negative = value & 1
+      value >>>= 1
+      values.push(negative ? -value : value)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
+
+// Index of the entry in `sources` for the file being transformed: the one whose path is the
+// longest suffix of the file name, or the first when none matches
+function findSourceIndex(map: RawSourceMap, fileName?: string): number {
+  if (!fileName || map.sources.length <= 1) return 0
+
+  const file = `/${fileName.split('?')[0].replace(/\\/g, '/')}`
+  let index = 0
+  let longest = 0
+  map.sources.forEach((source, sourceIndex) => {
+    const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/, '/') : ''
+    const relative = `${root}${source || ''}`.replace(/\\/g, '/').replace(/^(\.{1,2}\/)+/, '')
+    if (relative.length > longest && file.endsWith(`/${relative}`)) {
+      index = sourceIndex
+      longest = relative.length
+    }
+  })
+  return index
+}
+
+// Per generated line: [generatedColumn, originalLine, originalColumn] segments of one source, sorted by column
+function decodeMappings(mappings: string, source: number): Array<Array<[number, number, number]>> {
+  let sourceIndex = 0
+  let sourceLine = 0
+  let sourceColumn = 0
+
+  return mappings.split(';').map(lineText => {
+    const segments: Array<[number, number, number]> = []
+    let generatedColumn = 0
+
+    lineText.split(',').forEach(segmentText => {
+      if (!segmentText) return
+      const values = decodeVlq(segmentText)
+      generatedColumn += values[0]
+
+      // One-field segments map generated code to no source position
+      if (values.length >= 4) {
+        sourceIndex += values[1]
+        sourceLine += values[2]
+        sourceColumn += values[3]
+        // Positions in other sources (inlined helpers, concatenated modules) aren't in this file
+        if (sourceIndex === source) segments.push([generatedColumn, sourceLine, sourceColumn])
+      }
+    })
+
+    return segments
+  })
+}
+
+/**
+ * Builds a lookup from positions in transformed code to the original source
+ * through a v3 source map. When the map has several sources, only positions in
+ * `fileName` count. Returns undefined for positions the map doesn't cover.
+ */
+export function createPositionResolver(
+  map: RawSourceMap,
+  fileName?: string
+): (position: SourcePosition) => SourcePosition | undefined {
+  const lines = decodeMappings(map.mappings || '', findSourceIndex(map, fileName))
+
+  return ({ line, column }) => {
+    const segments = lines[line - 1]
+    if (!segments || segments.length === 0) return undefined
+
+    // Last segment starting at or before the column
+    let low = 0
+    let high = segments.length - 1
+    let match = -1
+    while (low <= high) {
+      const middle = (low + high) >> 1
+      if (segments[middle][0] <= column) {
+        match = middle
+        low = middle + 1
+      } else {
+        high = middle - 1
+      }
+    }
+
+    const segment = segments[Math.max(0, match)]
+    return { line: segment[1] + 1, column: segment[2] }
+  }
+}
@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { runtimeCoveragePlugin } from './vite-plugin'
+import { createTestConfig, evaluate, instrument } from './test/helpers'
+import { RuntimeCoverageConfig } from './types'
+
+function getPlugin(): any {
+  return runtimeCoveragePlugin()
+}
+
+/**
+ * Runs the collector script the plugin injects, as the page would after the
+ * init script set the config, and returns the global API it installed.
+ */
+function runCollectorScript(overrides: Partial<RuntimeCoverageConfig> = {}): any {
+  vi.stubGlobal('window', globalThis)
+  delete (globalThis as any).__RUNTIME_COVERAGE__
+  delete (globalThis as any).__RUNTIME_COVERAGE_MANIFEST_QUEUE__
+  ;(globalThis as any).__RUNTIME_COVERAGE_CONFIG__ = createTestConfig(overrides)
+  new Function(getPlugin().generateCollectorScript())()
+  return (globalThis as any).__RUNTIME_COVERAGE__
+}
+
+afterEach(() => {
+  delete (globalThis as any).__RUNTIME_COVERAGE_CONFIG__
+  vi.unstubAllGlobals()
+})
+
+describe('collector script', () => {
+  it('starts the package collector with the config the init script set', () => {
+    const runtime = runCollectorScript()
+    ;(window as any).__RUNTIME_COVERAGE_MANIFEST_QUEUE__.push([
+      { branchId: 'src/App.tsx:if:a', file: 'src/App.tsx', line: 4, column: 2, type: 'if', condition: 'user' }
+    ])
+
+    expect(runtime.recordBranchHit('src/App.tsx:if:a', 'if', 'user', true)).toBe(true)
+    expect(runtime.getBranchStats()['src/App.tsx:if:a']).toMatchObject({ hitCount: 1, missCount: 0, line: 4 })
+  })
+
+  it('imports saved data, moving hits of renamed branches onto their current ids', () => {
+    const runtime = runCollectorScript()
+    ;(window as any).__RUNTIME_COVERAGE_MANIFEST_QUEUE__.push([
+      { branchId: 'src/App.tsx:if:new', file: 'src/App.tsx', line: 9, column: 2, type: 'if', condition: 'user' }
+    ])
+
+    runtime.importData({
+      branchStats: {
+        'src/App.tsx:if:old': {
+          branchId: 'src/App.tsx:if:old', file: 'src/App.tsx', line: 7, column: 2, type: 'if', condition: 'user',
+          hitCount: 3, missCount: 1, lastExecuted: 0
+        }
+      }
+    })
+
+    expect(runtime.getBranchStats()['src/App.tsx:if:new']).toMatchObject({ hitCount: 3, missCount: 1 })
+    expect(runtime.getBranchStats()['src/App.tsx:if:old']).toBeUndefined()
+  })
+
+  it('reports MC/DC coverage of instrumented decisions', () => {
+    const runtime = runCollectorScript({ mcdc: true })
+    const { code } = instrument(`
+      function canEdit(user, doc) {
+        if (user.admin || doc.owner === user.id) return true
+        return false
+      }
+    `, { mcdc: true })
+    const canEdit = evaluate(code, 'canEdit')
+
+    canEdit({ admin: true, id: 1 }, { owner: 2 })
+    canEdit({ admin: false, id: 1 }, { owner: 2 })
+    const [partial] = runtime.getMcdcCoverage()
+    expect(partial.decision).toBe('(user.admin || doc.owner === user.id)')
+    expect(partial.conditions.map((condition: any) => condition.independent)).toEqual([true, false])
+
+    canEdit({ admin: false, id: 1 }, { owner: 1 })
+    expect(runtime.getMcdcCoverage()[0]).toMatchObject({ coveredConditions: 2, coverageRate: 1 })
+  })
+
+  it('keeps timing buckets and percentiles for each arm', () => {
+    const sampling = { enabled: false, sampleRate: 1, maxSamplesPerSecond: 1000, collectExecutionTime: true }
+    const runtime = runCollectorScript({ sampling })
+    const { code, manifest } = instrument(`
+      function label(count) {
+        if (count > 0) {
+          return count + ' items'
+        }
+        return 'empty'
+      }
+    `, { sampling })
+    const label = evaluate(code, 'label')
+
+    for (let i = 1; i <= 20; i++) label(i)
+    const consequent = manifest.find(entry => entry.arm?.kind === 'consequent')!
+    const timing = runtime.getBranchStats()[consequent.branchId].timing
+
+    expect(timing.count).toBe(20)
+    expect(timing.buckets).toHaveLength(25)
+    expect(timing.buckets.reduce((sum: number, count: number) => sum + count, 0)).toBe(20)
+    expect(timing.p50).toBeGreaterThanOrEqual(timing.min)
+    expect(timing.p99).toBeLessThanOrEqual(timing.max)
+    expect(timing.p50).toBeLessThanOrEqual(timing.p90)
+  })
+
+  it('samples operands with the configured capture settings', () => {
+    const runtime = runCollectorScript({ captureOperands: { reservoirSize: 1, maxValueLength: 8, redactPatterns: ['plan'] } })
+    const { code, manifest } = instrument(`
+      function greet(user) {
+        if (user.nickname && user.plan) return 'Hi ' + user.nickname
+        return 'Hello'
+      }
+    `, { captureOperands: true })
+    const greet = evaluate(code, 'greet')
+
+    greet({ nickname: 'Supernova', plan: 'pro' })
+    greet({ nickname: 'Stardust', plan: 'free' })
+    const samples = runtime.getBranchStats()[manifest[0].branchId].operandSamples
+
+    expect(samples.operands).toEqual(['user.nickname', 'user.plan'])
+    expect(samples.whenTrue.seen).toBe(2)
+    expect(samples.whenTrue.samples).toHaveLength(1)
+    expect(samples.whenTrue.samples[0][0]).toMatch(/^"S.{5}…$/)
+    expect(samples.whenTrue.samples[0][1]).toBe('[redacted]')
+  })
+
+  it('is served by the dev server', () => {
+    const middlewares: any[] = []
+    getPlugin().configureServer({ middlewares: { use: (middleware: any) => middlewares.push(middleware) } })
+
+    const res = { setHeader: vi.fn(), end: vi.fn() }
+    const next = vi.fn()
+    middlewares[0]({ url: '/runtime-coverage-collector.js?v=1' }, res, next)
+
+    expect(next).not.toHaveBeenCalled()
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/javascript')
+    expect(res.end.mock.calls[0][0]).toContain('__RUNTIME_COVERAGE_CONFIG__')
+  })
+})
+
+describe('branch manifest', () => {
+  const SOURCE = 'export function pick(a) { return a ? 1 : 2 }'
+  // Branch ids and manifest files are relative to the working directory
+  const FILE = `${process.cwd()}/src/pick.ts`
+
+  // Transforms `code` as Vite would, without source maps from earlier plugins
+  function transform(plugin: any, code: string, id: string) {
+    return plugin.transform.call({ getCombinedSourcemap: () => undefined, warn: vi.fn() }, code, id)
+  }
+
+  it('serves the branches of transformed modules from memory in dev', () => {
+    const plugin = runtimeCoveragePlugin() as any
+    const middlewares: any[] = []
+    plugin.configureServer({ middlewares: { use: (middleware: any) => middlewares.push(middleware) } })
+    transform(plugin, SOURCE, FILE)
+
+    const res = { setHeader: vi.fn(), end: vi.fn() }
+    middlewares[0]({ url: '/runtime-coverage-manifest.json' }, res, vi.fn())
+    const manifest = JSON.parse(res.end.mock.calls[0][0])
+
+    expect(manifest.version).toBe(1)
+    expect(manifest.branches.map((entry: any) => [entry.file, entry.type, entry.condition])).toContainEqual(['src/pick.ts', 'ternary', 'a'])
+  })
+
+  it('emits the manifest and the collector on build', () => {
+    const plugin = runtimeCoveragePlugin() as any
+    transform(plugin, SOURCE, FILE)
+
+    const emitFile = vi.fn()
+    plugin.generateBundle.call({ emitFile })
+    const files = Object.fromEntries(emitFile.mock.calls.map(([file]) => [file.fileName, file.source]))
+
+    expect(Object.keys(files).sort()).toEqual(['runtime-coverage-collector.js', 'runtime-coverage-manifest.json'])
+    expect(JSON.parse(files['runtime-coverage-manifest.json']).branches.length).toBeGreaterThan(0)
+  })
+
+  it('drops the branches of a module that is skipped after an update', () => {
+    const plugin = runtimeCoveragePlugin() as any
+    const manifest = () => {
+      const emitFile = vi.fn()
+      plugin.generateBundle.call({ emitFile })
+      return JSON.parse(emitFile.mock.calls.find(([file]) => file.fileName === 'runtime-coverage-manifest.json')[0].source)
+    }
+
+    transform(plugin, SOURCE, FILE)
+    expect(manifest().branches.length).toBeGreaterThan(0)
+
+    transform(plugin, `// frontsense-ignore-file\n${SOURCE}`, FILE)
+    expect(manifest().branches).toEqual([])
+    expect(manifest().skippedFiles).toEqual([{ file: 'src/pick.ts', reason: 'ignore-file' }])
+  })
+})
+
@@ -1,25 +1,59 @@
 import { Plugin } from 'vite'
-import { RuntimeCoverageConfig } from './types'
+import { buildSync } from 'esbuild'
+import { existsSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { fileURLToPath } from 'url'
+import { BranchManifest, BranchManifestEntry, RenderRisk, RuntimeCoverageConfig, SkippedFile } from './types'
 import runtimeCoverageBabelPlugin from './babel-plugin'
+import { createFileMatcher, toRootRelative } from './utils/glob'
 
 export interface ViteRuntimeCoverageOptions extends Partial<RuntimeCoverageConfig> {
   // Additional Vite-specific options
   injectInDev?: boolean
   injectInProd?: boolean
   initScript?: string
+  manifestFileName?: string
+}
+
+const COLLECTOR_FILE_NAME = 'runtime-coverage-collector.js'
+
+// The collector's entry next to this module: the TS source in the repo, its build output in dist
+const COLLECTOR_ENTRIES = ['core/collector-entry.ts', 'collector-entry.js']
+
+/**
+ * Bundles the collector the package exports into one classic script, so the
+ * page runs the same code as `RuntimeCoverageCollector` rather than a copy.
+ */
+function bundleCollector(): string {
+  const here = dirname(fileURLToPath(import.meta.url))
+  const entry = COLLECTOR_ENTRIES.map(file => resolve(here, file)).find(file => existsSync(file))
+  if (!entry) {
+    throw new Error(`Runtime coverage: collector entry not found next to ${here}`)
+  }
+
+  const result = buildSync({
+    entryPoints: [entry],
+    bundle: true,
+    format: 'iife',
+    platform: 'browser',
+    target: 'es2019',
+    write: false
+  })
+  return result.outputFiles[0].text
 }
 
 const DEFAULT_OPTIONS: ViteRuntimeCoverageOptions = {
   enabled: true,
   injectInDev: true,
   injectInProd: false,
+  manifestFileName: 'runtime-coverage-manifest.json',
   sampling: {
     enabled: false,
     sampleRate: 1.0,
     maxSamplesPerSecond: 1000,
     collectExecutionTime: false
   },
-  excludePatterns: ['node_modules/**', '**/*.test.*', '**/*.spec.*'],
+  excludePatterns: ['**/node_modules/**', '**/*.test.*', '**/*.spec.*'],
   includePatterns: ['**/*.{js,jsx,ts,tsx}'],
   sendToAnalytics: false,
   visualizationEnabled: true
@@ -27,6 +61,34 @@ const DEFAULT_OPTIONS: ViteRuntimeCoverageOptions = {
 
 export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}): Plugin {
   const config = { ...DEFAULT_OPTIONS, ...options }
+  const manifestFileName = config.manifestFileName || 'runtime-coverage-manifest.json'
+  const manifestEntries = new Map<string, BranchManifestEntry[]>()
+  const skippedFiles = new Map<string, SkippedFile>()
+  const renderRisks = new Map<string, RenderRisk[]>()
+  let getSkipReason = createFileMatcher(config, config.root)
+
+  config.manifestUrl = config.manifestUrl || `/${manifestFileName}`
+
+  const buildManifest = (): BranchManifest => ({
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    branches: Array.from(manifestEntries.values()).flat(),
+    skippedFiles: Array.from(skippedFiles.values()),
+    renderRisks: Array.from(renderRisks.values()).flat()
+  })
+
+  // Bundled on first request; the collector's sources don't change while Vite runs
+  let collectorScript: string | undefined
+  const getCollectorScript = () => {
+    collectorScript = collectorScript || bundleCollector()
+    return collectorScript
+  }
+
+  const recordSkip = (skipped: SkippedFile) => {
+    // Dependencies are skipped by design; listing them would bury the files people ask about
+    if (skipped.file.includes('node_modules/')) return
+    skippedFiles.set(skipped.file, skipped)
+  }
   
   return {
     name: 'vite-plugin-runtime-coverage',
@@ -35,6 +97,10 @@ export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}):
       // Adjust config based on build mode
       const isDev = resolvedConfig.command === 'serve'
       const isProd = resolvedConfig.command === 'build'
+
+      // Patterns are relative to the Vite root unless configured otherwise
+      config.root = config.root || resolvedConfig.root
+      getSkipReason = createFileMatcher(config, config.root)
       
       if (isDev && !config.injectInDev) {
         config.enabled = false
@@ -51,6 +117,25 @@ export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}):
       }
     },
 
+    configureServer(server) {
+      // Serve the collector, and the manifest from memory so dev sessions report unreached branches too
+      server.middlewares.use((req, res, next) => {
+        const path = req.url?.split('?')[0]
+        if (!config.enabled || (path !== config.manifestUrl && path !== `/${COLLECTOR_FILE_NAME}`)) {
+          return next()
+        }
+
+        if (path === `/${COLLECTOR_FILE_NAME}`) {
+          res.setHeader('Content-Type', 'text/javascript')
+          res.end(getCollectorScript())
+          return
+        }
+
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(buildManifest()))
+      })
+    },
+
     transformIndexHtml: {
       enforce: 'pre',
       transform(html, context) {
@@ -74,13 +159,18 @@ export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}):
 
       // Skip non-JS/TS files
       if (!/\.(js|jsx|ts|tsx)$/.test(id)) return null
-      
-      // Skip excluded patterns
-      if (config.excludePatterns?.some(pattern => 
-        id.includes(pattern.replace('**/', '').replace('*', ''))
-      )) {
+
+      // Drop what the last transform of this file reported; it may now be skipped or have fewer branches
+      manifestEntries.delete(id)
+      renderRisks.delete(id)
+
+      const skipped = getSkipReason(id)
+      if (skipped) {
+        recordSkip(skipped)
         return null
       }
+      // A file may have dropped its ignore-file pragma since the last transform
+      skippedFiles.delete(toRootRelative(id, config.root))
 
       // Apply Babel transformation
       const babel = require('@babel/core')
@@ -89,7 +179,21 @@ export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}):
         const result = babel.transformSync(code, {
           filename: id,
           plugins: [
-            [runtimeCoverageBabelPlugin, config]
+            [runtimeCoverageBabelPlugin, {
+              ...config,
+              // Report positions in the original source rather than the output of earlier
+              // transforms (TS, JSX). Given to the plugin only, so Babel's own output map
+              // stays relative to this transform's input as Vite expects.
+              inputSourceMap: this.getCombinedSourcemap(),
+              onManifest: (fileName: string, entries: BranchManifestEntry[]) => {
+                manifestEntries.set(fileName, entries)
+              },
+              onSkip: recordSkip,
+              onRenderRisks: (fileName: string, risks: RenderRisk[]) => {
+                renderRisks.set(fileName, risks)
+                risks.forEach(risk => this.warn(`${risk.file}:${risk.line}:${risk.column} ${risk.message}`))
+              }
+            }]
           ],
           sourceMaps: true
         })
@@ -110,8 +214,14 @@ export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}):
       // Add runtime collector as a separate chunk
       this.emitFile({
         type: 'asset',
-        fileName: 'runtime-coverage-collector.js',
-        source: this.generateCollectorScript(config)
+        fileName: COLLECTOR_FILE_NAME,
+        source: getCollectorScript()
+      })
+
+      this.emitFile({
+        type: 'asset',
+        fileName: manifestFileName,
+        source: JSON.stringify(buildManifest(), null, 2)
       })
     },
 
@@ -130,7 +240,7 @@ export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}):
             
             // Load collector dynamically
             const script = document.createElement('script');
-            script.src = '/runtime-coverage-collector.js';
+            script.src = '/${COLLECTOR_FILE_NAME}';
             script.async = true;
             document.head.appendChild(script);
           }
@@ -140,162 +250,8 @@ export function runtimeCoveragePlugin(options: ViteRuntimeCoverageOptions = {}):
       `
     },
 
-    generateCollectorScript(config: ViteRuntimeCoverageOptions): string {
-      return `
-        // Runtime Coverage Collector
-        (function() {
-          if (typeof window === 'undefined') return;
-          
-          class RuntimeCoverageCollector {
-            constructor(config) {
-              this.branchStats = {};
-              this.config = config;
-              this.samplingConfig = config.sampling || {};
-              this.sessionId = 'session_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-              this.sampleCounter = 0;
-              this.lastSampleTime = 0;
-              
-              this.initializeGlobalInterface();
-              
-              if (config.sendToAnalytics && config.analyticsEndpoint) {
-                this.startAnalyticsReporting();
-              }
-            }
-            
-            initializeGlobalInterface() {
-              window.__RUNTIME_COVERAGE__ = {
-                recordBranchHit: this.recordBranchHit.bind(this),
-                getBranchStats: () => ({ ...this.branchStats }),
-                getExecutionSummary: this.getExecutionSummary.bind(this),
-                clearStats: () => { this.branchStats = {}; this.sampleCounter = 0; },
-                updateConfig: (newConfig) => { this.config = { ...this.config, ...newConfig }; },
-                exportData: () => ({
-                  branchStats: this.branchStats,
-                  executionSummary: this.getExecutionSummary(),
-                  config: this.config,
-                  sessionId: this.sessionId
-                })
-              };
-            }
-            
-            recordBranchHit(branchId, type, conditionCode, conditionResult, collectExecutionTime = false) {
-              // Sampling logic
-              if (this.samplingConfig.enabled && !this.shouldSample()) {
-                return conditionResult;
-              }
-              
-              const now = performance.now();
-              
-              if (this.samplingConfig.enabled && this.isRateLimited(now)) {
-                return conditionResult;
-              }
-              
-              const [filePath, line, column, branchType] = branchId.split(':');
-              
-              if (!this.branchStats[branchId]) {
-                this.branchStats[branchId] = {
-                  branchId,
-                  file: filePath,
-                  line: parseInt(line, 10),
-                  column: parseInt(column, 10),
-                  type: type,
-                  condition: conditionCode,
-                  hitCount: 0,
-                  missCount: 0,
-                  timestamp: now
-                };
-              }
-              
-              const branch = this.branchStats[branchId];
-              
-              if (conditionResult) {
-                branch.hitCount++;
-              } else {
-                branch.missCount++;
-              }
-              
-              if (collectExecutionTime) {
-                branch.executionTime = performance.now() - now;
-              }
-              
-              branch.timestamp = now;
-              return conditionResult;
-            }
-            
-            shouldSample() {
-              this.sampleCounter++;
-              return (this.sampleCounter * this.samplingConfig.sampleRate) % 1 < this.samplingConfig.sampleRate;
-            }
-            
-            isRateLimited(now) {
-              const timeSinceLastSample = now - this.lastSampleTime;
-              const minInterval = 1000 / this.samplingConfig.maxSamplesPerSecond;
-              
-              if (timeSinceLastSample < minInterval) {
-                return true;
-              }
-              
-              this.lastSampleTime = now;
-              return false;
-            }
-            
-            getExecutionSummary() {
-              const stats = Object.values(this.branchStats);
-              const totalBranches = stats.length;
-              const hitBranches = stats.filter(b => b.hitCount > 0).length;
-              const deadBranches = stats.filter(b => b.hitCount === 0).length;
-              
-              return {
-                totalBranches,
-                hitBranches,
-                deadBranches,
-                coverageRate: totalBranches > 0 ? hitBranches / totalBranches : 0,
-                sessionId: this.sessionId
-              };
-            }
-            
-            startAnalyticsReporting() {
-              setInterval(() => {
-                if (Object.keys(this.branchStats).length === 0) return;
-                this.sendToAnalytics({
-                  type: 'execution-summary',
-                  data: this.branchStats,
-                  timestamp: Date.now(),
-                  sessionId: this.sessionId
-                });
-              }, 30000);
-              
-              window.addEventListener('beforeunload', () => {
-                if (Object.keys(this.branchStats).length > 0) {
-                  this.sendToAnalytics({
-                    type: 'execution-summary',
-                    data: this.branchStats,
-                    timestamp: Date.now(),
-                    sessionId: this.sessionId
-                  });
-                }
-              });
-            }
-            
-            sendToAnalytics(event) {
-              if (!this.config.analyticsEndpoint) return;
-              
-              fetch(this.config.analyticsEndpoint, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(event)
-              }).catch(error => {
-                console.warn('Failed to send analytics:', error);
-              });
-            }
-          }
-          
-          // Initialize collector
-          const config = window.__RUNTIME_COVERAGE_CONFIG__ || {};
-          new RuntimeCoverageCollector(config);
-          
-        })();
-      `
+    generateCollectorScript(): string {
+      return getCollectorScript()
     },
 
     generateDevToolsScript(): string {
@@ -9,13 +9,15 @@ export default defineConfig({
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
         'vite-plugin': resolve(__dirname, 'src/vite-plugin.ts'),
-        'babel-plugin': resolve(__dirname, 'src/babel-plugin.ts')
+        'babel-plugin': resolve(__dirname, 'src/babel-plugin.ts'),
+        // Bundled again by the Vite plugin into the collector script it injects
+        'collector-entry': resolve(__dirname, 'src/core/collector-entry.ts')
       },
       name: 'RuntimeCoverageFrontend',
       formats: ['es', 'cjs']
     },
     rollupOptions: {
-      external: ['react', 'react-dom', '@babel/parser', '@babel/traverse', '@babel/types', '@babel/generator'],
+      external: ['react', 'react-dom', '@babel/parser', '@babel/traverse', '@babel/types', '@babel/generator', 'esbuild', 'fs', 'path', 'url'],
       output: {
         globals: {
           react: 'React',